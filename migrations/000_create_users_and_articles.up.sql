@@ -0,0 +1,23 @@
+-- Core schema. IF NOT EXISTS lets databases created before migrations adopt it
+CREATE TABLE IF NOT EXISTS users (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  username VARCHAR(50) NOT NULL,
+  email VARCHAR(255) NOT NULL,
+  password VARCHAR(255) NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY users_username_unique (username),
+  UNIQUE KEY users_email_unique (email)
+);
+
+CREATE TABLE IF NOT EXISTS articles (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  title VARCHAR(255) NOT NULL,
+  body TEXT NOT NULL,
+  category VARCHAR(100) NULL,
+  submitted_by INT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  KEY articles_created_at_index (created_at),
+  KEY articles_category_index (category),
+  CONSTRAINT articles_submitted_by_foreign
+    FOREIGN KEY (submitted_by) REFERENCES users (id) ON DELETE CASCADE
+);
@@ -0,0 +1,2 @@
+ALTER TABLE articles
+  DROP INDEX articles_title_body_fulltext;
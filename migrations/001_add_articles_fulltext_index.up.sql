@@ -0,0 +1,3 @@
+-- Full-text index backing GET /articles/search
+ALTER TABLE articles
+  ADD FULLTEXT INDEX articles_title_body_fulltext (title, body);
@@ -0,0 +1,3 @@
+-- Per user role used by the authorize middleware
+ALTER TABLE users
+  ADD COLUMN role ENUM('reader', 'author', 'editor', 'admin') NOT NULL DEFAULT 'author';
@@ -0,0 +1,16 @@
+-- Rotating refresh tokens, every login starts a new token family (session)
+CREATE TABLE refresh_tokens (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  family_id CHAR(36) NOT NULL,
+  token_hash CHAR(64) NOT NULL,
+  expires_at DATETIME NOT NULL,
+  used_at DATETIME NULL,
+  revoked_at DATETIME NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY refresh_tokens_token_hash_unique (token_hash),
+  KEY refresh_tokens_family_id_index (family_id),
+  KEY refresh_tokens_user_id_index (user_id),
+  CONSTRAINT refresh_tokens_user_id_foreign
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
@@ -0,0 +1,17 @@
+-- Email verification state and single-use tokens for reset/verify links
+ALTER TABLE users
+  ADD COLUMN email_verified_at DATETIME NULL;
+
+CREATE TABLE user_tokens (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  purpose ENUM('password_reset', 'email_verification') NOT NULL,
+  token_hash CHAR(64) NOT NULL,
+  expires_at DATETIME NOT NULL,
+  used_at DATETIME NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY user_tokens_token_hash_unique (token_hash),
+  KEY user_tokens_user_id_purpose_index (user_id, purpose),
+  CONSTRAINT user_tokens_user_id_foreign
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
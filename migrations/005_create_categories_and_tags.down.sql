@@ -0,0 +1,15 @@
+ALTER TABLE articles
+  ADD COLUMN category VARCHAR(100) NULL AFTER body,
+  ADD KEY articles_category_index (category);
+
+UPDATE articles
+INNER JOIN categories ON categories.id = articles.category_id
+SET articles.category = categories.name;
+
+ALTER TABLE articles
+  DROP FOREIGN KEY articles_category_id_foreign,
+  DROP COLUMN category_id;
+
+DROP TABLE article_tags;
+DROP TABLE tags;
+DROP TABLE categories;
@@ -0,0 +1,56 @@
+-- Categories and tags as their own tables, articles point at a category
+-- and are tagged through article_tags
+CREATE TABLE categories (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  slug VARCHAR(100) NOT NULL,
+  description VARCHAR(500) NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY categories_slug_unique (slug)
+);
+
+CREATE TABLE tags (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  name VARCHAR(50) NOT NULL,
+  slug VARCHAR(50) NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY tags_slug_unique (slug)
+);
+
+CREATE TABLE article_tags (
+  article_id INT NOT NULL,
+  tag_id INT NOT NULL,
+  PRIMARY KEY (article_id, tag_id),
+  KEY article_tags_tag_id_index (tag_id),
+  CONSTRAINT article_tags_article_id_foreign
+    FOREIGN KEY (article_id) REFERENCES articles (id) ON DELETE CASCADE,
+  CONSTRAINT article_tags_tag_id_foreign
+    FOREIGN KEY (tag_id) REFERENCES tags (id) ON DELETE CASCADE
+);
+
+ALTER TABLE articles
+  ADD COLUMN category_id INT NULL AFTER body,
+  ADD CONSTRAINT articles_category_id_foreign
+    FOREIGN KEY (category_id) REFERENCES categories (id) ON DELETE SET NULL;
+
+-- Turn the free-text categories into rows, names that slug the same merge
+INSERT INTO categories (name, slug)
+SELECT MIN(category), slug
+FROM (
+  SELECT
+    TRIM(category) AS category,
+    TRIM(BOTH '-' FROM LOWER(REGEXP_REPLACE(TRIM(category), '[^A-Za-z0-9]+', '-'))) AS slug
+  FROM articles
+  WHERE category IS NOT NULL
+) AS existing
+WHERE slug <> ''
+GROUP BY slug;
+
+UPDATE articles
+INNER JOIN categories
+  ON categories.slug = TRIM(BOTH '-' FROM LOWER(REGEXP_REPLACE(TRIM(articles.category), '[^A-Za-z0-9]+', '-')))
+SET articles.category_id = categories.id;
+
+ALTER TABLE articles
+  DROP INDEX articles_category_index,
+  DROP COLUMN category;
@@ -0,0 +1,24 @@
+-- Threaded comments on articles. Replies point at their parent and at the
+-- top level comment of their thread, deleted comments stay as placeholders
+CREATE TABLE comments (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  article_id INT NOT NULL,
+  root_id INT NULL,
+  parent_id INT NULL,
+  depth TINYINT UNSIGNED NOT NULL DEFAULT 0,
+  user_id INT NOT NULL,
+  body TEXT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NULL,
+  deleted_at DATETIME NULL,
+  KEY comments_article_id_parent_id_index (article_id, parent_id),
+  KEY comments_root_id_index (root_id),
+  CONSTRAINT comments_article_id_foreign
+    FOREIGN KEY (article_id) REFERENCES articles (id) ON DELETE CASCADE,
+  CONSTRAINT comments_root_id_foreign
+    FOREIGN KEY (root_id) REFERENCES comments (id) ON DELETE CASCADE,
+  CONSTRAINT comments_parent_id_foreign
+    FOREIGN KEY (parent_id) REFERENCES comments (id) ON DELETE CASCADE,
+  CONSTRAINT comments_user_id_foreign
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
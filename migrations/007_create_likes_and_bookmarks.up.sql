@@ -0,0 +1,24 @@
+-- Users like and bookmark articles, at most once each
+CREATE TABLE article_likes (
+  article_id INT NOT NULL,
+  user_id INT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (article_id, user_id),
+  KEY article_likes_user_id_index (user_id),
+  CONSTRAINT article_likes_article_id_foreign
+    FOREIGN KEY (article_id) REFERENCES articles (id) ON DELETE CASCADE,
+  CONSTRAINT article_likes_user_id_foreign
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
+
+CREATE TABLE bookmarks (
+  article_id INT NOT NULL,
+  user_id INT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (article_id, user_id),
+  KEY bookmarks_user_id_created_at_index (user_id, created_at),
+  CONSTRAINT bookmarks_article_id_foreign
+    FOREIGN KEY (article_id) REFERENCES articles (id) ON DELETE CASCADE,
+  CONSTRAINT bookmarks_user_id_foreign
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
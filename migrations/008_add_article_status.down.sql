@@ -0,0 +1,5 @@
+ALTER TABLE articles
+  DROP INDEX articles_status_publish_at_index,
+  DROP COLUMN published_at,
+  DROP COLUMN publish_at,
+  DROP COLUMN status;
@@ -0,0 +1,9 @@
+-- Publishing lifecycle. Articles that existed before were public, so they
+-- start out published.
+ALTER TABLE articles
+  ADD COLUMN status ENUM('draft', 'scheduled', 'published', 'archived') NOT NULL DEFAULT 'draft' AFTER category_id,
+  ADD COLUMN publish_at DATETIME NULL AFTER status,
+  ADD COLUMN published_at DATETIME NULL AFTER publish_at,
+  ADD KEY articles_status_publish_at_index (status, publish_at);
+
+UPDATE articles SET status = 'published', published_at = created_at;
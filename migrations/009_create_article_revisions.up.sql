@@ -0,0 +1,19 @@
+-- Every article update keeps what it replaced. Revision n of an article is
+-- the article as it was before its nth edit, with who made that edit and when
+CREATE TABLE article_revisions (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  article_id INT NOT NULL,
+  revision INT NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  body TEXT NOT NULL,
+  category_id INT NULL,
+  edited_by INT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY article_revisions_article_id_revision_unique (article_id, revision),
+  CONSTRAINT article_revisions_article_id_foreign
+    FOREIGN KEY (article_id) REFERENCES articles (id) ON DELETE CASCADE,
+  CONSTRAINT article_revisions_category_id_foreign
+    FOREIGN KEY (category_id) REFERENCES categories (id) ON DELETE SET NULL,
+  CONSTRAINT article_revisions_edited_by_foreign
+    FOREIGN KEY (edited_by) REFERENCES users (id) ON DELETE SET NULL
+);
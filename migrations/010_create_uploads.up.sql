@@ -0,0 +1,27 @@
+-- Files uploaded for articles and users. An article has at most one cover
+-- and a user at most one avatar, kept unique through generated columns.
+CREATE TABLE uploads (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  article_id INT NULL,
+  kind ENUM('cover', 'attachment', 'avatar') NOT NULL,
+  filename VARCHAR(255) NOT NULL,
+  content_type VARCHAR(100) NOT NULL,
+  size INT UNSIGNED NOT NULL,
+  width INT UNSIGNED NULL,
+  height INT UNSIGNED NULL,
+  storage_key VARCHAR(255) NOT NULL,
+  url VARCHAR(1024) NOT NULL,
+  thumbnail_key VARCHAR(255) NULL,
+  thumbnail_url VARCHAR(1024) NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  cover_article_id INT AS (IF(kind = 'cover', article_id, NULL)) STORED,
+  avatar_user_id INT AS (IF(kind = 'avatar', user_id, NULL)) STORED,
+  UNIQUE KEY uploads_cover_article_id_unique (cover_article_id),
+  UNIQUE KEY uploads_avatar_user_id_unique (avatar_user_id),
+  KEY uploads_article_id_kind_index (article_id, kind),
+  CONSTRAINT uploads_user_id_foreign
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+  CONSTRAINT uploads_article_id_foreign
+    FOREIGN KEY (article_id) REFERENCES articles (id) ON DELETE CASCADE
+);
@@ -0,0 +1,4 @@
+ALTER TABLE articles
+  DROP INDEX articles_submitted_by_published_at_index;
+
+DROP TABLE follows;
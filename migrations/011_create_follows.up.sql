@@ -0,0 +1,17 @@
+-- Users follow other users, at most once each. Following yourself is
+-- refused by the API, a CHECK can't be combined with the cascading keys.
+CREATE TABLE follows (
+  follower_id INT NOT NULL,
+  followed_id INT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (follower_id, followed_id),
+  KEY follows_followed_id_created_at_index (followed_id, created_at),
+  CONSTRAINT follows_follower_id_foreign
+    FOREIGN KEY (follower_id) REFERENCES users (id) ON DELETE CASCADE,
+  CONSTRAINT follows_followed_id_foreign
+    FOREIGN KEY (followed_id) REFERENCES users (id) ON DELETE CASCADE
+);
+
+-- The personal feed reads published articles of several authors by date
+ALTER TABLE articles
+  ADD KEY articles_submitted_by_published_at_index (submitted_by, published_at);
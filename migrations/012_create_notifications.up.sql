@@ -0,0 +1,30 @@
+-- What happened to a user's content or account, and who did it
+CREATE TABLE notifications (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  actor_id INT NOT NULL,
+  type ENUM('comment', 'reply', 'like', 'follow') NOT NULL,
+  article_id INT NULL,
+  comment_id INT NULL,
+  read_at DATETIME NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  KEY notifications_user_id_read_at_index (user_id, read_at),
+  CONSTRAINT notifications_user_id_foreign
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+  CONSTRAINT notifications_actor_id_foreign
+    FOREIGN KEY (actor_id) REFERENCES users (id) ON DELETE CASCADE,
+  CONSTRAINT notifications_article_id_foreign
+    FOREIGN KEY (article_id) REFERENCES articles (id) ON DELETE CASCADE,
+  CONSTRAINT notifications_comment_id_foreign
+    FOREIGN KEY (comment_id) REFERENCES comments (id) ON DELETE CASCADE
+);
+
+-- Types without a row are on
+CREATE TABLE notification_preferences (
+  user_id INT NOT NULL,
+  type ENUM('comment', 'reply', 'like', 'follow') NOT NULL,
+  enabled BOOLEAN NOT NULL,
+  PRIMARY KEY (user_id, type),
+  CONSTRAINT notification_preferences_user_id_foreign
+    FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);
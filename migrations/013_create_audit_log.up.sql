@@ -0,0 +1,14 @@
+-- Who created, updated or deleted which user or article. No foreign keys,
+-- entries outlive the users and articles they are about.
+CREATE TABLE audit_log (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  actor_id INT NOT NULL,
+  action ENUM('create', 'update', 'delete') NOT NULL,
+  entity_type ENUM('user', 'article') NOT NULL,
+  entity_id INT NOT NULL,
+  details JSON NULL,
+  request_id VARCHAR(128) NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  KEY audit_log_entity_index (entity_type, entity_id),
+  KEY audit_log_actor_id_index (actor_id)
+);
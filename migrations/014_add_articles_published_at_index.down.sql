@@ -0,0 +1,2 @@
+ALTER TABLE articles
+  DROP INDEX articles_status_published_at_index;
@@ -0,0 +1,3 @@
+-- Feeds read the most recently published articles
+ALTER TABLE articles
+  ADD KEY articles_status_published_at_index (status, published_at);
@@ -0,0 +1,134 @@
+import express from "express";
+import cors from "cors";
+import swaggerUi from "swagger-ui-express";
+import { createOpenApiDocument } from "./openapi/index.js";
+import type { Repositories } from "./repositories/index.js";
+import type { Mailer } from "./mail/index.js";
+import { createLoggerFromEnv, type Logger } from "./logging/index.js";
+import { createAppMetrics, type DatabaseMonitor } from "./monitoring/index.js";
+import { UPLOADS_PATH, type Storage } from "./storage/index.js";
+import {
+  createNotificationHub,
+  type NotificationHub,
+} from "./notifications/index.js";
+import {
+  notFoundHandler,
+  problemHandler,
+} from "./middleware/error-handler.js";
+import { rateLimit } from "./middleware/rate-limit.js";
+import { accessLog, requestId } from "./middleware/request-logging.js";
+import { requestMetrics, routePrefix } from "./middleware/request-metrics.js";
+import {
+  createMemoryRateLimitStore,
+  type RateLimitStore,
+} from "./rate-limit/index.js";
+import { apiRouters } from "./routes/index.js";
+import healthRouter from "./routes/health.js";
+
+const openApiDocument = createOpenApiDocument(apiRouters);
+
+export interface AppDependencies {
+  repositories: Repositories;
+  mailer: Mailer;
+  storage: Storage;
+  // Rate limit counters, kept in memory unless a shared store is given
+  rateLimitStore?: RateLimitStore;
+  // Delivers notifications to open streams, a fresh one unless given
+  notificationHub?: NotificationHub;
+  // JSON lines on stdout at LOG_LEVEL unless given
+  logger?: Logger;
+  // Checked by GET /readyz and reported by GET /metrics, left out when
+  // running without MySQL
+  database?: DatabaseMonitor;
+}
+
+// Per-IP limit shared by every API router, auth routes add stricter ones
+const apiLimit = rateLimit({
+  name: "api",
+  limit: 300,
+  windowMs: 15 * 60 * 1000,
+});
+
+// TRUST_PROXY is passed to express' "trust proxy" setting, so req.ip is the
+// client and not the proxy. Hop count, "true" or a list of addresses.
+function trustProxy(value: string) {
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+  return value === "true" ? true : value;
+}
+
+// Build the express app without listening, so tests can import it
+export function createApp({
+  repositories,
+  mailer,
+  storage,
+  rateLimitStore = createMemoryRateLimitStore(),
+  notificationHub = createNotificationHub(),
+  logger = createLoggerFromEnv(),
+  database,
+}: AppDependencies) {
+  const app = express();
+
+  if (process.env.TRUST_PROXY) {
+    app.set("trust proxy", trustProxy(process.env.TRUST_PROXY));
+  }
+
+  // Services used by every router, see getRepositories, getMailer,
+  // getStorage, getRateLimitStore, getNotificationHub, getLogger,
+  // getMetrics and getDatabaseMonitor. isShuttingDown flips once
+  // markShuttingDown is called.
+  app.locals.repositories = repositories;
+  app.locals.mailer = mailer;
+  app.locals.storage = storage;
+  app.locals.rateLimitStore = rateLimitStore;
+  app.locals.notificationHub = notificationHub;
+  app.locals.logger = logger;
+  app.locals.metrics = createAppMetrics(database);
+  app.locals.database = database;
+  app.locals.shuttingDown = false;
+
+  // Middleware, every request gets an id, an access log line and metrics
+  app.use(requestId);
+  app.use(accessLog);
+  app.use(requestMetrics);
+  app.use(express.json());
+  app.use(cors({ exposedHeaders: ["X-Request-Id"] }));
+
+  // Probes and metrics, outside the API rate limit
+  app.use(healthRouter);
+
+  // API routes, every request counts once against the shared limit
+  app.use(
+    apiRouters.map(({ path }) => path),
+    apiLimit
+  );
+  for (const { path, router } of apiRouters) {
+    app.use(path, routePrefix(path), router);
+  }
+
+  // Uploaded files, unless the storage serves them from elsewhere
+  if (storage.handler) {
+    app.use(UPLOADS_PATH, routePrefix(UPLOADS_PATH), storage.handler);
+  }
+
+  // API documentation, generated from the routes and their schemas
+  app.get("/openapi.json", (req, res) => {
+    res.json(openApiDocument);
+  });
+  app.use(
+    "/api-docs",
+    swaggerUi.serve,
+    swaggerUi.setup(undefined, { swaggerOptions: { url: "/openapi.json" } })
+  );
+
+  // Basic route
+  app.get("/", (req, res) => {
+    res.json("Hello World!");
+  });
+
+  app.use(notFoundHandler);
+  app.use(problemHandler);
+
+  return app;
+}
@@ -0,0 +1,25 @@
+import type { Request } from "express";
+import type { NewAuditEntry } from "../interfaces.js";
+import { getLogger } from "../logging/index.js";
+import { getRepositories } from "../repositories/index.js";
+
+export type * from "./types.js";
+export { AUDIT_ACTIONS, AUDITED_ENTITIES } from "./types.js";
+
+// Record who changed which user or article, along with the request id.
+// The change already happened, so failures are only logged.
+export async function audit(
+  req: Request,
+  entry: Omit<NewAuditEntry, "request_id" | "details"> &
+    Partial<Pick<NewAuditEntry, "details">>
+) {
+  try {
+    await getRepositories(req).auditLog.record({
+      ...entry,
+      details: entry.details ?? null,
+      request_id: req.requestId,
+    });
+  } catch (error) {
+    getLogger(req).error("Audit log error", { error, ...entry });
+  }
+}
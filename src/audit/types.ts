@@ -0,0 +1,11 @@
+export const AUDIT_ACTIONS = ["create", "update", "delete"] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDITED_ENTITIES = ["user", "article"] as const;
+
+export type AuditedEntity = (typeof AUDITED_ENTITIES)[number];
+
+// What an update changed, e.g. { status: "published" } or
+// { fields: ["email"] }. Never passwords or other secrets.
+export type AuditDetails = Record<string, unknown>;
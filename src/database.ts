@@ -1,14 +1,53 @@
 import "dotenv/config";
-import mysql, { type Pool } from "mysql2/promise";
+import mysql, { type Pool, type PoolOptions } from "mysql2/promise";
+import type { DatabaseMonitor } from "./monitoring/index.js";
 
-const pool: Pool = mysql.createPool({
+export const dbConfig: PoolOptions = {
   host: process.env.DB_HOST as string,
   user: process.env.DB_USER as string,
   password: process.env.DB_PASSWORD as string,
   database: process.env.DB_NAME as string,
+};
+
+const pool: Pool = mysql.createPool({
+  ...dbConfig,
   waitForConnections: true,
   connectionLimit: 10,
   queueLimit: 0,
 });
 
 export { pool };
+
+// mysql2 has no public API for pool usage, these are its internal queues.
+// Any of them may be gone after an upgrade.
+interface PoolInternals {
+  config?: { connectionLimit?: unknown };
+  _allConnections?: { length?: unknown };
+  _freeConnections?: { length?: unknown };
+  _connectionQueue?: { length?: unknown };
+}
+
+const isCount = (value: unknown): value is number => typeof value === "number";
+
+export const databaseMonitor: DatabaseMonitor = {
+  async ping() {
+    await pool.query("SELECT 1");
+  },
+
+  poolStats() {
+    const internals = pool.pool as unknown as PoolInternals;
+    const limit = internals.config?.connectionLimit;
+    const open = internals._allConnections?.length;
+    const idle = internals._freeConnections?.length;
+    const queued = internals._connectionQueue?.length;
+    if (
+      !isCount(limit) ||
+      !isCount(open) ||
+      !isCount(idle) ||
+      !isCount(queued)
+    ) {
+      return null;
+    }
+    return { limit, open, idle, queued };
+  },
+};
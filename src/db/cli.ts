@@ -0,0 +1,115 @@
+import { parseArgs } from "node:util";
+import { pool } from "../database.js";
+import { connect, migrate, rollback, status } from "./migrator.js";
+import { SEED_PASSWORD, seed } from "./seed.js";
+
+const USAGE = `Usage: tsx src/db/cli.ts <command> [options]
+
+Commands:
+  migrate               Apply all pending migrations
+  rollback [--steps=N]  Revert the last N applied migrations (default 1)
+  status                List migrations and whether they are applied
+  seed [--users=N] [--articles=N] [--seed=N] [--fresh]
+                        Insert generated users and articles`;
+
+const { positionals, values } = parseArgs({
+  allowPositionals: true,
+  options: {
+    steps: { type: "string", default: "1" },
+    users: { type: "string", default: "10" },
+    articles: { type: "string", default: "50" },
+    seed: { type: "string", default: "42" },
+    fresh: { type: "boolean", default: false },
+  },
+});
+
+function positiveInt(name: string, value: string) {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`--${name} must be a positive whole number`);
+  }
+  return number;
+}
+
+const COMMANDS = ["migrate", "rollback", "status", "seed"];
+
+async function run(command: string | undefined) {
+  if (!command || !COMMANDS.includes(command)) {
+    console.log(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const connection = await connect();
+  try {
+    switch (command) {
+      case "migrate": {
+        const applied = await migrate(connection);
+        if (applied.length === 0) {
+          console.log("Database is up to date");
+        }
+        for (const migration of applied) {
+          console.log(`Applied ${migration.version}_${migration.name}`);
+        }
+        break;
+      }
+      case "rollback": {
+        const reverted = await rollback(
+          connection,
+          positiveInt("steps", values.steps)
+        );
+        if (reverted.length === 0) {
+          console.log("Nothing to roll back");
+        }
+        for (const migration of reverted) {
+          console.log(`Reverted ${migration.version}_${migration.name}`);
+        }
+        break;
+      }
+      case "status": {
+        for (const migration of await status(connection)) {
+          const state = migration.appliedAt
+            ? `applied ${migration.appliedAt.toISOString()}`
+            : "pending";
+          console.log(`${migration.version}_${migration.name}  ${state}`);
+        }
+        break;
+      }
+      case "seed": {
+        const [rows] = await connection.query(
+          "SELECT COUNT(*) AS total FROM users"
+        );
+        const existing = Number((rows as { total: number }[])[0]?.total ?? 0);
+        if (existing > 0 && !values.fresh) {
+          console.log(
+            "Database already has users, skipping seed (use --fresh to wipe it first)"
+          );
+          break;
+        }
+        if (values.fresh) {
+          // Articles and refresh tokens cascade from users
+          await connection.query("DELETE FROM users");
+          await connection.query("DELETE FROM categories");
+          await connection.query("DELETE FROM tags");
+        }
+        const result = await seed(connection, {
+          users: positiveInt("users", values.users),
+          articles: positiveInt("articles", values.articles),
+          seed: positiveInt("seed", values.seed),
+        });
+        console.log(
+          `Seeded ${result.users} users and ${result.articles} articles, every account uses the password ${SEED_PASSWORD}`
+        );
+        break;
+      }
+    }
+  } finally {
+    await connection.end();
+    await pool.end();
+  }
+}
+
+run(positionals[0]).catch((error) => {
+  console.error("Database command failed:", error);
+  process.exitCode = 1;
+});
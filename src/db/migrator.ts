@@ -0,0 +1,148 @@
+import { readdir, readFile } from "node:fs/promises";
+import mysql, { type Connection } from "mysql2/promise";
+import { dbConfig } from "../database.js";
+
+// Works from both src/db (tsx) and dist/db (build)
+const MIGRATIONS_DIR = new URL("../../migrations/", import.meta.url);
+
+const MIGRATION_FILE = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+export interface Migration {
+  version: string;
+  name: string;
+  up: string;
+  down: string;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  appliedAt: Date | null;
+}
+
+// Every migration is an up/down pair named <version>_<name>.(up|down).sql
+export async function loadMigrations(): Promise<Migration[]> {
+  const files = await readdir(MIGRATIONS_DIR);
+  const migrations = new Map<string, Migration>();
+
+  for (const file of files) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      continue;
+    }
+    const [, version, name, direction] = match as unknown as [
+      string,
+      string,
+      string,
+      "up" | "down"
+    ];
+    const migration = migrations.get(version) ?? {
+      version,
+      name,
+      up: "",
+      down: "",
+    };
+    migration[direction] = await readFile(
+      new URL(file, MIGRATIONS_DIR),
+      "utf8"
+    );
+    migrations.set(version, migration);
+  }
+
+  for (const migration of migrations.values()) {
+    if (!migration.up || !migration.down) {
+      throw new Error(
+        `Migration ${migration.version}_${migration.name} needs both an up and a down script`
+      );
+    }
+  }
+
+  return [...migrations.values()].sort((a, b) =>
+    a.version.localeCompare(b.version)
+  );
+}
+
+// Dedicated connection, migration scripts contain several statements
+export async function connect(): Promise<Connection> {
+  const { database, ...serverConfig } = dbConfig;
+  const connection = await mysql.createConnection({
+    ...serverConfig,
+    multipleStatements: true,
+  });
+
+  // Stand up the database itself when starting from zero
+  await connection.query(`CREATE DATABASE IF NOT EXISTS \`${database}\``);
+  await connection.changeUser({ database: database as string });
+
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(32) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  return connection;
+}
+
+async function appliedMigrations(connection: Connection) {
+  const [rows] = await connection.query(
+    "SELECT version, applied_at FROM schema_migrations ORDER BY version"
+  );
+  return new Map(
+    (rows as { version: string; applied_at: Date }[]).map((row) => [
+      row.version,
+      row.applied_at,
+    ])
+  );
+}
+
+export async function status(
+  connection: Connection
+): Promise<MigrationStatus[]> {
+  const applied = await appliedMigrations(connection);
+  return (await loadMigrations()).map((migration) => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: applied.get(migration.version) ?? null,
+  }));
+}
+
+// Apply every pending migration in version order.
+// MySQL commits DDL implicitly, so a failing script stops the run
+// and leaves earlier migrations applied.
+export async function migrate(connection: Connection): Promise<Migration[]> {
+  const applied = await appliedMigrations(connection);
+  const pending = (await loadMigrations()).filter(
+    (migration) => !applied.has(migration.version)
+  );
+
+  for (const migration of pending) {
+    await connection.query(migration.up);
+    await connection.execute(
+      "INSERT INTO schema_migrations (version, name) VALUES (?, ?)",
+      [migration.version, migration.name]
+    );
+  }
+  return pending;
+}
+
+// Revert the most recently applied migrations
+export async function rollback(
+  connection: Connection,
+  steps = 1
+): Promise<Migration[]> {
+  const applied = await appliedMigrations(connection);
+  const toRevert = (await loadMigrations())
+    .filter((migration) => applied.has(migration.version))
+    .reverse()
+    .slice(0, steps);
+
+  for (const migration of toRevert) {
+    await connection.query(migration.down);
+    await connection.execute(
+      "DELETE FROM schema_migrations WHERE version = ?",
+      [migration.version]
+    );
+  }
+  return toRevert;
+}
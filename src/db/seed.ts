@@ -0,0 +1,165 @@
+import bcrypt from "bcrypt";
+import type { Connection, ResultSetHeader } from "mysql2/promise";
+import type { Role } from "../utils/permissions.js";
+
+// Every seeded account shares this password
+export const SEED_PASSWORD = "Password123!";
+
+export interface SeedOptions {
+  users: number;
+  articles: number;
+  seed: number;
+}
+
+export interface SeedUser {
+  username: string;
+  email: string;
+  role: Role;
+}
+
+export interface SeedArticle {
+  title: string;
+  body: string;
+  category: string;
+  tags: string[];
+  created_at: Date;
+}
+
+const CATEGORIES = ["technology", "design", "career", "backend", "frontend"];
+
+const TAGS = ["typescript", "mysql", "testing", "security", "performance"];
+
+const WORDS = (
+  "api node express database query index schema token deploy cache server " +
+  "client route request response design layout testing review release " +
+  "feature pattern migration security performance team learning project"
+).split(" ");
+
+// Small deterministic PRNG (mulberry32) so the same seed gives the same data
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)]!;
+}
+
+function sentence(random: () => number, words: number) {
+  const text = Array.from({ length: words }, () => pick(random, WORDS)).join(
+    " "
+  );
+  return text.charAt(0).toUpperCase() + text.slice(1) + ".";
+}
+
+// One admin, one editor and one reader, the rest are authors
+export function generateUsers(count: number): SeedUser[] {
+  const fixed: SeedUser[] = [
+    { username: "admin", email: "admin@example.com", role: "admin" },
+    { username: "editor", email: "editor@example.com", role: "editor" },
+    { username: "reader", email: "reader@example.com", role: "reader" },
+  ];
+  const authors = Array.from(
+    { length: Math.max(0, count - fixed.length) },
+    (_, index): SeedUser => ({
+      username: `author${index + 1}`,
+      email: `author${index + 1}@example.com`,
+      role: "author",
+    })
+  );
+  return [...fixed, ...authors].slice(0, count);
+}
+
+export function generateArticles(count: number, seed: number): SeedArticle[] {
+  const random = createRandom(seed);
+  const now = Date.now();
+  return Array.from({ length: count }, () => ({
+    title: sentence(random, 3 + Math.floor(random() * 5)).slice(0, -1),
+    body: Array.from({ length: 3 + Math.floor(random() * 4) }, () =>
+      sentence(random, 8 + Math.floor(random() * 12))
+    ).join(" "),
+    category: pick(random, CATEGORIES),
+    // Up to three distinct tags
+    tags: [
+      ...new Set(
+        Array.from({ length: Math.floor(random() * 4) }, () =>
+          pick(random, TAGS)
+        )
+      ),
+    ],
+    // Spread over the last 90 days
+    created_at: new Date(now - Math.floor(random() * 90 * 24 * 60 * 60 * 1000)),
+  }));
+}
+
+// Insert a category or tag unless its slug exists, resolving to its id
+async function upsertBySlug(
+  connection: Connection,
+  table: "categories" | "tags",
+  slug: string
+) {
+  const name = slug.charAt(0).toUpperCase() + slug.slice(1);
+  const [result] = await connection.execute<ResultSetHeader>(
+    `INSERT INTO ${table} (name, slug) VALUES (?, ?) ON DUPLICATE KEY UPDATE id = LAST_INSERT_ID(id)`,
+    [name, slug]
+  );
+  return result.insertId;
+}
+
+// Insert generated users and articles, articles spread across the authors
+export async function seed(connection: Connection, options: SeedOptions) {
+  const random = createRandom(options.seed);
+  const password = await bcrypt.hash(SEED_PASSWORD, 10);
+
+  const categoryIds = new Map<string, number>();
+  for (const slug of CATEGORIES) {
+    categoryIds.set(slug, await upsertBySlug(connection, "categories", slug));
+  }
+  const tagIds = new Map<string, number>();
+  for (const slug of TAGS) {
+    tagIds.set(slug, await upsertBySlug(connection, "tags", slug));
+  }
+
+  const userIds: number[] = [];
+  const authorIds: number[] = [];
+  for (const user of generateUsers(options.users)) {
+    // Seeded accounts are verified so they can log in straight away
+    const [result] = await connection.execute<ResultSetHeader>(
+      "INSERT INTO users (username, email, password, role, email_verified_at) VALUES (?, ?, ?, ?, NOW())",
+      [user.username, user.email, password, user.role]
+    );
+    userIds.push(result.insertId);
+    if (user.role !== "reader") {
+      authorIds.push(result.insertId);
+    }
+  }
+
+  const articles = generateArticles(options.articles, options.seed);
+  for (const article of articles) {
+    const [result] = await connection.execute<ResultSetHeader>(
+      "INSERT INTO articles (title, body, category_id, submitted_by, created_at, status, published_at) VALUES (?, ?, ?, ?, ?, 'published', ?)",
+      [
+        article.title,
+        article.body,
+        categoryIds.get(article.category) ?? null,
+        pick(random, authorIds),
+        article.created_at,
+        article.created_at,
+      ]
+    );
+    for (const tag of article.tags) {
+      await connection.execute(
+        "INSERT INTO article_tags (article_id, tag_id) VALUES (?, ?)",
+        [result.insertId, tagIds.get(tag)]
+      );
+    }
+  }
+
+  return { users: userIds.length, articles: articles.length };
+}
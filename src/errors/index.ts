@@ -0,0 +1,104 @@
+import { STATUS_CODES } from "node:http";
+import type { z } from "zod";
+
+export interface AppErrorOptions {
+  // Machine readable and stable, derived from the status unless given
+  code?: string;
+  // One message per problem found, e.g. per invalid field
+  errors?: string[];
+}
+
+// "Not Found" becomes "not_found"
+function statusCode(status: number) {
+  return (STATUS_CODES[status] ?? "Error")
+    .toLowerCase()
+    .replace(/[^a-z]+/g, "_");
+}
+
+// Thrown from handlers and middleware, the error handler turns it into an
+// application/problem+json response (RFC 7807). Clients should branch on
+// `code`, the message is for people and may change.
+export class AppError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly errors: string[] | undefined;
+
+  constructor(status: number, message: string, options: AppErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+    this.code = options.code ?? statusCode(status);
+    this.errors = options.errors;
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(errors: string[], options: Omit<AppErrorOptions, "errors"> = {}) {
+    super(400, "Validation failed", {
+      code: "validation_failed",
+      ...options,
+      errors,
+    });
+  }
+
+  static fromZod(error: z.ZodError) {
+    return new ValidationError(error.issues.map((issue) => issue.message));
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(400, message, options);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = "Unauthorized", options?: AppErrorOptions) {
+    super(401, message, options);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(
+    message = "Forbidden: insufficient permissions",
+    options?: AppErrorOptions
+  ) {
+    super(403, message, options);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = "Resource not found", options?: AppErrorOptions) {
+    super(404, message, options);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(409, message, options);
+  }
+}
+
+export class PayloadTooLargeError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(413, message, options);
+  }
+}
+
+export class UnsupportedMediaTypeError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(415, message, options);
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(429, message, options);
+  }
+}
+
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super(503, message, options);
+  }
+}
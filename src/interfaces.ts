@@ -1,21 +1,263 @@
+import type {
+  AuditAction,
+  AuditDetails,
+  AuditedEntity,
+} from "./audit/types.js";
+import type { NotificationType } from "./notifications/types.js";
+import type { ArticleStatus } from "./utils/article-status.js";
+import type { Role } from "./utils/permissions.js";
+
 export interface User {
   id: number;
   username: string;
   email: string;
   password?: string;
+  role: Role;
+  email_verified_at?: Date | null;
 }
 export interface UserResponse {
   id: number;
   username: string;
   email: string;
+  avatar_url: string | null;
+  avatar_thumbnail_url: string | null;
+}
+
+// Profile of a user, with how many follow them and how many they follow
+export interface UserProfile extends UserResponse {
+  follower_count: number;
+  following_count: number;
+}
+
+// A user on a followers or following list
+export interface FollowedUser extends UserResponse {
+  followed_at: Date;
+}
+
+export interface NewUser {
+  username: string;
+  email: string;
+  password: string;
 }
 
 export interface Article {
   id: number;
   title: string;
-  content: string;
+  body: string;
   submitted_by: number;
   created_at: Date;
-  category?: string;
+  status: ArticleStatus;
+  publish_at: Date | null;
+  published_at: Date | null;
+  // Slug of the category, null when uncategorized
+  category?: string | null;
+  // Slugs of the tags, alphabetical
+  tags?: string[];
+}
+
+// Article joined with the user who submitted it
+export interface ArticleWithAuthor extends Article {
+  username: string;
+  email: string;
+  like_count: number;
+  // Plain text start of the body
+  excerpt: string;
+  // Estimated minutes to read the body
+  reading_time: number;
+  cover_url: string | null;
+  cover_thumbnail_url: string | null;
+}
+
+export interface BookmarkedArticle extends ArticleWithAuthor {
+  bookmarked_at: Date;
+}
+
+export interface ArticleSearchResult extends ArticleWithAuthor {
+  relevance: number;
+  highlights: {
+    title: string;
+    body: string;
+  };
+}
+
+export interface NewArticle {
+  title: string;
+  body: string;
+  submitted_by: number;
+  category_id: number | null;
+  tag_ids: number[];
+  status: Exclude<ArticleStatus, "archived">;
+  publish_at: Date | null;
+}
+
+// Article as it was before an edit, with who made that edit and when
+export interface ArticleRevision {
+  article_id: number;
+  // Counts up from 1 for each article
+  revision: number;
+  title: string;
+  body: string;
+  // Slug of the category, null when uncategorized
+  category: string | null;
+  // Null once the editor's account is deleted
+  edited_by: number | null;
+  editor_username: string | null;
+  created_at: Date;
+}
+
+export type ArticleRevisionSummary = Omit<ArticleRevision, "body">;
+
+export interface Category {
+  id: number;
+  name: string;
+  slug: string;
+  description: string | null;
+  created_at: Date;
+}
+
+export interface CategoryWithCount extends Category {
+  article_count: number;
+}
+
+export interface Tag {
+  id: number;
+  name: string;
+  slug: string;
+  created_at: Date;
+}
+
+export interface TagWithCount extends Tag {
+  article_count: number;
+}
+
+export interface Comment {
+  id: number;
+  article_id: number;
+  // Top level comment of the thread, null for top level comments
+  root_id: number | null;
+  parent_id: number | null;
+  // 0 for top level comments, 1 for their replies and so on
+  depth: number;
+  user_id: number;
+  body: string;
+  created_at: Date;
+  updated_at: Date | null;
+  deleted_at: Date | null;
+}
+
+export interface Notification {
+  id: number;
+  // Who is notified
+  user_id: number;
+  // Who commented, liked or followed
+  actor_id: number;
+  type: NotificationType;
+  article_id: number | null;
+  comment_id: number | null;
+  read_at: Date | null;
+  created_at: Date;
+}
+
+export type NewNotification = Pick<
+  Notification,
+  "user_id" | "actor_id" | "type" | "article_id" | "comment_id"
+>;
+
+export interface NotificationWithActor extends Notification {
+  actor_username: string;
+  article_title: string | null;
+}
+
+// Whether each type of notification is on
+export type NotificationPreferences = Record<NotificationType, boolean>;
+
+export interface AuditEntry {
+  id: number;
+  // Who made the change, kept after the user is deleted
+  actor_id: number;
+  action: AuditAction;
+  entity_type: AuditedEntity;
+  entity_id: number;
+  details: AuditDetails | null;
+  request_id: string | null;
+  created_at: Date;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, "id" | "created_at">;
 
+export interface AuditEntryWithActor extends AuditEntry {
+  // Null once the actor is deleted
+  actor_username: string | null;
+}
+
+export interface CommentWithAuthor extends Comment {
+  username: string;
+}
+
+export type NewComment = Pick<
+  Comment,
+  "article_id" | "root_id" | "parent_id" | "depth" | "user_id" | "body"
+>;
+
+// Comment as returned by the API, deleted ones only keep their place
+export interface CommentThread {
+  id: number;
+  parent_id: number | null;
+  user_id: number | null;
+  username: string | null;
+  body: string | null;
+  created_at: Date;
+  updated_at: Date | null;
+  deleted: boolean;
+  replies: CommentThread[];
+}
+
+export type UploadKind = "cover" | "attachment" | "avatar";
+
+export interface Upload {
+  id: number;
+  // Who uploaded the file
+  user_id: number;
+  // Null for avatars
+  article_id: number | null;
+  kind: UploadKind;
+  // Name of the file on the uploader's machine
+  filename: string;
+  content_type: string;
+  size: number;
+  // Null for files that aren't images
+  width: number | null;
+  height: number | null;
+  storage_key: string;
+  url: string;
+  thumbnail_key: string | null;
+  thumbnail_url: string | null;
+  created_at: Date;
+}
+
+export type NewUpload = Omit<Upload, "id" | "created_at">;
+
+// Upload as returned by the API, storage keys stay internal
+export type UploadResponse = Omit<Upload, "storage_key" | "thumbnail_key">;
+
+export interface RefreshToken {
+  id: number;
+  user_id: number;
+  family_id: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+export type UserTokenPurpose = "password_reset" | "email_verification";
+
+// Single-use token behind password reset and email verification links
+export interface UserToken {
+  id: number;
+  user_id: number;
+  purpose: UserTokenPurpose;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
 }
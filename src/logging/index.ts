@@ -0,0 +1,26 @@
+import type { Request } from "express";
+import { createJsonLogger } from "./logger.js";
+import { LOG_LEVELS, type Logger, type LogLevel } from "./types.js";
+
+export type * from "./types.js";
+export { LOG_LEVELS } from "./types.js";
+export { createJsonLogger, createLogger } from "./logger.js";
+export { createMemoryLogger, type MemoryLogger } from "./memory.js";
+
+// JSON lines from LOG_LEVEL up, info unless told otherwise
+export function createLoggerFromEnv(): Logger {
+  const level = process.env.LOG_LEVEL || "info";
+
+  if (level !== "silent" && !LOG_LEVELS.includes(level as LogLevel)) {
+    throw new Error(`Unknown LOG_LEVEL "${level}"`);
+  }
+  return createJsonLogger({ level: level as LogLevel | "silent" });
+}
+
+// The logger is injected once per app through app.locals, every line
+// logged for a request carries its id
+export function getLogger(req: Request): Logger {
+  return (req.app.locals.logger as Logger).child({
+    request_id: req.requestId,
+  });
+}
@@ -0,0 +1,64 @@
+import {
+  LOG_LEVELS,
+  type LogEntry,
+  type LogFields,
+  type Logger,
+  type LogLevel,
+} from "./types.js";
+
+export interface LoggerOptions {
+  // Lines below this level are dropped, "silent" drops every line
+  level?: LogLevel | "silent";
+  // Added to every line
+  fields?: LogFields;
+}
+
+// Errors have no enumerable properties, JSON.stringify would write {}
+function serialize(fields: LogFields) {
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [
+      key,
+      value instanceof Error
+        ? { name: value.name, message: value.message, stack: value.stack }
+        : value,
+    ])
+  );
+}
+
+// Builds log entries and hands the ones at or above the level to write
+export function createLogger(
+  write: (entry: LogEntry) => void,
+  { level = "info", fields = {} }: LoggerOptions = {}
+): Logger {
+  const threshold =
+    level === "silent" ? LOG_LEVELS.length : LOG_LEVELS.indexOf(level);
+
+  function log(entryLevel: LogLevel, msg: string, extra: LogFields = {}) {
+    if (LOG_LEVELS.indexOf(entryLevel) < threshold) {
+      return;
+    }
+    write({
+      time: new Date().toISOString(),
+      level: entryLevel,
+      msg,
+      ...serialize({ ...fields, ...extra }),
+    });
+  }
+
+  return {
+    debug: (msg, extra) => log("debug", msg, extra),
+    info: (msg, extra) => log("info", msg, extra),
+    warn: (msg, extra) => log("warn", msg, extra),
+    error: (msg, extra) => log("error", msg, extra),
+    child: (extra) =>
+      createLogger(write, { level, fields: { ...fields, ...extra } }),
+  };
+}
+
+// One JSON object per line on stdout
+export function createJsonLogger(options: LoggerOptions = {}): Logger {
+  return createLogger(
+    (entry) => process.stdout.write(`${JSON.stringify(entry)}\n`),
+    options
+  );
+}
@@ -0,0 +1,16 @@
+import { createLogger } from "./logger.js";
+import type { LogEntry, Logger } from "./types.js";
+
+export interface MemoryLogger extends Logger {
+  entries: LogEntry[];
+}
+
+// Keeps every line, debug included, so tests can read them back
+export function createMemoryLogger(): MemoryLogger {
+  const entries: LogEntry[] = [];
+
+  return {
+    ...createLogger((entry) => entries.push(entry), { level: "debug" }),
+    entries,
+  };
+}
@@ -0,0 +1,22 @@
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+// Context added to a log line, e.g. request_id or the error
+export type LogFields = Record<string, unknown>;
+
+// One log line, written as a JSON object
+export interface LogEntry extends LogFields {
+  time: string;
+  level: LogLevel;
+  msg: string;
+}
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  // A logger adding the fields to every line it writes
+  child(fields: LogFields): Logger;
+}
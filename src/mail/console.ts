@@ -0,0 +1,12 @@
+import type { Mailer } from "./types.js";
+
+// Prints messages to stdout, handy while developing locally
+export function createConsoleMailer(): Mailer {
+  return {
+    async send(message) {
+      console.log(
+        `Mail to ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+      );
+    },
+  };
+}
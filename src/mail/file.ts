@@ -0,0 +1,21 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Mailer } from "./types.js";
+
+// Writes every message to its own .txt file in the given directory
+export function createFileMailer(directory: string): Mailer {
+  let count = 0;
+
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+
+      count += 1;
+      const fileName = `${Date.now()}-${count}.txt`;
+      await writeFile(
+        path.join(directory, fileName),
+        `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+      );
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import type { Request } from "express";
+import { createConsoleMailer } from "./console.js";
+import { createFileMailer } from "./file.js";
+import type { Mailer } from "./types.js";
+
+export type * from "./types.js";
+export { createConsoleMailer } from "./console.js";
+export { createFileMailer } from "./file.js";
+export { createMemoryMailer, type MemoryMailer } from "./memory.js";
+export { passwordResetEmail, verificationEmail } from "./templates.js";
+
+// Pick the transport from MAIL_TRANSPORT, console unless told otherwise
+export function createMailerFromEnv(): Mailer {
+  const transport = process.env.MAIL_TRANSPORT || "console";
+
+  switch (transport) {
+    case "console":
+      return createConsoleMailer();
+    case "file":
+      return createFileMailer(process.env.MAIL_DIR || "mail");
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+}
+
+// The mailer is injected once per app through app.locals
+export function getMailer(req: Request): Mailer {
+  return req.app.locals.mailer as Mailer;
+}
@@ -0,0 +1,17 @@
+import type { Mailer, MailMessage } from "./types.js";
+
+export interface MemoryMailer extends Mailer {
+  outbox: MailMessage[];
+}
+
+// Keeps sent messages in an array so tests can read them back
+export function createMemoryMailer(): MemoryMailer {
+  const outbox: MailMessage[] = [];
+
+  return {
+    outbox,
+    async send(message) {
+      outbox.push({ ...message });
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { appUrl } from "../utils/app-url.js";
+import type { MailMessage } from "./types.js";
+
+function link(pathName: string, token: string) {
+  return `${appUrl()}${pathName}?token=${encodeURIComponent(token)}`;
+}
+
+export function passwordResetEmail(to: string, token: string): MailMessage {
+  return {
+    to,
+    subject: "Reset your password",
+    text: [
+      "Someone asked to reset the password of your account.",
+      `Follow this link within the next hour to choose a new one: ${link(
+        "/reset-password",
+        token
+      )}`,
+      "If it wasn't you, you can ignore this email.",
+    ].join("\n\n"),
+  };
+}
+
+export function verificationEmail(to: string, token: string): MailMessage {
+  return {
+    to,
+    subject: "Verify your email address",
+    text: [
+      "Welcome! Please confirm your email address.",
+      `Follow this link within the next 24 hours: ${link(
+        "/verify-email",
+        token
+      )}`,
+    ].join("\n\n"),
+  };
+}
@@ -0,0 +1,10 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver a message, swap transports without touching routes
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,203 @@
+import { z } from "zod";
+import { decodeCursor, paginationSchema } from "../utils/pagination.js";
+import { ARTICLE_STATUSES } from "../utils/article-status.js";
+import { BODY_FORMATS, findDangerousContent } from "../utils/markdown.js";
+import { slugify, slugSchema } from "../utils/slug.js";
+
+export const ARTICLE_SORTS = [
+  "created_at",
+  "-created_at",
+  "title",
+  "-title",
+  "popular",
+] as const;
+
+export type ArticleSort = (typeof ARTICLE_SORTS)[number];
+
+// Sorts on a stored column, the ones cursors work with
+export type KeysetSort = Exclude<ArticleSort, "popular">;
+
+const cursorPayloadSchema = z.object({
+  sort: z.enum(ARTICLE_SORTS).exclude(["popular"]),
+  value: z.string(),
+  id: z.number().int().positive(),
+});
+
+export type ArticleCursor = z.infer<typeof cursorPayloadSchema>;
+
+export const articleListQuerySchema = paginationSchema
+  .extend({
+    cursor: z
+      .string()
+      .transform((value, ctx) => {
+        const result = cursorPayloadSchema.safeParse(decodeCursor(value));
+        if (!result.success) {
+          ctx.addIssue({ code: "custom", message: "Cursor is invalid" });
+          return z.NEVER;
+        }
+        return result.data;
+      })
+      .optional(),
+    sort: z
+      .enum(ARTICLE_SORTS, {
+        message: `Sort must be one of: ${ARTICLE_SORTS.join(", ")}`,
+      })
+      .default("-created_at")
+      .describe(
+        "popular ranks by likes, bookmarks and comments, decaying with age. It pages by page number only."
+      ),
+    category: z
+      .string()
+      .min(1, "Category must not be empty")
+      .optional()
+      .describe("Category slug"),
+    tag: z
+      .string()
+      .min(1, "Tag must not be empty")
+      .optional()
+      .describe("Tag slug"),
+    // Only narrows down what the viewer may see anyway
+    status: z
+      .enum(ARTICLE_STATUSES, {
+        message: `Status must be one of: ${ARTICLE_STATUSES.join(", ")}`,
+      })
+      .optional(),
+    submitted_by: z.coerce
+      .number("submitted_by must be a number")
+      .int("submitted_by must be a whole number")
+      .positive("submitted_by must be a positive number")
+      .optional(),
+    created_after: z.coerce
+      .date("created_after must be a valid date")
+      .optional(),
+    created_before: z.coerce
+      .date("created_before must be a valid date")
+      .optional(),
+  })
+  .refine((query) => !(query.cursor && query.page), {
+    message: "Use either cursor or page, not both",
+  })
+  // The popular score changes over time, so there is nothing to key on
+  .refine((query) => !(query.cursor && query.sort === "popular"), {
+    message: "Popular articles can only be paged by page number",
+  })
+  .refine(
+    (query) =>
+      !query.cursor ||
+      query.sort === "popular" ||
+      query.cursor.sort === query.sort,
+    { message: "Cursor does not match the requested sort" }
+  );
+
+export type ArticleListQuery = z.infer<typeof articleListQuerySchema>;
+
+export const articleSearchQuerySchema = paginationSchema
+  .omit({ cursor: true })
+  .extend({
+    // Shorter words aren't in the FULLTEXT index, innodb_ft_min_token_size
+    // defaults to 3
+    q: z
+      .string("Search query is required")
+      .trim()
+      .min(3, "Search query must be at least 3 characters")
+      .max(200, "Search query must not exceed 200 characters"),
+    category: z.string().min(1, "Category must not be empty").optional(),
+  });
+
+export type ArticleSearchQuery = z.infer<typeof articleSearchQuerySchema>;
+
+export const MAX_ARTICLE_TAGS = 10;
+
+// Markdown without scripts, event handlers or script URLs
+const articleBodySchema = z
+  .string("Body is required")
+  .min(1, "Body is required")
+  .superRefine((body, ctx) => {
+    for (const message of findDangerousContent(body)) {
+      ctx.addIssue({ code: "custom", message });
+    }
+  })
+  .describe(
+    "Markdown. Scripts, embedded frames, event handlers and script URLs are rejected."
+  );
+
+// What PUT /articles/:id replaces. Category is referenced by slug, tags by
+// name and created when new.
+export const articleSchema = z.object({
+  title: z
+    .string("Title is required")
+    .min(1, "Title is required")
+    .max(255, "Title must not exceed 255 characters"),
+  body: articleBodySchema,
+  category: slugSchema
+    .nullable()
+    .optional()
+    .describe("Slug of an existing category, null to remove it"),
+  tags: z
+    .array(
+      z
+        .string("Tags must be strings")
+        .trim()
+        .max(50, "Tags must not exceed 50 characters")
+        .refine((name) => slugify(name) !== "", {
+          message: "Tags must contain letters or numbers",
+        }),
+      "Tags must be an array of names"
+    )
+    .max(
+      MAX_ARTICLE_TAGS,
+      `An article can have at most ${MAX_ARTICLE_TAGS} tags`
+    )
+    .optional()
+    .describe(
+      "Tag names, unknown tags are created. Replaces the current tags."
+    ),
+});
+
+export type ArticleRelations = Pick<
+  z.infer<typeof articleSchema>,
+  "category" | "tags"
+>;
+
+// How GET /articles/:id returns the body
+export const articleFormatQuerySchema = z.object({
+  format: z
+    .enum(BODY_FORMATS, {
+      message: `Format must be one of: ${BODY_FORMATS.join(", ")}`,
+    })
+    .default("markdown")
+    .describe("Body as stored Markdown, sanitized HTML or plain text"),
+});
+
+export const bookmarkListQuerySchema = paginationSchema.omit({ cursor: true });
+
+export type BookmarkListQuery = z.infer<typeof bookmarkListQuerySchema>;
+
+// A publish_at in the past would publish straight away, so it must lie ahead
+const publishAtSchema = z.coerce
+  .date("publish_at must be a valid date")
+  .refine((date) => date.getTime() > Date.now(), {
+    message: "publish_at must be in the future",
+  });
+
+// The publish body is optional, publish_at schedules instead
+export const publishSchema = z.object({
+  publish_at: publishAtSchema.optional(),
+});
+
+// New articles are drafts unless published right away or scheduled
+export const newArticleSchema = articleSchema
+  .extend({
+    status: z
+      .enum(["draft", "published"], {
+        message: "Status must be one of: draft, published",
+      })
+      .optional()
+      .describe("Drafts unless given, see the publish endpoints"),
+    publish_at: publishAtSchema
+      .optional()
+      .describe("Schedules the article instead of giving a status"),
+  })
+  .refine((data) => !(data.status && data.publish_at), {
+    message: "Use either status or publish_at, not both",
+  });
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { AUDIT_ACTIONS, AUDITED_ENTITIES } from "../audit/index.js";
+import { paginationSchema } from "../utils/pagination.js";
+
+const entityIdSchema = (name: string) =>
+  z.coerce
+    .number(`${name} must be a number`)
+    .int(`${name} must be a whole number`)
+    .positive(`${name} must be a positive number`)
+    .optional();
+
+export const auditLogQuerySchema = paginationSchema
+  .omit({ cursor: true })
+  .extend({
+    actor_id: entityIdSchema("actor_id").describe("Who made the changes"),
+    action: z
+      .enum(AUDIT_ACTIONS, {
+        message: `Action must be one of: ${AUDIT_ACTIONS.join(", ")}`,
+      })
+      .optional(),
+    entity_type: z
+      .enum(AUDITED_ENTITIES, {
+        message: `entity_type must be one of: ${AUDITED_ENTITIES.join(", ")}`,
+      })
+      .optional(),
+    entity_id: entityIdSchema("entity_id"),
+  });
+
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
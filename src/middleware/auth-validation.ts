@@ -1,65 +1,56 @@
 import { z } from "zod";
 import type { Request, Response, NextFunction } from "express";
+import { UnauthorizedError } from "../errors/index.js";
+import { getRepositories } from "../repositories/index.js";
 import { verifyToken } from "../utils/jwt.js";
 
-const registerSchema = z.object({
-  username: z
-    .string()
-    .min(3, "Username must be at least 3 characters")
-    .max(50, "Username must not exceed 50 characters"),
+// Shared with the user routes so profile changes follow registration rules
+export const usernameSchema = z
+  .string("Username must be a string")
+  .min(3, "Username must be at least 3 characters")
+  .max(50, "Username must not exceed 50 characters");
+
+export const passwordSchema = z
+  .string()
+  .regex(
+    /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[^A-Za-z0-9]).{8,}$/,
+    "Password must be at least 8 characters long and include uppercase, lowercase, number, and a special character"
+  );
+
+export const registerSchema = z.object({
+  username: usernameSchema,
   email: z.email("Email must be a valid email"),
-  password: z
-    .string()
-    .regex(
-      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[^A-Za-z0-9]).{8,}$/,
-      "Password must be at least 8 characters long and include uppercase, lowercase, number, and a special character"
-    ),
+  password: passwordSchema,
 });
 
-const loginSchema = z.object({
+export const loginSchema = z.object({
   email: z.email("Email must be a valid email"),
   password: z.string(),
 });
 
-export function validateRegistration(
-  req: Request,
-  res: Response,
-  next: NextFunction
-) {
-  const result = registerSchema.safeParse(req.body);
-
-  if (!result.success) {
-    return res.status(400).json({
-      error: "Validation failed",
-      details: result.error.issues.map((issue) => issue.message),
-    });
-  }
-
-  next();
-};
-
-// Login validation middleware
-export function validateLogin(
-  req: Request,
-  res: Response,
-  next: NextFunction
-) {
-  const result = loginSchema.safeParse(req.body);
+export const refreshSchema = z.object({
+  refreshToken: z
+    .string("Refresh token is required")
+    .min(1, "Refresh token is required"),
+});
 
-  if (!result.success) {
-    return res.status(400).json({
-      error: "Validation failed",
-      details: result.error.issues.map((issue) => issue.message),
-    });
-  }
+export const emailSchema = z.object({
+  email: z.email("Email must be a valid email"),
+});
 
-  next();
-};
+const tokenSchema = z.string("Token is required").min(1, "Token is required");
 
+export const resetPasswordSchema = z.object({
+  token: tokenSchema,
+  password: passwordSchema,
+});
 
+export const verifyEmailSchema = z.object({
+  token: tokenSchema,
+});
 
 // JWT Authentication Middleware
-export function authenticateToken(
+export async function authenticateToken(
   req: Request,
   res: Response,
   next: NextFunction
@@ -68,15 +59,15 @@ export function authenticateToken(
 
   // Check if Authorization header exists
   if (!authHeader) {
-    return res.status(401).json({
-      error: "Access token required",
+    throw new UnauthorizedError("Access token required", {
+      code: "token_required",
     });
   }
 
   // Check if header follows Bearer format
   if (!authHeader.startsWith("Bearer ")) {
-    return res.status(401).json({
-      error: "Token must be in format: Bearer <token>",
+    throw new UnauthorizedError("Token must be in format: Bearer <token>", {
+      code: "token_malformed",
     });
   }
 
@@ -87,12 +78,64 @@ export function authenticateToken(
   const payload = verifyToken(token);
 
   if (!payload) {
-    return res.status(403).json({
-      error: "Invalid or expired token",
+    throw new UnauthorizedError("Invalid or expired token", {
+      code: "token_invalid",
+    });
+  }
+
+  const { users, refreshTokens } = getRepositories(req);
+
+  // Reject access tokens whose session was logged out or revoked
+  if (!(await refreshTokens.hasActiveToken(payload.sid, payload.userId))) {
+    throw new UnauthorizedError("Session has been revoked", {
+      code: "session_revoked",
+    });
+  }
+
+  // Load the current role so permission changes apply immediately
+  const role = await users.findRole(payload.userId);
+
+  if (!role) {
+    throw new UnauthorizedError("User no longer exists", {
+      code: "user_deleted",
     });
   }
 
   // Add user info to request object
-  req.user = { id: payload.userId };
+  req.user = {
+    id: payload.userId,
+    role,
+    sessionId: payload.sid,
+    tokenExpiresAt: new Date(payload.exp * 1000),
+  };
   next();
-};
\ No newline at end of file
+};
+
+// For public routes that show more to logged in users. Requests without a
+// token pass through anonymously, a bad token is still rejected.
+export function optionalAuthentication(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  if (!req.headers.authorization) {
+    return next();
+  }
+  return authenticateToken(req, res, next);
+}
+
+// EventSource can't send headers, so streams also take the access token
+// from the access_token query param. The access log leaves query strings
+// out, but proxies in front of the API may still log the token; the short
+// lifetime of access tokens keeps that acceptable.
+export function authenticateStream(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const token = req.query.access_token;
+  if (!req.headers.authorization && typeof token === "string") {
+    req.headers.authorization = `Bearer ${token}`;
+  }
+  return authenticateToken(req, res, next);
+}
@@ -0,0 +1,55 @@
+import type { Request, Response, NextFunction } from "express";
+import {
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from "../errors/index.js";
+import {
+  hasPermission,
+  type Action,
+  type Permission,
+} from "../utils/permissions.js";
+
+interface AuthorizeOptions {
+  // Resolves the id of the user owning the target resource, null if it doesn't exist
+  ownerId?: (
+    req: Request,
+    res: Response
+  ) => Promise<number | null> | number | null;
+}
+
+// Role based authorization, must run after authenticateToken.
+// Grants the action if the role has it outright (or ":any"), or has ":own"
+// and the resolved owner is the current user.
+export function authorize(action: Action, options: AuthorizeOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user;
+    if (!user) {
+      throw new UnauthorizedError();
+    }
+
+    const canAny =
+      hasPermission(user.role, action as Permission) ||
+      hasPermission(user.role, `${action}:any` as Permission);
+    const canOwn =
+      !!options.ownerId &&
+      hasPermission(user.role, `${action}:own` as Permission);
+
+    if (!canAny && !canOwn) {
+      throw new ForbiddenError();
+    }
+    if (!options.ownerId) {
+      return next();
+    }
+
+    const ownerId = await options.ownerId(req, res);
+    if (ownerId === null) {
+      throw new NotFoundError();
+    }
+    if (!canAny && ownerId !== user.id) {
+      throw new ForbiddenError();
+    }
+    res.locals.resourceOwnerId = ownerId;
+    next();
+  };
+}
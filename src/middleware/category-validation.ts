@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { slugify, slugSchema } from "../utils/slug.js";
+
+export const categorySlugSchema = z.object({
+  slug: slugSchema,
+});
+
+// Slug is derived from the name unless given
+export const categorySchema = z.object({
+  name: z
+    .string("Name is required")
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must not exceed 100 characters")
+    .refine((name) => slugify(name) !== "", {
+      message: "Name must contain letters or numbers",
+    }),
+  slug: slugSchema
+    .optional()
+    .describe(
+      "Derived from the name when left out on create, unchanged when left out on update"
+    ),
+  description: z
+    .string("Description must be a string")
+    .max(500, "Description must not exceed 500 characters")
+    .nullable()
+    .optional(),
+});
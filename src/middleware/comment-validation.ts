@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { decodeCursor, paginationSchema } from "../utils/pagination.js";
+import { idParamsSchema, idSchema } from "./validate.js";
+
+// Deep enough for real discussions, shallow enough for MySQL's cascades
+export const MAX_COMMENT_DEPTH = 8;
+
+// The article id comes from the parent router
+export const commentParamsSchema = idParamsSchema.extend({
+  commentId: idSchema("Comment ID"),
+});
+
+const cursorPayloadSchema = z.object({
+  id: z.number().int().positive(),
+});
+
+export const commentListQuerySchema = paginationSchema
+  .extend({
+    cursor: z
+      .string()
+      .transform((value, ctx) => {
+        const result = cursorPayloadSchema.safeParse(decodeCursor(value));
+        if (!result.success) {
+          ctx.addIssue({ code: "custom", message: "Cursor is invalid" });
+          return z.NEVER;
+        }
+        return result.data;
+      })
+      .optional(),
+  })
+  .refine((query) => !(query.cursor && query.page), {
+    message: "Use either cursor or page, not both",
+  });
+
+export type CommentListQuery = z.infer<typeof commentListQuerySchema>;
+
+const commentBodySchema = z
+  .string("Comment body is required")
+  .trim()
+  .min(1, "Comment body is required")
+  .max(5000, "Comment body must not exceed 5000 characters");
+
+export const newCommentSchema = z.object({
+  body: commentBodySchema,
+  parent_id: z
+    .number("parent_id must be a number")
+    .int("parent_id must be a whole number")
+    .positive("parent_id must be a positive number")
+    .optional()
+    .describe("Comment to reply to"),
+});
+
+export const commentUpdateSchema = z.object({
+  body: commentBodySchema,
+});
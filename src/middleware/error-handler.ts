@@ -0,0 +1,75 @@
+import { STATUS_CODES } from "node:http";
+import type { Request, Response, NextFunction } from "express";
+import { AppError, NotFoundError } from "../errors/index.js";
+import { getLogger } from "../logging/index.js";
+import { fromDatabaseError } from "../repositories/index.js";
+
+// Errors of body parsers and other express middleware, see http-errors
+type HttpError = Error & { status?: number; expose?: boolean };
+
+function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+  const databaseError = fromDatabaseError(error);
+  if (databaseError) {
+    return databaseError;
+  }
+
+  const { status, expose, message } = error as HttpError;
+  if (expose && status && status >= 400 && status < 500) {
+    return new AppError(status, message);
+  }
+  return new AppError(
+    500,
+    process.env.NODE_ENV === "development" && error instanceof Error
+      ? message
+      : "Something went wrong"
+  );
+}
+
+// Requests no route answered
+export function notFoundHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  next(
+    new NotFoundError(`Cannot ${req.method} ${req.originalUrl}`, {
+      code: "route_not_found",
+    })
+  );
+}
+
+// Answers every error with an RFC 7807 problem. Express 5 passes rejected
+// promises of async handlers here, so they throw instead of responding.
+// The request id is included so a reported problem can be found in the logs.
+export function problemHandler(
+  error: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const problem = toAppError(error);
+  if (problem.status >= 500) {
+    getLogger(req).error("Unhandled error", { error });
+  }
+  // Streams that fail halfway can only be cut off
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  res
+    .status(problem.status)
+    .type("application/problem+json")
+    .json({
+      type: "about:blank",
+      title: STATUS_CODES[problem.status],
+      status: problem.status,
+      detail: problem.message,
+      instance: req.originalUrl.split("?")[0],
+      code: problem.code,
+      request_id: req.requestId,
+      ...(problem.errors ? { errors: problem.errors } : {}),
+    });
+}
@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { FEED_FORMATS } from "../utils/feeds.js";
+import { categorySlugSchema } from "./category-validation.js";
+import { idParamsSchema } from "./validate.js";
+
+// Taken from the extension of the path, RSS when there is none
+const feedFormatSchema = z
+  .enum(FEED_FORMATS, {
+    message: `Feed format must be one of: ${FEED_FORMATS.join(", ")}`,
+  })
+  .default("rss")
+  .describe(
+    "RSS 2.0, Atom or JSON Feed 1.1. Without the extension the feed is RSS."
+  );
+
+export const feedParamsSchema = z.object({ format: feedFormatSchema });
+
+export const userFeedParamsSchema = idParamsSchema.extend({
+  format: feedFormatSchema,
+});
+
+export const categoryFeedParamsSchema = categorySlugSchema.extend({
+  format: feedFormatSchema,
+});
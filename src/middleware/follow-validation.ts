@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { decodeCursor, paginationSchema } from "../utils/pagination.js";
+
+// Follow lists only grow at the end that is shown first, page numbers are
+// enough
+export const followListQuerySchema = paginationSchema.omit({ cursor: true });
+
+export type FollowListQuery = z.infer<typeof followListQuerySchema>;
+
+const feedCursorSchema = z.object({
+  published_at: z.iso.datetime(),
+  id: z.number().int().positive(),
+});
+
+export type FeedCursor = z.infer<typeof feedCursorSchema>;
+
+// New articles keep arriving at the top, so cursors keep pages stable
+export const feedQuerySchema = paginationSchema
+  .extend({
+    cursor: z
+      .string()
+      .transform((value, ctx) => {
+        const result = feedCursorSchema.safeParse(decodeCursor(value));
+        if (!result.success) {
+          ctx.addIssue({ code: "custom", message: "Cursor is invalid" });
+          return z.NEVER;
+        }
+        return result.data;
+      })
+      .optional(),
+  })
+  .refine((query) => !(query.cursor && query.page), {
+    message: "Use either cursor or page, not both",
+  });
+
+export type FeedQuery = z.infer<typeof feedQuerySchema>;
@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { NOTIFICATION_TYPES } from "../notifications/index.js";
+import { paginationSchema } from "../utils/pagination.js";
+
+export const notificationListQuerySchema = paginationSchema
+  .omit({ cursor: true })
+  .extend({
+    unread: z
+      .enum(["true", "false"], { message: "unread must be true or false" })
+      .transform((value) => value === "true")
+      .optional()
+      .describe("Only unread notifications"),
+  });
+
+export type NotificationListQuery = z.infer<typeof notificationListQuerySchema>;
+
+const preferenceSchema = (type: string) =>
+  z.boolean(`${type} must be true or false`).optional();
+
+// Unknown types are dropped
+export const preferencesSchema = z
+  .object({
+    comment: preferenceSchema("comment"),
+    reply: preferenceSchema("reply"),
+    like: preferenceSchema("like"),
+    follow: preferenceSchema("follow"),
+  })
+  .refine((preferences) => Object.keys(preferences).length > 0, {
+    message: `Provide at least one of: ${NOTIFICATION_TYPES.join(", ")}`,
+  });
+
+export type NotificationPreferencesUpdate = z.infer<typeof preferencesSchema>;
@@ -0,0 +1,62 @@
+import type { Request, Response, NextFunction } from "express";
+import { TooManyRequestsError } from "../errors/index.js";
+import { getRateLimitStore } from "../rate-limit/index.js";
+
+interface RateLimitOptions {
+  // Keeps the counters of different limiters apart in the shared store
+  name: string;
+  limit: number;
+  windowMs: number;
+  // What to count by, the client IP unless given. Returning null skips the limiter.
+  key?: (req: Request) => string | null;
+  message?: string;
+}
+
+const clientIp = (req: Request) => req.ip ?? "unknown";
+
+// Fixed window rate limiting with RateLimit-* headers, answers 429 once the
+// limit is used up. Stacked limiters report the most restrictive one.
+export function rateLimit(options: RateLimitOptions) {
+  const key = options.key ?? clientIp;
+  const message =
+    options.message ?? "Too many requests, please try again later";
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const bucket = key(req);
+    if (bucket === null) {
+      return next();
+    }
+
+    const entry = await getRateLimitStore(req).increment(
+      `${options.name}:${bucket}`,
+      options.windowMs
+    );
+    const remaining = Math.max(options.limit - entry.count, 0);
+    const resetSeconds = Math.max(
+      Math.ceil((entry.resetAt - Date.now()) / 1000),
+      0
+    );
+
+    const previous = res.getHeader("RateLimit-Remaining");
+    if (previous === undefined || remaining <= Number(previous)) {
+      res.set({
+        "RateLimit-Limit": String(options.limit),
+        "RateLimit-Remaining": String(remaining),
+        "RateLimit-Reset": String(resetSeconds),
+      });
+    }
+
+    if (entry.count > options.limit) {
+      res.set("Retry-After", String(resetSeconds));
+      throw new TooManyRequestsError(message, { code: "rate_limited" });
+    }
+
+    next();
+  };
+}
+
+// Buckets by the email in the request body, for per-account limits
+export function emailKey(req: Request) {
+  const email = req.body?.email;
+  return typeof email === "string" ? email.toLowerCase() : null;
+}
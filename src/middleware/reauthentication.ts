@@ -0,0 +1,60 @@
+import type { Request, Response, NextFunction } from "express";
+import bcrypt from "bcrypt";
+import {
+  BadRequestError,
+  ForbiddenError,
+  UnauthorizedError,
+} from "../errors/index.js";
+import { getRepositories } from "../repositories/index.js";
+import { rateLimit } from "./rate-limit.js";
+
+interface ReauthenticationOptions {
+  // Decides whether this request is sensitive, always by default
+  when?: (req: Request, res: Response) => Promise<boolean> | boolean;
+}
+
+// A stolen access token must not turn into a way of guessing the password,
+// login lockout doesn't cover these checks
+const attemptLimit = rateLimit({
+  name: "reauthentication-user",
+  limit: 10,
+  windowMs: 15 * 60 * 1000,
+  key: (req) => String(req.user!.id),
+  message: "Too many password attempts, please try again later",
+});
+
+// Asks for the current password again before sensitive changes, so a stolen
+// access token alone can't take over the account. Must run after
+// authenticateToken, reads `currentPassword` from the body.
+export function requireCurrentPassword(options: ReauthenticationOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user;
+    if (!user) {
+      throw new UnauthorizedError();
+    }
+
+    if (options.when && !(await options.when(req, res))) {
+      return next();
+    }
+
+    const { currentPassword } = req.body;
+    if (typeof currentPassword !== "string" || !currentPassword) {
+      throw new BadRequestError(
+        "Current password is required for this change",
+        { code: "current_password_required" }
+      );
+    }
+
+    // Throws once the attempts are used up, next has nothing left to do
+    await attemptLimit(req, res, () => {});
+
+    const hash = await getRepositories(req).users.findPasswordHash(user.id);
+    if (!hash || !(await bcrypt.compare(currentPassword, hash))) {
+      throw new ForbiddenError("Current password is incorrect", {
+        code: "current_password_incorrect",
+      });
+    }
+
+    next();
+  };
+}
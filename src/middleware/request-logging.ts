@@ -0,0 +1,34 @@
+import { randomUUID } from "node:crypto";
+import type { Request, Response, NextFunction } from "express";
+import { getLogger } from "../logging/index.js";
+
+// Ids from proxies and clients are kept when they are safe to log
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Gives every request an id, taken from X-Request-Id or generated, and
+// echoes it back so clients can quote it
+export function requestId(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get("X-Request-Id");
+  req.requestId =
+    incoming && REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  res.set("X-Request-Id", req.requestId);
+  next();
+}
+
+// Logs every request once its response is done, or the client went away.
+// The query string is left out, it may carry an access token.
+export function accessLog(req: Request, res: Response, next: NextFunction) {
+  const start = process.hrtime.bigint();
+  res.on("close", () => {
+    const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+    getLogger(req).info("request", {
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      status: res.statusCode,
+      duration_ms: Math.round(durationMs * 10) / 10,
+      user_id: req.user?.id ?? null,
+      ...(res.writableFinished ? {} : { aborted: true }),
+    });
+  });
+  next();
+}
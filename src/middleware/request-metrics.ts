@@ -0,0 +1,39 @@
+import type { Request, Response, NextFunction } from "express";
+import { getMetrics } from "../monitoring/index.js";
+
+// Remembers where the router that follows is mounted. Express only keeps
+// the concrete path, e.g. /articles/42/comments, not /articles/:id/comments.
+export function routePrefix(path: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    res.locals.routePrefix = path;
+    next();
+  };
+}
+
+// Route patterns keep the number of series small. Requests no route
+// answered are labelled with the mount path they got to, or "unmatched".
+function routeLabel(req: Request, res: Response) {
+  if (!req.route) {
+    return res.locals.routePrefix ?? "unmatched";
+  }
+  const route = `${res.locals.routePrefix ?? ""}${req.route.path}`;
+  return route.length > 1 ? route.replace(/\/$/, "") : route;
+}
+
+// Counts every request and how long its response took
+export function requestMetrics(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const start = process.hrtime.bigint();
+  res.on("close", () => {
+    getMetrics(req).recordRequest({
+      method: req.method,
+      route: routeLabel(req, res),
+      status: res.statusCode,
+      durationSeconds: Number(process.hrtime.bigint() - start) / 1e9,
+    });
+  });
+  next();
+}
@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { paginationSchema } from "../utils/pagination.js";
+import { idParamsSchema, idSchema } from "./validate.js";
+
+// The article id comes from the parent router
+export const revisionParamsSchema = idParamsSchema.extend({
+  rev: idSchema("Revision").describe("Revision number"),
+});
+
+// Revisions are few per article, page numbers are enough
+export const revisionListQuerySchema = paginationSchema.omit({ cursor: true });
+
+export type RevisionListQuery = z.infer<typeof revisionListQuerySchema>;
+
+const revisionNumberSchema = (name: string) =>
+  z.coerce
+    .number(`${name} must be a number`)
+    .int(`${name} must be a whole number`)
+    .positive(`${name} must be a positive number`);
+
+// Without to, the revision is compared with the current article
+export const revisionDiffQuerySchema = z.object({
+  from: revisionNumberSchema("from"),
+  to: revisionNumberSchema("to").optional(),
+});
+
+export type RevisionDiffQuery = z.infer<typeof revisionDiffQuerySchema>;
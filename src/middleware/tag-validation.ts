@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { slugify, slugSchema } from "../utils/slug.js";
+
+export const tagSlugSchema = z.object({
+  slug: slugSchema,
+});
+
+// Slug is derived from the name unless given
+export const tagSchema = z.object({
+  name: z
+    .string("Name is required")
+    .trim()
+    .min(1, "Name is required")
+    .max(50, "Name must not exceed 50 characters")
+    .refine((name) => slugify(name) !== "", {
+      message: "Name must contain letters or numbers",
+    }),
+  slug: slugSchema
+    .max(50, "Slug must not exceed 50 characters")
+    .optional()
+    .describe(
+      "Derived from the name when left out on create, unchanged when left out on update"
+    ),
+});
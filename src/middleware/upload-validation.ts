@@ -0,0 +1,107 @@
+import type { Response, Request, NextFunction } from "express";
+import multer from "multer";
+import {
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+  ValidationError,
+} from "../errors/index.js";
+import type { UploadKind } from "../interfaces.js";
+import { processImage } from "../utils/images.js";
+import { IMAGE_TYPES, sniffMimeType } from "../utils/mime-sniff.js";
+import { idParamsSchema, idSchema } from "./validate.js";
+
+const MB = 1024 * 1024;
+
+// What each kind of upload may be, and how big
+export const UPLOAD_RULES: Record<
+  UploadKind,
+  { maxBytes: number; types: string[] }
+> = {
+  cover: { maxBytes: 5 * MB, types: IMAGE_TYPES },
+  attachment: { maxBytes: 10 * MB, types: [...IMAGE_TYPES, "application/pdf"] },
+  avatar: { maxBytes: 2 * MB, types: IMAGE_TYPES },
+};
+
+// Keeps the unpaged attachment list short
+export const MAX_ARTICLE_ATTACHMENTS = 20;
+
+// The article id comes from the parent router
+export const attachmentParamsSchema = idParamsSchema.extend({
+  attachmentId: idSchema("Attachment ID"),
+});
+
+// Receives one multipart file in the "file" field, checks what its content
+// really is and re-encodes images. Stores the result on res.locals.
+export function validateUpload(kind: UploadKind) {
+  const rules = UPLOAD_RULES[kind];
+  const receive = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: rules.maxBytes, files: 1, fields: 0 },
+  }).single("file");
+
+  // The callback runs outside the handler's promise, so errors go to next
+  return (req: Request, res: Response, next: NextFunction) => {
+    receive(req, res, (error: unknown) => {
+      checkUpload(req, res, kind, error).then(() => next(), next);
+    });
+  };
+}
+
+// Turns what multer received into res.locals.upload
+async function checkUpload(
+  req: Request,
+  res: Response,
+  kind: UploadKind,
+  error: unknown
+) {
+  const rules = UPLOAD_RULES[kind];
+  if (error instanceof multer.MulterError) {
+    if (error.code === "LIMIT_FILE_SIZE") {
+      throw new PayloadTooLargeError(
+        `File must not exceed ${rules.maxBytes / MB} MB`
+      );
+    }
+    throw new ValidationError([error.message]);
+  }
+  if (error) {
+    throw error;
+  }
+  if (!req.file) {
+    throw new ValidationError(["A file is required in the file field"]);
+  }
+
+  const type = sniffMimeType(req.file.buffer);
+  if (!type || !rules.types.includes(type)) {
+    throw new UnsupportedMediaTypeError(
+      `File must be one of: ${rules.types.join(", ")}`
+    );
+  }
+
+  const filename = req.file.originalname.slice(0, 255);
+  if (!IMAGE_TYPES.includes(type)) {
+    res.locals.upload = {
+      filename,
+      content_type: type,
+      data: req.file.buffer,
+      width: null,
+      height: null,
+      thumbnail: null,
+    };
+    return;
+  }
+
+  let processed: Awaited<ReturnType<typeof processImage>>;
+  try {
+    processed = await processImage(req.file.buffer, kind);
+  } catch {
+    throw new ValidationError(["Image could not be read"]);
+  }
+  res.locals.upload = {
+    filename,
+    content_type: "image/webp",
+    data: processed.image.data,
+    width: processed.image.width,
+    height: processed.image.height,
+    thumbnail: processed.thumbnail.data,
+  };
+}
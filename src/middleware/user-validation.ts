@@ -1,91 +1,43 @@
-import type { Response, Request, NextFunction } from "express";
-import { pool } from "../database.js";
-import type { User } from "../interfaces.js";
-
 import { z } from "zod";
-const userIdSchema = z.object({
-  id: z.string().regex(/^\d+$/, "ID must be a positive number"),
-});
+import { ROLES } from "../utils/permissions.js";
+import { passwordSchema, usernameSchema } from "./auth-validation.js";
+
+// Needed when users change their own email or delete their own account,
+// see requireCurrentPassword
+const currentPasswordSchema = z.string("Current password must be a string");
 
-const requiredUserDataSchema = z.object({
-  username: z
-    .string("Username must be a string")
-    .min(2, "Username must be at least 2 characters")
-    .max(50, "Username must not exceed 50 characters"),
+export const userDataSchema = z.object({
+  username: usernameSchema,
   email: z.email("Email must be a valid email"),
+  currentPassword: currentPasswordSchema
+    .optional()
+    .describe("Required when changing your own email"),
 });
 
-
-const partialUserDataSchema = z.object({
-  username: z
-    .string()
-    .min(2, "Username must be at least 2 characters")
-    .max(50, "Username must not exceed 50 characters")
-    .optional(),
-  email: z.email("Email must be a valid email").optional(),
+export const partialUserDataSchema = userDataSchema.partial();
+
+export type PartialUserData = z.infer<typeof partialUserDataSchema>;
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: currentPasswordSchema.min(
+      1,
+      "Current password is required"
+    ),
+    newPassword: passwordSchema,
+  })
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    message: "New password must be different from the current password",
+  });
+
+export const deleteUserSchema = z.object({
+  currentPassword: currentPasswordSchema
+    .optional()
+    .describe("Required when deleting your own account"),
 });
 
-export function validateUserId(
-  req: Request,
-  res: Response,
-  next: NextFunction
-) {
-  const result = userIdSchema.safeParse(req.params);
-  if (!result.success) {
-    return res.status(404).json({
-      error: "Validation failed",
-      details: result.error.issues.map((issue) => issue.message),
-    });
-  }
-  next();
-}
-
-export function validateRequiredUserData(
-  req: Request,
-  res: Response,
-  next: NextFunction
-) {
-  const result = requiredUserDataSchema.safeParse(req.body);
-  if (!result.success) {
-    return res.status(400).json({
-      error: "Validation failed",
-      details: result.error.issues.map((issue) => issue.message),
-    });
-  }
-  next();
-}
-
-export function validatePartialUserData(
-  req: Request,
-  res: Response,
-  next: NextFunction
-) {
-  const result = partialUserDataSchema.safeParse(req.body);
-  if (!result.success) {
-    return res.status(400).json({
-      error: "Validation failed",
-      details: result.error.issues.map((issue) => issue.message),
-    });
-  }
-  next();
-}
-
-// =============================================================
-export async function validateExistingEmail(
-  req: Request,
-  res: Response,
-  next: NextFunction
-) {
-  const email = req.body.email;
-  const [existingUser] = (await pool.execute(
-    "SELECT * FROM users WHERE email = ?",
-    [email]
-  )) as [User[], unknown];
-
-  if (existingUser.length > 0) {
-    return res
-      .status(409)
-      .json({ error: "User with this email already exists" });
-  }
-  next();
-}
+export const roleSchema = z.object({
+  role: z.enum(ROLES, {
+    message: `Role must be one of: ${ROLES.join(", ")}`,
+  }),
+});
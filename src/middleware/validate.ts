@@ -0,0 +1,75 @@
+import type { Request, RequestHandler } from "express";
+import { z } from "zod";
+import { ValidationError } from "../errors/index.js";
+
+export interface RequestSchemas {
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+}
+
+// What the schemas parsed the request into
+export type Validated<S extends RequestSchemas> = {
+  [Part in keyof S]: S[Part] extends z.ZodType ? z.output<S[Part]> : never;
+};
+
+// Typed so the handlers that follow see res.locals.valid
+type ValidatedHandler<S extends RequestSchemas> = RequestHandler<
+  Request["params"],
+  unknown,
+  unknown,
+  Request["query"],
+  { valid: Validated<S> }
+>;
+
+// Path ids, handed to handlers as numbers
+export function idSchema(name = "ID") {
+  return z
+    .string()
+    .regex(/^[1-9]\d*$/, `${name} must be a positive number`)
+    .transform(Number);
+}
+
+export const idParamsSchema = z.object({ id: idSchema() });
+
+// The schemas behind each validate middleware, read by the OpenAPI document
+const registered = new WeakMap<object, RequestSchemas>();
+
+export function schemasOf(handler: object) {
+  return registered.get(handler);
+}
+
+// Parses the params, query and body of a request with the given schemas and
+// stores the results on res.locals.valid, typed for the handlers that follow.
+// Object schemas drop unknown fields, and the body is replaced by its parsed
+// version, so handlers only ever see what a schema let through.
+export function validate<S extends RequestSchemas>(schemas: S) {
+  const handler: ValidatedHandler<S> = (req, res, next) => {
+    const valid: Record<string, unknown> = {};
+    const problems: string[] = [];
+    for (const part of ["params", "query", "body"] as const) {
+      const schema = schemas[part];
+      if (!schema) {
+        continue;
+      }
+      // Requests without a JSON body leave req.body undefined
+      const result = schema.safeParse(req[part] ?? {});
+      if (result.success) {
+        valid[part] = result.data;
+      } else {
+        problems.push(...result.error.issues.map((issue) => issue.message));
+      }
+    }
+    if (problems.length > 0) {
+      throw new ValidationError(problems);
+    }
+
+    if (schemas.body) {
+      req.body = valid.body;
+    }
+    res.locals.valid = valid as Validated<S>;
+    next();
+  };
+  registered.set(handler, schemas);
+  return handler;
+}
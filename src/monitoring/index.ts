@@ -0,0 +1,83 @@
+import type { Request } from "express";
+import { createMetricsRegistry } from "./registry.js";
+import type { AppMetrics, DatabaseMonitor } from "./types.js";
+
+export type * from "./types.js";
+export { createMetricsRegistry } from "./registry.js";
+
+// Request latency buckets in seconds
+const DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+// HTTP metrics per route, plus the pool usage when there is a database
+export function createAppMetrics(database?: DatabaseMonitor): AppMetrics {
+  const registry = createMetricsRegistry();
+  const requests = registry.counter(
+    "http_requests_total",
+    "Requests answered, by method, route and status"
+  );
+  const errors = registry.counter(
+    "http_request_errors_total",
+    "Requests answered with a 5xx status, by method and route"
+  );
+  const durations = registry.histogram(
+    "http_request_duration_seconds",
+    "Time from receiving a request to finishing its response",
+    DURATION_BUCKETS
+  );
+
+  // Without pool stats the gauges have no samples
+  if (database) {
+    registry.gauge(
+      "mysql_pool_connections",
+      "Open connections of the MySQL pool, by state",
+      () => {
+        const stats = database.poolStats();
+        return stats
+          ? [
+              { labels: { state: "active" }, value: stats.open - stats.idle },
+              { labels: { state: "idle" }, value: stats.idle },
+            ]
+          : [];
+      }
+    );
+    registry.gauge(
+      "mysql_pool_connection_limit",
+      "Most connections the MySQL pool opens",
+      () => {
+        const stats = database.poolStats();
+        return stats ? [{ labels: {}, value: stats.limit }] : [];
+      }
+    );
+    registry.gauge(
+      "mysql_pool_queued_requests",
+      "Queries waiting for a free MySQL connection",
+      () => {
+        const stats = database.poolStats();
+        return stats ? [{ labels: {}, value: stats.queued }] : [];
+      }
+    );
+  }
+
+  return {
+    recordRequest({ method, route, status, durationSeconds }) {
+      requests.inc({ method, route, status: String(status) });
+      if (status >= 500) {
+        errors.inc({ method, route });
+      }
+      durations.observe({ method, route }, durationSeconds);
+    },
+    render: () => registry.render(),
+  };
+}
+
+// Metrics and the database are injected once per app through app.locals
+export function getMetrics(req: Request): AppMetrics {
+  return req.app.locals.metrics as AppMetrics;
+}
+
+// Undefined when running without MySQL
+export function getDatabaseMonitor(req: Request): DatabaseMonitor | undefined {
+  return req.app.locals.database as DatabaseMonitor | undefined;
+}
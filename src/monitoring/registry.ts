@@ -0,0 +1,136 @@
+import type { Labels, MetricsRegistry, Sample } from "./types.js";
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  lines(): string[];
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  // Per bucket, not yet cumulative
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+function escapeLabelValue(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Series are told apart by their label values, in the order given
+function seriesKey(labels: Labels) {
+  return JSON.stringify(Object.entries(labels));
+}
+
+function sampleLine(name: string, { labels, value }: Sample) {
+  return `${name}${formatLabels(labels)} ${value}`;
+}
+
+// A small in-process registry, enough for counters, gauges and histograms
+export function createMetricsRegistry(): MetricsRegistry {
+  const metrics: Metric[] = [];
+
+  return {
+    counter(name, help) {
+      const series = new Map<string, Sample>();
+      metrics.push({
+        name,
+        help,
+        type: "counter",
+        lines: () =>
+          [...series.values()].map((sample) => sampleLine(name, sample)),
+      });
+
+      return {
+        inc(labels, value = 1) {
+          const key = seriesKey(labels);
+          const sample = series.get(key) ?? { labels, value: 0 };
+          sample.value += value;
+          series.set(key, sample);
+        },
+      };
+    },
+
+    histogram(name, help, buckets) {
+      const series = new Map<string, HistogramSeries>();
+      metrics.push({
+        name,
+        help,
+        type: "histogram",
+        lines: () =>
+          [...series.values()].flatMap(({ labels, counts, sum, count }) => {
+            let cumulative = 0;
+            const bucketLines = buckets.map((bound, index) => {
+              cumulative += counts[index]!;
+              return sampleLine(`${name}_bucket`, {
+                labels: { ...labels, le: String(bound) },
+                value: cumulative,
+              });
+            });
+            return [
+              ...bucketLines,
+              sampleLine(`${name}_bucket`, {
+                labels: { ...labels, le: "+Inf" },
+                value: count,
+              }),
+              sampleLine(`${name}_sum`, { labels, value: sum }),
+              sampleLine(`${name}_count`, { labels, value: count }),
+            ];
+          }),
+      });
+
+      return {
+        observe(labels, value) {
+          const key = seriesKey(labels);
+          const entry = series.get(key) ?? {
+            labels,
+            counts: buckets.map(() => 0),
+            sum: 0,
+            count: 0,
+          };
+          const index = buckets.findIndex((bound) => value <= bound);
+          if (index !== -1) {
+            entry.counts[index]! += 1;
+          }
+          entry.sum += value;
+          entry.count += 1;
+          series.set(key, entry);
+        },
+      };
+    },
+
+    gauge(name, help, collect) {
+      metrics.push({
+        name,
+        help,
+        type: "gauge",
+        lines: () => collect().map((sample) => sampleLine(name, sample)),
+      });
+    },
+
+    render() {
+      return metrics
+        .map((metric) =>
+          [
+            `# HELP ${metric.name} ${metric.help}`,
+            `# TYPE ${metric.name} ${metric.type}`,
+            ...metric.lines(),
+          ].join("\n")
+        )
+        .join("\n")
+        .concat("\n");
+    },
+  };
+}
@@ -0,0 +1,56 @@
+// Label names and values of one series, e.g. { method: "GET" }
+export type Labels = Record<string, string>;
+
+export interface Counter {
+  inc(labels: Labels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+export interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+// Metrics rendered in the Prometheus text format
+export interface MetricsRegistry {
+  counter(name: string, help: string): Counter;
+  histogram(name: string, help: string, buckets: number[]): Histogram;
+  // Read when the metrics are rendered, for values kept elsewhere
+  gauge(name: string, help: string, collect: () => Sample[]): void;
+  render(): string;
+}
+
+// What the app records about each response
+export interface RequestMetrics {
+  method: string;
+  // The route pattern, e.g. /articles/:id, never the actual path
+  route: string;
+  status: number;
+  durationSeconds: number;
+}
+
+export interface AppMetrics {
+  recordRequest(request: RequestMetrics): void;
+  render(): string;
+}
+
+export interface PoolStats {
+  // connectionLimit of the pool
+  limit: number;
+  // Open connections, in use or idle
+  open: number;
+  idle: number;
+  // Queries waiting for a free connection
+  queued: number;
+}
+
+// The MySQL pool as seen by readiness checks and metrics
+export interface DatabaseMonitor {
+  // Rejects when the database can't run a query
+  ping(): Promise<void>;
+  // Null when the pool doesn't reveal its usage
+  poolStats(): PoolStats | null;
+}
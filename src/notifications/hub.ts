@@ -0,0 +1,40 @@
+import { EventEmitter } from "node:events";
+import type { NotificationHub } from "./types.js";
+
+// Streams of this process only. Behind a load balancer with several
+// processes, a user's stream only sees what happened on its own process.
+export function createNotificationHub(): NotificationHub {
+  const events = new EventEmitter();
+  // One listener per open stream, any number of them is fine
+  events.setMaxListeners(0);
+  let closed = false;
+
+  return {
+    publish(notification) {
+      events.emit(`user:${notification.user_id}`, notification);
+    },
+
+    subscribe(userId, listener) {
+      events.on(`user:${userId}`, listener);
+      return () => {
+        events.off(`user:${userId}`, listener);
+      };
+    },
+
+    close() {
+      closed = true;
+      events.emit("close");
+    },
+
+    onClose(listener) {
+      if (closed) {
+        listener();
+        return () => {};
+      }
+      events.once("close", listener);
+      return () => {
+        events.off("close", listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import type { Request } from "express";
+import type { NewNotification } from "../interfaces.js";
+import { getLogger } from "../logging/index.js";
+import { getRepositories } from "../repositories/index.js";
+import type { NotificationHub } from "./types.js";
+
+export type * from "./types.js";
+export { NOTIFICATION_TYPES } from "./types.js";
+export { createNotificationHub } from "./hub.js";
+
+// The hub is injected once per app through app.locals
+export function getNotificationHub(req: Request): NotificationHub {
+  return req.app.locals.notificationHub as NotificationHub;
+}
+
+// Store the notification and push it to the recipient's open streams,
+// unless they caused it themselves or turned this type off. The action it
+// is about already happened, so failures are only logged.
+export async function notify(req: Request, notification: NewNotification) {
+  if (notification.user_id === notification.actor_id) {
+    return;
+  }
+  try {
+    const { notifications } = getRepositories(req);
+    const preferences = await notifications.getPreferences(
+      notification.user_id
+    );
+    if (!preferences[notification.type]) {
+      return;
+    }
+    getNotificationHub(req).publish(await notifications.create(notification));
+  } catch (error) {
+    getLogger(req).error("Notification error", { error });
+  }
+}
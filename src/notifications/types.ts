@@ -0,0 +1,28 @@
+import type { NotificationWithActor } from "../interfaces.js";
+
+export const NOTIFICATION_TYPES = [
+  "comment",
+  "reply",
+  "like",
+  "follow",
+] as const;
+
+// comment: on your article, reply: to your comment, like: of your article,
+// follow: of you
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export type NotificationListener = (
+  notification: NotificationWithActor
+) => void;
+
+// Hands new notifications to the open streams of their recipient
+export interface NotificationHub {
+  publish(notification: NotificationWithActor): void;
+  // Resolves to a function that ends the subscription
+  subscribe(userId: number, listener: NotificationListener): () => void;
+  // Tells every open stream to end, e.g. when shutting down
+  close(): void;
+  // Called on close, right away if the hub is already closed. Resolves to a
+  // function that removes the listener.
+  onClose(listener: () => void): () => void;
+}
@@ -0,0 +1,224 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { IRoute } from "express";
+import swaggerJSDoc from "swagger-jsdoc";
+import { z } from "zod";
+import { schemasOf, type RequestSchemas } from "../middleware/validate.js";
+import type { ApiRouter } from "../routes/index.js";
+
+interface JsonSchema {
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  description?: string;
+  [keyword: string]: unknown;
+}
+
+export interface Parameter {
+  in: "path" | "query";
+  name: string;
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface Operation {
+  parameters?: (Parameter | { $ref: string })[];
+  requestBody?: unknown;
+  responses?: Record<string, unknown>;
+  [field: string]: unknown;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  paths: Record<string, Record<string, Operation>>;
+  components: Record<string, Record<string, unknown>>;
+}
+
+export interface ApiRoute {
+  method: string;
+  // OpenAPI style, e.g. /articles/{id}
+  path: string;
+  // Empty when the route validates nothing
+  schemas: RequestSchemas;
+}
+
+const PORT = process.env.PORT || 3000;
+
+// The document is versioned along with the package
+const { version } = JSON.parse(
+  readFileSync(new URL("../../package.json", import.meta.url), "utf8")
+) as { version: string };
+
+// Responses and descriptions are written next to the routes, see
+// src/routes. Parameters and request bodies come from the zod schemas.
+const definition = {
+  openapi: "3.0.0",
+  info: {
+    title: "Dev platforms API",
+    version,
+    description: "A simple API for managing users and articles",
+  },
+  servers: [{ url: `http://localhost:${PORT}` }],
+  components: {
+    schemas: {
+      // Every error response, sent as application/problem+json
+      Problem: {
+        type: "object",
+        properties: {
+          type: { type: "string", example: "about:blank" },
+          title: { type: "string", example: "Not Found" },
+          status: { type: "integer", example: 404 },
+          detail: { type: "string", example: "Article not found" },
+          instance: { type: "string", example: "/articles/42" },
+          code: {
+            type: "string",
+            description: "Stable machine readable error code",
+            example: "not_found",
+          },
+          request_id: {
+            type: "string",
+            description: "Also sent as X-Request-Id, found on every log line",
+          },
+          errors: {
+            type: "array",
+            items: { type: "string" },
+            description: "Every problem found, for validation errors",
+          },
+        },
+      },
+      User: {
+        type: "object",
+        properties: {
+          id: { type: "integer" },
+          username: { type: "string" },
+          email: { type: "string" },
+          avatar_url: { type: "string", nullable: true },
+          avatar_thumbnail_url: { type: "string", nullable: true },
+        },
+      },
+    },
+  },
+};
+
+// Requests are documented the way clients send them, before transforms
+function toJsonSchema(schema: z.ZodType) {
+  return z.toJSONSchema(schema, {
+    target: "openapi-3.0",
+    io: "input",
+    unrepresentable: "any",
+    override: (ctx) => {
+      // Dates arrive as ISO 8601 strings
+      if (ctx.zodSchema._zod.def.type === "date") {
+        ctx.jsonSchema.type = "string";
+        ctx.jsonSchema.format = "date-time";
+      }
+    },
+  }) as JsonSchema;
+}
+
+// One parameter per property of an object schema
+function parametersOf(
+  location: Parameter["in"],
+  schema: z.ZodType | undefined
+): Parameter[] {
+  if (!schema) {
+    return [];
+  }
+  const json = toJsonSchema(schema);
+  return Object.entries(json.properties ?? {}).map(([name, property]) => {
+    const { description, ...rest } = property;
+    return {
+      in: location,
+      name,
+      required: location === "path" || !!json.required?.includes(name),
+      ...(description === undefined ? {} : { description }),
+      schema: rest,
+    };
+  });
+}
+
+// Express paths as OpenAPI paths, /feed{.:format} becomes /feed.{format}
+function toOpenApiPath(path: string) {
+  return path
+    .replace(/\{\.:(\w+)\}/g, ".{$1}")
+    .replace(/:(\w+)/g, "{$1}")
+    .replace(/(.)\/$/, "$1");
+}
+
+// Every route of the routers, with the schemas its validate middleware uses
+export function listRoutes(routers: ApiRouter[]): ApiRoute[] {
+  const routes: ApiRoute[] = [];
+  for (const { path, router } of routers) {
+    for (const layer of router.stack) {
+      const route = layer.route as
+        | (IRoute & { methods: Record<string, boolean> })
+        | undefined;
+      if (!route) {
+        continue;
+      }
+      const schemas =
+        route.stack
+          .map((step) => schemasOf(step.handle))
+          .find((found) => found !== undefined) ?? {};
+      for (const method of Object.keys(route.methods)) {
+        routes.push({
+          method,
+          path: toOpenApiPath(path + route.path),
+          schemas,
+        });
+      }
+    }
+  }
+  return routes;
+}
+
+function documentRoute(operation: Operation, { schemas }: ApiRoute) {
+  const generated = [
+    ...parametersOf("path", schemas.params),
+    ...parametersOf("query", schemas.query),
+  ];
+  // Written parameters stay for what no schema covers, e.g. stream tokens
+  const written = (operation.parameters ?? []).filter(
+    (parameter) =>
+      !("name" in parameter) ||
+      !generated.some(
+        (other) => other.in === parameter.in && other.name === parameter.name
+      )
+  );
+  if (generated.length > 0 || written.length > 0) {
+    operation.parameters = [...generated, ...written];
+  }
+
+  if (schemas.body) {
+    operation.requestBody = {
+      // validate treats a missing body as {}
+      required: !schemas.body.safeParse({}).success,
+      content: { "application/json": { schema: toJsonSchema(schemas.body) } },
+    };
+  }
+}
+
+// The route files next to this module, .ts when run from the sources and .js
+// once compiled to dist, wherever the process was started from
+const routeFiles = fileURLToPath(
+  new URL(`../routes/*${extname(import.meta.url)}`, import.meta.url)
+);
+
+// The JSDoc of the routes, completed with their request schemas. Routes
+// without JSDoc are left out, the OpenAPI test catches those.
+export function createOpenApiDocument(routers: ApiRouter[]) {
+  const document = swaggerJSDoc({
+    definition,
+    apis: [routeFiles],
+  }) as OpenApiDocument;
+
+  for (const route of listRoutes(routers)) {
+    const operation = document.paths[route.path]?.[route.method];
+    if (operation) {
+      documentRoute(operation, route);
+    }
+  }
+  return document;
+}
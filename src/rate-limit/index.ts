@@ -0,0 +1,15 @@
+import type { Request } from "express";
+import type { RateLimitStore } from "./types.js";
+
+export type * from "./types.js";
+export { createMemoryRateLimitStore } from "./memory.js";
+export {
+  clearLoginFailures,
+  lockoutRemaining,
+  recordLoginFailure,
+} from "./lockout.js";
+
+// The store is injected once per app through app.locals
+export function getRateLimitStore(req: Request): RateLimitStore {
+  return req.app.locals.rateLimitStore as RateLimitStore;
+}
@@ -0,0 +1,46 @@
+import type { RateLimitStore } from "./types.js";
+
+// Failed logins allowed before the account is locked
+const LOCKOUT_THRESHOLD = 5;
+const LOCKOUT_BASE_MS = 60 * 1000;
+const LOCKOUT_MAX_MS = 60 * 60 * 1000;
+// Failures are forgotten a day after the first one, or on a successful login
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const failureKey = (account: string) =>
+  `login-failures:${account.toLowerCase()}`;
+const lockKey = (account: string) => `login-lock:${account.toLowerCase()}`;
+
+// Milliseconds until the account may try again, 0 when it isn't locked
+export async function lockoutRemaining(store: RateLimitStore, account: string) {
+  const lock = await store.get(lockKey(account));
+  return lock ? Math.max(lock.resetAt - Date.now(), 0) : 0;
+}
+
+// Count a failed login. From the threshold on every further failure locks
+// the account, twice as long as the previous lock.
+export async function recordLoginFailure(
+  store: RateLimitStore,
+  account: string
+) {
+  const failures = await store.increment(
+    failureKey(account),
+    FAILURE_WINDOW_MS
+  );
+
+  if (failures.count >= LOCKOUT_THRESHOLD) {
+    const duration = Math.min(
+      LOCKOUT_BASE_MS * 2 ** (failures.count - LOCKOUT_THRESHOLD),
+      LOCKOUT_MAX_MS
+    );
+    await store.increment(lockKey(account), duration);
+  }
+}
+
+export async function clearLoginFailures(
+  store: RateLimitStore,
+  account: string
+) {
+  await store.reset(failureKey(account));
+  await store.reset(lockKey(account));
+}
@@ -0,0 +1,47 @@
+import type { RateLimitEntry, RateLimitStore } from "./types.js";
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, RateLimitEntry>();
+  let nextSweep = Date.now() + SWEEP_INTERVAL_MS;
+
+  // Drop finished windows now and then so the map doesn't grow forever
+  function sweep(now: number) {
+    if (now < nextSweep) {
+      return;
+    }
+    nextSweep = now + SWEEP_INTERVAL_MS;
+    for (const [key, entry] of entries) {
+      if (entry.resetAt <= now) {
+        entries.delete(key);
+      }
+    }
+  }
+
+  function current(key: string, now: number) {
+    const entry = entries.get(key);
+    return entry && entry.resetAt > now ? entry : null;
+  }
+
+  return {
+    async get(key) {
+      const entry = current(key, Date.now());
+      return entry ? { ...entry } : null;
+    },
+
+    async increment(key, windowMs) {
+      const now = Date.now();
+      sweep(now);
+
+      const entry = current(key, now) ?? { count: 0, resetAt: now + windowMs };
+      entry.count += 1;
+      entries.set(key, entry);
+      return { ...entry };
+    },
+
+    async reset(key) {
+      entries.delete(key);
+    },
+  };
+}
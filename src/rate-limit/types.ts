@@ -0,0 +1,14 @@
+export interface RateLimitEntry {
+  count: number;
+  // Epoch milliseconds when the window ends and the count starts over
+  resetAt: number;
+}
+
+// Where hit counters live. The memory store only works for a single process,
+// implement this on a shared store such as Redis to limit across instances.
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitEntry | null>;
+  // Counts a hit, opening a new window of windowMs when none is running
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  reset(key: string): Promise<void>;
+}
@@ -0,0 +1,56 @@
+import type { ArticleWithAuthor } from "../interfaces.js";
+import type {
+  ArticleListQuery,
+  KeysetSort,
+} from "../middleware/article-validation.js";
+import { encodeCursor, type Page } from "../utils/pagination.js";
+
+// Whitelisted sort params mapped to their column and direction
+export const SORT_COLUMNS: Record<
+  KeysetSort,
+  { column: "created_at" | "title"; direction: "ASC" | "DESC" }
+> = {
+  created_at: { column: "created_at", direction: "ASC" },
+  "-created_at": { column: "created_at", direction: "DESC" },
+  title: { column: "title", direction: "ASC" },
+  "-title": { column: "title", direction: "DESC" },
+};
+
+// Value of the sort column as stored in a cursor
+export function sortValue(
+  article: ArticleWithAuthor,
+  column: "created_at" | "title"
+) {
+  return column === "created_at"
+    ? new Date(article.created_at).toISOString()
+    : article.title;
+}
+
+// Build the response page from up to limit + 1 fetched rows
+export function buildArticlePage(
+  rows: ArticleWithAuthor[],
+  query: ArticleListQuery,
+  total: number
+): Page<ArticleWithAuthor> {
+  const hasMore = rows.length > query.limit;
+  const data = hasMore ? rows.slice(0, query.limit) : rows;
+  const last = data[data.length - 1];
+  const sort = query.sort;
+
+  return {
+    data,
+    meta: {
+      total,
+      limit: query.limit,
+      page: query.cursor ? null : query.page ?? 1,
+      nextCursor:
+        hasMore && last && sort !== "popular"
+          ? encodeCursor({
+              sort,
+              value: sortValue(last, SORT_COLUMNS[sort].column),
+              id: last.id,
+            })
+          : null,
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import type { CommentWithAuthor } from "../interfaces.js";
+import type { CommentListQuery } from "../middleware/comment-validation.js";
+import { encodeCursor, type Page } from "../utils/pagination.js";
+
+// Build the response page from up to limit + 1 fetched top level comments
+export function buildCommentPage(
+  rows: CommentWithAuthor[],
+  query: CommentListQuery,
+  total: number
+): Page<CommentWithAuthor> {
+  const hasMore = rows.length > query.limit;
+  const data = hasMore ? rows.slice(0, query.limit) : rows;
+  const last = data[data.length - 1];
+
+  return {
+    data,
+    meta: {
+      total,
+      limit: query.limit,
+      page: query.cursor ? null : query.page ?? 1,
+      nextCursor: hasMore && last ? encodeCursor({ id: last.id }) : null,
+    },
+  };
+}
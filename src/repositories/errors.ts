@@ -0,0 +1,52 @@
+import {
+  type AppError,
+  ConflictError,
+  ServiceUnavailableError,
+  ValidationError,
+} from "../errors/index.js";
+
+type DatabaseError = Error & { code?: string };
+
+function errorCode(error: unknown) {
+  return error instanceof Error ? (error as DatabaseError).code : undefined;
+}
+
+// True for unique key violations, raised by mysql2 and the memory store alike
+export function isDuplicateEntryError(error: unknown) {
+  return errorCode(error) === "ER_DUP_ENTRY";
+}
+
+// What a failed query means for the client, null for errors that are bugs.
+// Handlers that know which constraint failed should say so themselves.
+export function fromDatabaseError(error: unknown): AppError | null {
+  switch (errorCode(error)) {
+    case "ER_DUP_ENTRY":
+      return new ConflictError("Resource already exists", {
+        code: "duplicate_entry",
+      });
+    // Something it refers to was deleted in the meantime
+    case "ER_NO_REFERENCED_ROW":
+    case "ER_NO_REFERENCED_ROW_2":
+      return new ConflictError("A referenced resource does not exist", {
+        code: "missing_reference",
+      });
+    case "ER_ROW_IS_REFERENCED":
+    case "ER_ROW_IS_REFERENCED_2":
+      return new ConflictError("Resource is still in use", {
+        code: "still_referenced",
+      });
+    case "ER_DATA_TOO_LONG":
+      return new ValidationError(["A value is too long"]);
+    // Worth retrying
+    case "ER_LOCK_DEADLOCK":
+    case "ER_LOCK_WAIT_TIMEOUT":
+    case "ECONNREFUSED":
+    case "PROTOCOL_CONNECTION_LOST":
+      return new ServiceUnavailableError(
+        "The database is busy, please try again",
+        { code: "database_unavailable" }
+      );
+    default:
+      return null;
+  }
+}
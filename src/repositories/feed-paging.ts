@@ -0,0 +1,30 @@
+import type { ArticleWithAuthor } from "../interfaces.js";
+import type { FeedQuery } from "../middleware/follow-validation.js";
+import { encodeCursor, type Page } from "../utils/pagination.js";
+
+// Build the response page from up to limit + 1 fetched feed articles
+export function buildFeedPage(
+  rows: ArticleWithAuthor[],
+  query: FeedQuery,
+  total: number
+): Page<ArticleWithAuthor> {
+  const hasMore = rows.length > query.limit;
+  const data = hasMore ? rows.slice(0, query.limit) : rows;
+  const last = data[data.length - 1];
+
+  return {
+    data,
+    meta: {
+      total,
+      limit: query.limit,
+      page: query.cursor ? null : query.page ?? 1,
+      nextCursor:
+        hasMore && last
+          ? encodeCursor({
+              published_at: new Date(last.published_at!).toISOString(),
+              id: last.id,
+            })
+          : null,
+    },
+  };
+}
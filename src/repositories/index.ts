@@ -0,0 +1,12 @@
+import type { Request } from "express";
+import type { Repositories } from "./types.js";
+
+export type * from "./types.js";
+export { createMySqlRepositories } from "./mysql/index.js";
+export { createMemoryRepositories } from "./memory/index.js";
+export { fromDatabaseError, isDuplicateEntryError } from "./errors.js";
+
+// Repositories are injected once per app through app.locals
+export function getRepositories(req: Request): Repositories {
+  return req.app.locals.repositories as Repositories;
+}
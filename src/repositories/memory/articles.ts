@@ -0,0 +1,313 @@
+import type { Article, ArticleWithAuthor } from "../../interfaces.js";
+import { highlight, searchTerms, snippet } from "../../utils/highlight.js";
+import { canView } from "../../utils/article-status.js";
+import { excerpt, readingTime } from "../../utils/markdown.js";
+import { pageOffset } from "../../utils/pagination.js";
+import { popularityScore } from "../../utils/popularity.js";
+import { buildArticlePage, SORT_COLUMNS } from "../article-paging.js";
+import type { ArticleRepository } from "../types.js";
+import {
+  findImage,
+  nextId,
+  pruneOrphans,
+  type MemoryStore,
+  type StoredArticle,
+} from "./store.js";
+
+function compareValues(a: Date | string, b: Date | string) {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  return String(a).localeCompare(String(b));
+}
+
+function countOccurrences(text: string, term: string) {
+  return text.toLowerCase().split(term).length - 1;
+}
+
+export function createMemoryArticleRepository(
+  store: MemoryStore
+): ArticleRepository {
+  // Category slug and tag slugs in place of the stored ids
+  function withRelations(article: StoredArticle): Article {
+    const { category_id, ...rest } = article;
+    const category = store.categories.find(
+      (category) => category.id === category_id
+    );
+    const tagIds = store.articleTags
+      .filter((link) => link.article_id === article.id)
+      .map((link) => link.tag_id);
+    const tags = store.tags
+      .filter((tag) => tagIds.includes(tag.id))
+      .map((tag) => tag.slug)
+      .sort();
+    return { ...rest, category: category?.slug ?? null, tags };
+  }
+
+  // Inner join with users, like the MySQL queries
+  function withAuthors(articles: StoredArticle[]): ArticleWithAuthor[] {
+    return articles.flatMap((article) => {
+      const user = store.users.find((user) => user.id === article.submitted_by);
+      const cover = findImage(store, "cover", article.id);
+      return user
+        ? [
+            {
+              ...withRelations(article),
+              username: user.username,
+              email: user.email,
+              like_count: store.articleLikes.filter(
+                (like) => like.article_id === article.id
+              ).length,
+              excerpt: excerpt(article.body),
+              reading_time: readingTime(article.body),
+              cover_url: cover?.url ?? null,
+              cover_thumbnail_url: cover?.thumbnail_url ?? null,
+            },
+          ]
+        : [];
+    });
+  }
+
+  function setTags(articleId: number, tagIds: number[]) {
+    store.articleTags = [
+      ...store.articleTags.filter((link) => link.article_id !== articleId),
+      ...[...new Set(tagIds)].map((tagId) => ({
+        article_id: articleId,
+        tag_id: tagId,
+      })),
+    ];
+  }
+
+  const find = (id: number) =>
+    store.articles.find((article) => article.id === id);
+
+  return {
+    async list(query, viewerId) {
+      const filtered = withAuthors(store.articles).filter(
+        (article) =>
+          canView(article, viewerId) &&
+          (!query.status || article.status === query.status) &&
+          (!query.category || article.category === query.category) &&
+          (!query.tag || article.tags!.includes(query.tag)) &&
+          (!query.submitted_by ||
+            article.submitted_by === query.submitted_by) &&
+          (!query.created_after || article.created_at >= query.created_after) &&
+          (!query.created_before || article.created_at <= query.created_before)
+      );
+      const offset = pageOffset(query.page, query.limit);
+
+      if (query.sort === "popular") {
+        const now = new Date();
+        const countFor = (rows: { article_id: number }[], id: number) =>
+          rows.filter((row) => row.article_id === id).length;
+        const scored = filtered
+          .map((article) => ({
+            article,
+            score: popularityScore(
+              {
+                likes: article.like_count,
+                bookmarks: countFor(store.bookmarks, article.id),
+                comments: countFor(
+                  store.comments.filter((comment) => !comment.deleted_at),
+                  article.id
+                ),
+              },
+              article.created_at,
+              now
+            ),
+          }))
+          .sort((a, b) => b.score - a.score || b.article.id - a.article.id)
+          .map(({ article }) => article);
+
+        return buildArticlePage(
+          scored.slice(offset, offset + query.limit + 1),
+          query,
+          filtered.length
+        );
+      }
+
+      const { column, direction } = SORT_COLUMNS[query.sort];
+      const sign = direction === "DESC" ? -1 : 1;
+      const compare = (
+        a: { value: Date | string; id: number },
+        b: { value: Date | string; id: number }
+      ) => sign * (compareValues(a.value, b.value) || a.id - b.id);
+
+      const sorted = filtered.sort((a, b) =>
+        compare({ value: a[column], id: a.id }, { value: b[column], id: b.id })
+      );
+
+      // Keyset: keep rows strictly after the cursor
+      const cursor = query.cursor;
+      const afterCursor = cursor
+        ? sorted.filter(
+            (article) =>
+              compare(
+                { value: article[column], id: article.id },
+                {
+                  value:
+                    column === "created_at"
+                      ? new Date(cursor.value)
+                      : cursor.value,
+                  id: cursor.id,
+                }
+              ) > 0
+          )
+        : sorted;
+
+      const rows = afterCursor.slice(offset, offset + query.limit + 1);
+
+      return buildArticlePage(rows, query, filtered.length);
+    },
+
+    // Naive stand-in for MySQL full-text relevance: term counts, title weighted
+    async listLatest(filter, limit) {
+      return withAuthors(store.articles)
+        .filter(
+          (article) =>
+            article.status === "published" &&
+            (!filter.category || article.category === filter.category) &&
+            (!filter.submitted_by ||
+              article.submitted_by === filter.submitted_by)
+        )
+        .sort(
+          (a, b) =>
+            b.published_at!.getTime() - a.published_at!.getTime() || b.id - a.id
+        )
+        .slice(0, limit);
+    },
+
+    async search(query) {
+      const terms = searchTerms(query.q);
+      const scored = withAuthors(store.articles)
+        .filter(
+          (article) =>
+            article.status === "published" &&
+            (!query.category || article.category === query.category)
+        )
+        .map((article) => ({
+          article,
+          relevance: terms.reduce(
+            (score, term) =>
+              score +
+              2 * countOccurrences(article.title, term) +
+              countOccurrences(article.body, term),
+            0
+          ),
+        }))
+        .filter((result) => result.relevance > 0)
+        .sort(
+          (a, b) => b.relevance - a.relevance || b.article.id - a.article.id
+        );
+
+      const offset = pageOffset(query.page, query.limit);
+      const data = scored
+        .slice(offset, offset + query.limit)
+        .map(({ article, relevance }) => ({
+          ...article,
+          relevance,
+          highlights: {
+            title: highlight(article.title, terms),
+            body: snippet(article.body, terms),
+          },
+        }));
+
+      return {
+        data,
+        meta: {
+          total: scored.length,
+          limit: query.limit,
+          page: query.page ?? 1,
+          nextCursor: null,
+        },
+      };
+    },
+
+    async findById(id) {
+      const article = find(id);
+      return article ? withAuthors([article])[0] ?? null : null;
+    },
+
+    async findOwnerId(id) {
+      return find(id)?.submitted_by ?? null;
+    },
+
+    async create(newArticle) {
+      const { tag_ids, ...fields } = newArticle;
+      const now = new Date();
+      const article: StoredArticle = {
+        id: nextId(store, "articles"),
+        ...fields,
+        created_at: now,
+        published_at: fields.status === "published" ? now : null,
+      };
+      store.articles.push(article);
+      setTags(article.id, tag_ids);
+      return withRelations(article);
+    },
+
+    async update(id, changes, editorId) {
+      const article = find(id);
+      if (!article) {
+        return false;
+      }
+      const revisions = store.articleRevisions.filter(
+        (revision) => revision.article_id === id
+      );
+      store.articleRevisions.push({
+        id: nextId(store, "articleRevisions"),
+        article_id: id,
+        revision: revisions.length + 1,
+        title: article.title,
+        body: article.body,
+        category_id: article.category_id,
+        edited_by: editorId,
+        created_at: new Date(),
+      });
+      const { tag_ids, ...fields } = changes;
+      Object.assign(article, fields);
+      if (tag_ids) {
+        setTags(id, tag_ids);
+      }
+      return true;
+    },
+
+    async updateStatus(id, status, publishAt) {
+      const article = find(id);
+      if (!article) {
+        return false;
+      }
+      article.status = status;
+      article.publish_at = publishAt;
+      if (status === "published") {
+        article.published_at = new Date();
+      }
+      return true;
+    },
+
+    async publishDue() {
+      const now = new Date();
+      const due = store.articles.filter(
+        (article) =>
+          article.status === "scheduled" &&
+          article.publish_at !== null &&
+          article.publish_at <= now
+      );
+      for (const article of due) {
+        article.status = "published";
+        article.published_at = article.publish_at;
+      }
+      return due.length;
+    },
+
+    async delete(id) {
+      const index = store.articles.findIndex((article) => article.id === id);
+      if (index === -1) {
+        return false;
+      }
+      store.articles.splice(index, 1);
+      pruneOrphans(store);
+      return true;
+    },
+  };
+}
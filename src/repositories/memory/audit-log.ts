@@ -0,0 +1,52 @@
+import type { AuditEntry, AuditEntryWithActor } from "../../interfaces.js";
+import { pageOffset } from "../../utils/pagination.js";
+import type { AuditLogRepository } from "../types.js";
+import { nextId, type MemoryStore } from "./store.js";
+
+export function createMemoryAuditLogRepository(
+  store: MemoryStore
+): AuditLogRepository {
+  // Actor name, like the join of the MySQL repository
+  function withActor(entry: AuditEntry): AuditEntryWithActor {
+    const actor = store.users.find((user) => user.id === entry.actor_id);
+    return { ...entry, actor_username: actor?.username ?? null };
+  }
+
+  return {
+    async record(newEntry) {
+      const entry: AuditEntry = {
+        id: nextId(store, "auditLog"),
+        ...newEntry,
+        created_at: new Date(),
+      };
+      store.auditLog.push(entry);
+      return entry;
+    },
+
+    async list(query) {
+      const entries = store.auditLog
+        .filter(
+          (entry) =>
+            (query.actor_id === undefined ||
+              entry.actor_id === query.actor_id) &&
+            (query.action === undefined || entry.action === query.action) &&
+            (query.entity_type === undefined ||
+              entry.entity_type === query.entity_type) &&
+            (query.entity_id === undefined ||
+              entry.entity_id === query.entity_id)
+        )
+        .sort((a, b) => b.id - a.id);
+
+      const offset = pageOffset(query.page, query.limit);
+      return {
+        data: entries.slice(offset, offset + query.limit).map(withActor),
+        meta: {
+          total: entries.length,
+          limit: query.limit,
+          page: query.page ?? 1,
+          nextCursor: null,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import type { BookmarkedArticle } from "../../interfaces.js";
+import { canView } from "../../utils/article-status.js";
+import { pageOffset } from "../../utils/pagination.js";
+import type { BookmarkRepository } from "../types.js";
+import { createMemoryArticleRepository } from "./articles.js";
+import { isReaction, type MemoryStore } from "./store.js";
+
+export function createMemoryBookmarkRepository(
+  store: MemoryStore
+): BookmarkRepository {
+  // Reuse the article joins instead of repeating them here
+  const articles = createMemoryArticleRepository(store);
+
+  return {
+    async add(articleId, userId) {
+      if (store.bookmarks.some(isReaction(articleId, userId))) {
+        return false;
+      }
+      store.bookmarks.push({
+        article_id: articleId,
+        user_id: userId,
+        created_at: new Date(),
+      });
+      return true;
+    },
+
+    async remove(articleId, userId) {
+      const index = store.bookmarks.findIndex(isReaction(articleId, userId));
+      if (index === -1) {
+        return false;
+      }
+      store.bookmarks.splice(index, 1);
+      return true;
+    },
+
+    async listForUser(userId, query) {
+      const bookmarks = store.bookmarks
+        .filter((bookmark) => bookmark.user_id === userId)
+        .sort(
+          (a, b) =>
+            b.created_at.getTime() - a.created_at.getTime() ||
+            b.article_id - a.article_id
+        );
+
+      const bookmarked: BookmarkedArticle[] = [];
+      for (const bookmark of bookmarks) {
+        const article = await articles.findById(bookmark.article_id);
+        if (article && canView(article, userId)) {
+          bookmarked.push({ ...article, bookmarked_at: bookmark.created_at });
+        }
+      }
+
+      const offset = pageOffset(query.page, query.limit);
+      return {
+        data: bookmarked.slice(offset, offset + query.limit),
+        meta: {
+          total: bookmarked.length,
+          limit: query.limit,
+          page: query.page ?? 1,
+          nextCursor: null,
+        },
+      };
+    },
+  };
+}
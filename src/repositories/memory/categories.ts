@@ -0,0 +1,85 @@
+import type { Category, CategoryWithCount } from "../../interfaces.js";
+import type { CategoryRepository } from "../types.js";
+import { duplicateEntryError, nextId, type MemoryStore } from "./store.js";
+
+export function createMemoryCategoryRepository(
+  store: MemoryStore
+): CategoryRepository {
+  const find = (id: number) =>
+    store.categories.find((category) => category.id === id);
+
+  // Same unique key as the categories table
+  function assertUnique(id: number, slug?: string) {
+    if (
+      slug !== undefined &&
+      store.categories.some(
+        (category) => category.id !== id && category.slug === slug
+      )
+    ) {
+      throw duplicateEntryError(slug, "categories.categories_slug_unique");
+    }
+  }
+
+  function withCount(category: Category): CategoryWithCount {
+    return {
+      ...category,
+      article_count: store.articles.filter(
+        (article) =>
+          article.category_id === category.id && article.status === "published"
+      ).length,
+    };
+  }
+
+  return {
+    async list() {
+      return [...store.categories]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(withCount);
+    },
+
+    async findBySlug(slug) {
+      const category = store.categories.find(
+        (category) => category.slug === slug
+      );
+      return category ? withCount(category) : null;
+    },
+
+    async create(newCategory) {
+      assertUnique(0, newCategory.slug);
+      const category: Category = {
+        id: nextId(store, "categories"),
+        ...newCategory,
+        created_at: new Date(),
+      };
+      store.categories.push(category);
+      return { ...category };
+    },
+
+    async update(id, changes) {
+      const category = find(id);
+      if (!category) {
+        return false;
+      }
+      assertUnique(id, changes.slug);
+      Object.assign(category, changes);
+      return true;
+    },
+
+    async delete(id) {
+      const index = store.categories.findIndex(
+        (category) => category.id === id
+      );
+      if (index === -1) {
+        return false;
+      }
+      store.categories.splice(index, 1);
+      // ON DELETE SET NULL
+      for (const row of [...store.articles, ...store.articleRevisions]) {
+        if (row.category_id === id) {
+          row.category_id = null;
+        }
+      }
+      return true;
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import type { Comment, CommentWithAuthor } from "../../interfaces.js";
+import { pageOffset } from "../../utils/pagination.js";
+import { buildCommentPage } from "../comment-paging.js";
+import type { CommentRepository } from "../types.js";
+import { nextId, type MemoryStore } from "./store.js";
+
+export function createMemoryCommentRepository(
+  store: MemoryStore
+): CommentRepository {
+  // Inner join with users, like the MySQL queries
+  function withAuthors(comments: Comment[]): CommentWithAuthor[] {
+    return comments.flatMap((comment) => {
+      const user = store.users.find((user) => user.id === comment.user_id);
+      return user ? [{ ...comment, username: user.username }] : [];
+    });
+  }
+
+  const find = (id: number) =>
+    store.comments.find((comment) => comment.id === id);
+
+  return {
+    async listThreads(articleId, query) {
+      const roots = withAuthors(
+        store.comments.filter(
+          (comment) =>
+            comment.article_id === articleId &&
+            comment.parent_id === null &&
+            (comment.deleted_at === null ||
+              store.comments.some(
+                (reply) =>
+                  reply.root_id === comment.id && reply.deleted_at === null
+              ))
+        )
+      ).sort((a, b) => a.id - b.id);
+
+      const after = query.cursor
+        ? roots.filter((comment) => comment.id > query.cursor!.id)
+        : roots;
+      const offset = pageOffset(query.page, query.limit);
+
+      return buildCommentPage(
+        after.slice(offset, offset + query.limit + 1),
+        query,
+        roots.length
+      );
+    },
+
+    async listReplies(rootIds) {
+      return withAuthors(
+        store.comments.filter(
+          (comment) =>
+            comment.root_id !== null && rootIds.includes(comment.root_id)
+        )
+      ).sort((a, b) => a.id - b.id);
+    },
+
+    async findById(id) {
+      const comment = find(id);
+      return comment ? withAuthors([comment])[0] ?? null : null;
+    },
+
+    async create(newComment) {
+      const comment: Comment = {
+        id: nextId(store, "comments"),
+        ...newComment,
+        created_at: new Date(),
+        updated_at: null,
+        deleted_at: null,
+      };
+      store.comments.push(comment);
+      return withAuthors([comment])[0]!;
+    },
+
+    async update(id, body) {
+      const comment = find(id);
+      if (!comment || comment.deleted_at) {
+        return false;
+      }
+      comment.body = body;
+      comment.updated_at = new Date();
+      return true;
+    },
+
+    async softDelete(id) {
+      const comment = find(id);
+      if (!comment || comment.deleted_at) {
+        return false;
+      }
+      comment.deleted_at = new Date();
+      return true;
+    },
+  };
+}
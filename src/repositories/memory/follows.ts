@@ -0,0 +1,140 @@
+import type { ArticleWithAuthor, FollowedUser } from "../../interfaces.js";
+import { pageOffset } from "../../utils/pagination.js";
+import { buildFeedPage } from "../feed-paging.js";
+import type { FollowRepository } from "../types.js";
+import { createMemoryArticleRepository } from "./articles.js";
+import type { MemoryStore, StoredFollow } from "./store.js";
+import { createMemoryUserRepository } from "./users.js";
+
+export function createMemoryFollowRepository(
+  store: MemoryStore
+): FollowRepository {
+  // Reuse the user and article joins instead of repeating them here
+  const users = createMemoryUserRepository(store);
+  const articles = createMemoryArticleRepository(store);
+
+  function isFollow(followerId: number, followedId: number) {
+    return (follow: StoredFollow) =>
+      follow.follower_id === followerId && follow.followed_id === followedId;
+  }
+
+  // One page of the users on the other end of the given follows
+  async function listUsers(
+    follows: StoredFollow[],
+    userOf: (follow: StoredFollow) => number,
+    query: { limit: number; page?: number | undefined }
+  ) {
+    const sorted = [...follows].sort(
+      (a, b) =>
+        b.created_at.getTime() - a.created_at.getTime() || userOf(b) - userOf(a)
+    );
+    const offset = pageOffset(query.page, query.limit);
+
+    const data: FollowedUser[] = [];
+    for (const follow of sorted.slice(offset, offset + query.limit)) {
+      const user = await users.findById(userOf(follow));
+      if (user) {
+        data.push({ ...user, followed_at: follow.created_at });
+      }
+    }
+    return {
+      data,
+      meta: {
+        total: sorted.length,
+        limit: query.limit,
+        page: query.page ?? 1,
+        nextCursor: null,
+      },
+    };
+  }
+
+  return {
+    async add(followerId, followedId) {
+      if (store.follows.some(isFollow(followerId, followedId))) {
+        return false;
+      }
+      store.follows.push({
+        follower_id: followerId,
+        followed_id: followedId,
+        created_at: new Date(),
+      });
+      return true;
+    },
+
+    async remove(followerId, followedId) {
+      const index = store.follows.findIndex(isFollow(followerId, followedId));
+      if (index === -1) {
+        return false;
+      }
+      store.follows.splice(index, 1);
+      return true;
+    },
+
+    async counts(userId) {
+      return {
+        followers: store.follows.filter(
+          (follow) => follow.followed_id === userId
+        ).length,
+        following: store.follows.filter(
+          (follow) => follow.follower_id === userId
+        ).length,
+      };
+    },
+
+    async listFollowers(userId, query) {
+      return listUsers(
+        store.follows.filter((follow) => follow.followed_id === userId),
+        (follow) => follow.follower_id,
+        query
+      );
+    },
+
+    async listFollowing(userId, query) {
+      return listUsers(
+        store.follows.filter((follow) => follow.follower_id === userId),
+        (follow) => follow.followed_id,
+        query
+      );
+    },
+
+    async listFeed(userId, query) {
+      const followedIds = new Set(
+        store.follows
+          .filter((follow) => follow.follower_id === userId)
+          .map((follow) => follow.followed_id)
+      );
+      const published = store.articles
+        .filter(
+          (article) =>
+            article.status === "published" &&
+            followedIds.has(article.submitted_by)
+        )
+        .sort(
+          (a, b) =>
+            b.published_at!.getTime() - a.published_at!.getTime() || b.id - a.id
+        );
+
+      const cursor = query.cursor;
+      const after = cursor
+        ? published.filter((article) => {
+            const time = new Date(cursor.published_at).getTime();
+            return (
+              article.published_at!.getTime() < time ||
+              (article.published_at!.getTime() === time &&
+                article.id < cursor.id)
+            );
+          })
+        : published;
+      const offset = pageOffset(query.page, query.limit);
+
+      const rows: ArticleWithAuthor[] = [];
+      for (const article of after.slice(offset, offset + query.limit + 1)) {
+        const row = await articles.findById(article.id);
+        if (row) {
+          rows.push(row);
+        }
+      }
+      return buildFeedPage(rows, query, published.length);
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import type { Repositories } from "../types.js";
+import { createMemoryArticleRepository } from "./articles.js";
+import { createMemoryAuditLogRepository } from "./audit-log.js";
+import { createMemoryBookmarkRepository } from "./bookmarks.js";
+import { createMemoryCategoryRepository } from "./categories.js";
+import { createMemoryCommentRepository } from "./comments.js";
+import { createMemoryFollowRepository } from "./follows.js";
+import { createMemoryLikeRepository } from "./likes.js";
+import { createMemoryNotificationRepository } from "./notifications.js";
+import { createMemoryRefreshTokenRepository } from "./refresh-tokens.js";
+import { createMemoryRevisionRepository } from "./revisions.js";
+import { createMemoryStore, type MemoryStore } from "./store.js";
+import { createMemoryTagRepository } from "./tags.js";
+import { createMemoryUploadRepository } from "./uploads.js";
+import { createMemoryUserTokenRepository } from "./user-tokens.js";
+import { createMemoryUserRepository } from "./users.js";
+
+export { createMemoryStore, type MemoryStore } from "./store.js";
+
+// In-process repositories for tests and running the API without MySQL
+export function createMemoryRepositories(
+  store: MemoryStore = createMemoryStore()
+): Repositories {
+  return {
+    users: createMemoryUserRepository(store),
+    articles: createMemoryArticleRepository(store),
+    revisions: createMemoryRevisionRepository(store),
+    categories: createMemoryCategoryRepository(store),
+    tags: createMemoryTagRepository(store),
+    comments: createMemoryCommentRepository(store),
+    likes: createMemoryLikeRepository(store),
+    bookmarks: createMemoryBookmarkRepository(store),
+    follows: createMemoryFollowRepository(store),
+    notifications: createMemoryNotificationRepository(store),
+    auditLog: createMemoryAuditLogRepository(store),
+    uploads: createMemoryUploadRepository(store),
+    refreshTokens: createMemoryRefreshTokenRepository(store),
+    userTokens: createMemoryUserTokenRepository(store),
+  };
+}
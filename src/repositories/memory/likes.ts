@@ -0,0 +1,32 @@
+import type { LikeRepository } from "../types.js";
+import { isReaction, type MemoryStore } from "./store.js";
+
+export function createMemoryLikeRepository(store: MemoryStore): LikeRepository {
+  return {
+    async add(articleId, userId) {
+      if (store.articleLikes.some(isReaction(articleId, userId))) {
+        return false;
+      }
+      store.articleLikes.push({
+        article_id: articleId,
+        user_id: userId,
+        created_at: new Date(),
+      });
+      return true;
+    },
+
+    async remove(articleId, userId) {
+      const index = store.articleLikes.findIndex(isReaction(articleId, userId));
+      if (index === -1) {
+        return false;
+      }
+      store.articleLikes.splice(index, 1);
+      return true;
+    },
+
+    async count(articleId) {
+      return store.articleLikes.filter((like) => like.article_id === articleId)
+        .length;
+    },
+  };
+}
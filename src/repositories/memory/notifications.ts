@@ -0,0 +1,126 @@
+import type {
+  Notification,
+  NotificationPreferences,
+  NotificationWithActor,
+} from "../../interfaces.js";
+import { NOTIFICATION_TYPES } from "../../notifications/index.js";
+import { pageOffset } from "../../utils/pagination.js";
+import type { NotificationRepository } from "../types.js";
+import { nextId, type MemoryStore } from "./store.js";
+
+export function createMemoryNotificationRepository(
+  store: MemoryStore
+): NotificationRepository {
+  // Actor name and article title, like the joins of the MySQL repository
+  function withActor(notification: Notification): NotificationWithActor {
+    const actor = store.users.find((user) => user.id === notification.actor_id);
+    const article = store.articles.find(
+      (article) => article.id === notification.article_id
+    );
+    return {
+      ...notification,
+      actor_username: actor?.username ?? "",
+      article_title: article?.title ?? null,
+    };
+  }
+
+  function unread(userId: number) {
+    return store.notifications.filter(
+      (notification) =>
+        notification.user_id === userId && notification.read_at === null
+    );
+  }
+
+  return {
+    async list(userId, query) {
+      const notifications = store.notifications
+        .filter(
+          (notification) =>
+            notification.user_id === userId &&
+            (!query.unread || notification.read_at === null)
+        )
+        .sort((a, b) => b.id - a.id);
+
+      const offset = pageOffset(query.page, query.limit);
+      return {
+        data: notifications.slice(offset, offset + query.limit).map(withActor),
+        meta: {
+          total: notifications.length,
+          limit: query.limit,
+          page: query.page ?? 1,
+          nextCursor: null,
+        },
+      };
+    },
+
+    async countUnread(userId) {
+      return unread(userId).length;
+    },
+
+    async create(newNotification) {
+      const notification: Notification = {
+        id: nextId(store, "notifications"),
+        ...newNotification,
+        read_at: null,
+        created_at: new Date(),
+      };
+      store.notifications.push(notification);
+      return withActor(notification);
+    },
+
+    async markRead(id, userId) {
+      const notification = store.notifications.find(
+        (notification) =>
+          notification.id === id && notification.user_id === userId
+      );
+      if (!notification) {
+        return false;
+      }
+      notification.read_at ??= new Date();
+      return true;
+    },
+
+    async markAllRead(userId) {
+      const notifications = unread(userId);
+      const now = new Date();
+      for (const notification of notifications) {
+        notification.read_at = now;
+      }
+      return notifications.length;
+    },
+
+    async getPreferences(userId) {
+      return Object.fromEntries(
+        NOTIFICATION_TYPES.map((type) => [
+          type,
+          store.notificationPreferences.find(
+            (preference) =>
+              preference.user_id === userId && preference.type === type
+          )?.enabled ?? true,
+        ])
+      ) as NotificationPreferences;
+    },
+
+    async updatePreferences(userId, changes) {
+      for (const type of NOTIFICATION_TYPES) {
+        const enabled = changes[type];
+        if (enabled === undefined) {
+          continue;
+        }
+        const preference = store.notificationPreferences.find(
+          (preference) =>
+            preference.user_id === userId && preference.type === type
+        );
+        if (preference) {
+          preference.enabled = enabled;
+        } else {
+          store.notificationPreferences.push({
+            user_id: userId,
+            type,
+            enabled,
+          });
+        }
+      }
+    },
+  };
+}
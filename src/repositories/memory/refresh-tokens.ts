@@ -0,0 +1,61 @@
+import type { RefreshTokenRepository } from "../types.js";
+import { nextId, type MemoryStore } from "./store.js";
+
+export function createMemoryRefreshTokenRepository(
+  store: MemoryStore
+): RefreshTokenRepository {
+  function revokeWhere(
+    matches: (token: MemoryStore["refreshTokens"][number]) => boolean
+  ) {
+    const now = new Date();
+    for (const token of store.refreshTokens) {
+      if (matches(token) && !token.revoked_at) {
+        token.revoked_at = now;
+      }
+    }
+  }
+
+  return {
+    async create(token) {
+      store.refreshTokens.push({
+        id: nextId(store, "refreshTokens"),
+        ...token,
+        used_at: null,
+        revoked_at: null,
+      });
+    },
+
+    async findByHash(tokenHash) {
+      const token = store.refreshTokens.find(
+        (token) => token.token_hash === tokenHash
+      );
+      return token ? { ...token } : null;
+    },
+
+    async markUsed(id) {
+      const token = store.refreshTokens.find((token) => token.id === id);
+      if (!token || token.used_at) {
+        return false;
+      }
+      token.used_at = new Date();
+      return true;
+    },
+
+    async revokeFamily(familyId) {
+      revokeWhere((token) => token.family_id === familyId);
+    },
+
+    async revokeAllForUser(userId) {
+      revokeWhere((token) => token.user_id === userId);
+    },
+
+    async hasActiveToken(familyId, userId) {
+      return store.refreshTokens.some(
+        (token) =>
+          token.family_id === familyId &&
+          token.user_id === userId &&
+          !token.revoked_at
+      );
+    },
+  };
+}
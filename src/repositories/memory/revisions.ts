@@ -0,0 +1,53 @@
+import type { ArticleRevision } from "../../interfaces.js";
+import { pageOffset } from "../../utils/pagination.js";
+import type { RevisionRepository } from "../types.js";
+import type { MemoryStore, StoredArticleRevision } from "./store.js";
+
+export function createMemoryRevisionRepository(
+  store: MemoryStore
+): RevisionRepository {
+  // Category slug and editor name in place of the stored ids
+  function withRelations(revision: StoredArticleRevision): ArticleRevision {
+    const { id, category_id, ...rest } = revision;
+    const category = store.categories.find(
+      (category) => category.id === category_id
+    );
+    const editor = store.users.find((user) => user.id === revision.edited_by);
+    return {
+      ...rest,
+      category: category?.slug ?? null,
+      editor_username: editor?.username ?? null,
+    };
+  }
+
+  return {
+    async list(articleId, query) {
+      const revisions = store.articleRevisions
+        .filter((revision) => revision.article_id === articleId)
+        .sort((a, b) => b.revision - a.revision);
+
+      const offset = pageOffset(query.page, query.limit);
+      return {
+        data: revisions.slice(offset, offset + query.limit).map((revision) => {
+          const { body, ...summary } = withRelations(revision);
+          return summary;
+        }),
+        meta: {
+          total: revisions.length,
+          limit: query.limit,
+          page: query.page ?? 1,
+          nextCursor: null,
+        },
+      };
+    },
+
+    async find(articleId, revisionNumber) {
+      const revision = store.articleRevisions.find(
+        (revision) =>
+          revision.article_id === articleId &&
+          revision.revision === revisionNumber
+      );
+      return revision ? withRelations(revision) : null;
+    },
+  };
+}
@@ -0,0 +1,222 @@
+import type {
+  Article,
+  AuditEntry,
+  Category,
+  Comment,
+  Notification,
+  RefreshToken,
+  Tag,
+  Upload,
+  User,
+  UserToken,
+} from "../../interfaces.js";
+import type { NotificationType } from "../../notifications/index.js";
+
+// Stored users always carry their password hash
+export type StoredUser = User & { password: string; created_at: Date };
+
+// Articles reference their category by id, like the articles table
+export type StoredArticle = Omit<Article, "category" | "tags"> & {
+  category_id: number | null;
+};
+
+export interface StoredArticleTag {
+  article_id: number;
+  tag_id: number;
+}
+
+// Revisions reference their category by id, like article_revisions
+export interface StoredArticleRevision {
+  id: number;
+  article_id: number;
+  revision: number;
+  title: string;
+  body: string;
+  category_id: number | null;
+  edited_by: number | null;
+  created_at: Date;
+}
+
+// Row of article_likes or bookmarks
+export interface StoredArticleReaction {
+  article_id: number;
+  user_id: number;
+  created_at: Date;
+}
+
+// Row of follows
+export interface StoredFollow {
+  follower_id: number;
+  followed_id: number;
+  created_at: Date;
+}
+
+// Row of notification_preferences
+export interface StoredNotificationPreference {
+  user_id: number;
+  type: NotificationType;
+  enabled: boolean;
+}
+
+// Plain arrays standing in for the MySQL tables
+export interface MemoryStore {
+  users: StoredUser[];
+  articles: StoredArticle[];
+  categories: Category[];
+  tags: Tag[];
+  articleTags: StoredArticleTag[];
+  articleRevisions: StoredArticleRevision[];
+  comments: Comment[];
+  articleLikes: StoredArticleReaction[];
+  bookmarks: StoredArticleReaction[];
+  follows: StoredFollow[];
+  notifications: Notification[];
+  notificationPreferences: StoredNotificationPreference[];
+  auditLog: AuditEntry[];
+  uploads: Upload[];
+  refreshTokens: RefreshToken[];
+  userTokens: UserToken[];
+  sequences: Record<
+    | "users"
+    | "articles"
+    | "articleRevisions"
+    | "categories"
+    | "tags"
+    | "comments"
+    | "notifications"
+    | "auditLog"
+    | "uploads"
+    | "refreshTokens"
+    | "userTokens",
+    number
+  >;
+}
+
+export function createMemoryStore(): MemoryStore {
+  return {
+    users: [],
+    articles: [],
+    categories: [],
+    tags: [],
+    articleTags: [],
+    articleRevisions: [],
+    comments: [],
+    articleLikes: [],
+    bookmarks: [],
+    follows: [],
+    notifications: [],
+    notificationPreferences: [],
+    auditLog: [],
+    uploads: [],
+    refreshTokens: [],
+    userTokens: [],
+    sequences: {
+      users: 0,
+      articles: 0,
+      articleRevisions: 0,
+      categories: 0,
+      tags: 0,
+      comments: 0,
+      notifications: 0,
+      auditLog: 0,
+      uploads: 0,
+      refreshTokens: 0,
+      userTokens: 0,
+    },
+  };
+}
+
+// Drop rows pointing at deleted users or articles, like ON DELETE CASCADE.
+// Revisions only forget their editor, like ON DELETE SET NULL.
+export function pruneOrphans(store: MemoryStore) {
+  const userIds = new Set(store.users.map((user) => user.id));
+  const articleIds = new Set(store.articles.map((article) => article.id));
+  store.articleTags = store.articleTags.filter((link) =>
+    articleIds.has(link.article_id)
+  );
+  store.articleRevisions = store.articleRevisions.filter((revision) =>
+    articleIds.has(revision.article_id)
+  );
+  store.uploads = store.uploads.filter(
+    (upload) =>
+      userIds.has(upload.user_id) &&
+      (upload.article_id === null || articleIds.has(upload.article_id))
+  );
+  for (const revision of store.articleRevisions) {
+    if (revision.edited_by !== null && !userIds.has(revision.edited_by)) {
+      revision.edited_by = null;
+    }
+  }
+  store.follows = store.follows.filter(
+    (follow) =>
+      userIds.has(follow.follower_id) && userIds.has(follow.followed_id)
+  );
+  for (const table of ["articleLikes", "bookmarks"] as const) {
+    store[table] = store[table].filter(
+      (reaction) =>
+        userIds.has(reaction.user_id) && articleIds.has(reaction.article_id)
+    );
+  }
+
+  // Parents are stored before their replies, so one pass drops whole threads
+  const commentIds = new Set<number>();
+  store.comments = store.comments.filter((comment) => {
+    const keep =
+      userIds.has(comment.user_id) &&
+      articleIds.has(comment.article_id) &&
+      (comment.parent_id === null || commentIds.has(comment.parent_id));
+    if (keep) {
+      commentIds.add(comment.id);
+    }
+    return keep;
+  });
+
+  store.notifications = store.notifications.filter(
+    (notification) =>
+      userIds.has(notification.user_id) &&
+      userIds.has(notification.actor_id) &&
+      (notification.article_id === null ||
+        articleIds.has(notification.article_id)) &&
+      (notification.comment_id === null ||
+        commentIds.has(notification.comment_id))
+  );
+  store.notificationPreferences = store.notificationPreferences.filter(
+    (preference) => userIds.has(preference.user_id)
+  );
+}
+
+// The cover of an article or avatar of a user, at most one each like the
+// unique keys on uploads
+export function findImage(
+  store: MemoryStore,
+  kind: "cover" | "avatar",
+  ownerId: number
+) {
+  return store.uploads.find(
+    (upload) =>
+      upload.kind === kind &&
+      (kind === "cover" ? upload.article_id : upload.user_id) === ownerId
+  );
+}
+
+// Finds the like or bookmark of a user on an article
+export function isReaction(articleId: number, userId: number) {
+  return (reaction: StoredArticleReaction) =>
+    reaction.article_id === articleId && reaction.user_id === userId;
+}
+
+export function nextId(
+  store: MemoryStore,
+  table: keyof MemoryStore["sequences"]
+) {
+  store.sequences[table] += 1;
+  return store.sequences[table];
+}
+
+// Mirrors the error mysql2 raises for a unique key violation
+export function duplicateEntryError(value: string, key: string) {
+  return Object.assign(
+    new Error(`Duplicate entry '${value}' for key '${key}'`),
+    { code: "ER_DUP_ENTRY", errno: 1062 }
+  );
+}
@@ -0,0 +1,87 @@
+import type { Tag, TagWithCount } from "../../interfaces.js";
+import type { TagRepository } from "../types.js";
+import { duplicateEntryError, nextId, type MemoryStore } from "./store.js";
+
+export function createMemoryTagRepository(store: MemoryStore): TagRepository {
+  const find = (id: number) => store.tags.find((tag) => tag.id === id);
+  const findBySlug = (slug: string) =>
+    store.tags.find((tag) => tag.slug === slug);
+
+  // Same unique key as the tags table
+  function assertUnique(id: number, slug?: string) {
+    if (
+      slug !== undefined &&
+      store.tags.some((tag) => tag.id !== id && tag.slug === slug)
+    ) {
+      throw duplicateEntryError(slug, "tags.tags_slug_unique");
+    }
+  }
+
+  function withCount(tag: Tag): TagWithCount {
+    return {
+      ...tag,
+      article_count: store.articleTags.filter(
+        (link) =>
+          link.tag_id === tag.id &&
+          store.articles.some(
+            (article) =>
+              article.id === link.article_id && article.status === "published"
+          )
+      ).length,
+    };
+  }
+
+  function insert(newTag: Pick<Tag, "name" | "slug">) {
+    assertUnique(0, newTag.slug);
+    const tag: Tag = {
+      id: nextId(store, "tags"),
+      ...newTag,
+      created_at: new Date(),
+    };
+    store.tags.push(tag);
+    return tag;
+  }
+
+  return {
+    async list() {
+      return [...store.tags]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(withCount);
+    },
+
+    async findBySlug(slug) {
+      const tag = findBySlug(slug);
+      return tag ? withCount(tag) : null;
+    },
+
+    async create(newTag) {
+      return { ...insert(newTag) };
+    },
+
+    async findOrCreate(tags) {
+      return tags.map((tag) => ({ ...(findBySlug(tag.slug) ?? insert(tag)) }));
+    },
+
+    async update(id, changes) {
+      const tag = find(id);
+      if (!tag) {
+        return false;
+      }
+      assertUnique(id, changes.slug);
+      Object.assign(tag, changes);
+      return true;
+    },
+
+    async delete(id) {
+      const index = store.tags.findIndex((tag) => tag.id === id);
+      if (index === -1) {
+        return false;
+      }
+      store.tags.splice(index, 1);
+      store.articleTags = store.articleTags.filter(
+        (link) => link.tag_id !== id
+      );
+      return true;
+    },
+  };
+}
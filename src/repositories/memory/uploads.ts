@@ -0,0 +1,76 @@
+import type { Upload } from "../../interfaces.js";
+import type { UploadRepository } from "../types.js";
+import { findImage, nextId, type MemoryStore } from "./store.js";
+
+export function createMemoryUploadRepository(
+  store: MemoryStore
+): UploadRepository {
+  function remove(upload: Upload) {
+    store.uploads = store.uploads.filter((stored) => stored !== upload);
+  }
+
+  return {
+    async create(newUpload) {
+      // Same unique keys as the generated columns of the uploads table
+      let replaced: Upload | null = null;
+      if (newUpload.kind === "cover" && newUpload.article_id !== null) {
+        replaced = findImage(store, "cover", newUpload.article_id) ?? null;
+      } else if (newUpload.kind === "avatar") {
+        replaced = findImage(store, "avatar", newUpload.user_id) ?? null;
+      }
+      if (replaced) {
+        remove(replaced);
+      }
+
+      const upload: Upload = {
+        id: nextId(store, "uploads"),
+        ...newUpload,
+        created_at: new Date(),
+      };
+      store.uploads.push(upload);
+      return { upload, replaced };
+    },
+
+    async findById(id) {
+      return store.uploads.find((upload) => upload.id === id) ?? null;
+    },
+
+    async findCover(articleId) {
+      return findImage(store, "cover", articleId) ?? null;
+    },
+
+    async findAvatar(userId) {
+      return findImage(store, "avatar", userId) ?? null;
+    },
+
+    async listForArticle(articleId, kind) {
+      return store.uploads.filter(
+        (upload) =>
+          upload.article_id === articleId &&
+          (kind === undefined || upload.kind === kind)
+      );
+    },
+
+    async listForUser(userId) {
+      const articleIds = new Set(
+        store.articles
+          .filter((article) => article.submitted_by === userId)
+          .map((article) => article.id)
+      );
+      return store.uploads.filter(
+        (upload) =>
+          upload.user_id === userId ||
+          (upload.article_id !== null && articleIds.has(upload.article_id))
+      );
+    },
+
+    async delete(id) {
+      const upload = store.uploads.find((upload) => upload.id === id);
+      if (!upload) {
+        return false;
+      }
+      remove(upload);
+      return true;
+    },
+  };
+}
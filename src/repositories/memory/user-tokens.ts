@@ -0,0 +1,45 @@
+import type { UserTokenRepository } from "../types.js";
+import { nextId, type MemoryStore } from "./store.js";
+
+export function createMemoryUserTokenRepository(
+  store: MemoryStore
+): UserTokenRepository {
+  return {
+    async create(token) {
+      store.userTokens.push({
+        id: nextId(store, "userTokens"),
+        ...token,
+        used_at: null,
+      });
+    },
+
+    async findByHash(tokenHash, purpose) {
+      const token = store.userTokens.find(
+        (token) => token.token_hash === tokenHash && token.purpose === purpose
+      );
+      return token ? { ...token } : null;
+    },
+
+    async markUsed(id) {
+      const token = store.userTokens.find((token) => token.id === id);
+      if (!token || token.used_at) {
+        return false;
+      }
+      token.used_at = new Date();
+      return true;
+    },
+
+    async invalidateForUser(userId, purpose) {
+      const now = new Date();
+      for (const token of store.userTokens) {
+        if (
+          token.user_id === userId &&
+          token.purpose === purpose &&
+          !token.used_at
+        ) {
+          token.used_at = now;
+        }
+      }
+    },
+  };
+}
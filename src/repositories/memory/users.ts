@@ -0,0 +1,152 @@
+import type { UserResponse } from "../../interfaces.js";
+import { DEFAULT_ROLE } from "../../utils/permissions.js";
+import type { UserRepository } from "../types.js";
+import {
+  duplicateEntryError,
+  findImage,
+  nextId,
+  pruneOrphans,
+  type MemoryStore,
+  type StoredUser,
+} from "./store.js";
+
+export function createMemoryUserRepository(store: MemoryStore): UserRepository {
+  const find = (id: number) => store.users.find((user) => user.id === id);
+
+  function toResponse(user: StoredUser): UserResponse {
+    const avatar = findImage(store, "avatar", user.id);
+    return {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      avatar_url: avatar?.url ?? null,
+      avatar_thumbnail_url: avatar?.thumbnail_url ?? null,
+    };
+  }
+
+  // Same unique keys as the users table
+  function assertUnique(id: number, username?: string, email?: string) {
+    for (const user of store.users) {
+      if (user.id === id) {
+        continue;
+      }
+      if (username !== undefined && user.username === username) {
+        throw duplicateEntryError(username, "users.users_username_unique");
+      }
+      if (email !== undefined && user.email === email) {
+        throw duplicateEntryError(email, "users.users_email_unique");
+      }
+    }
+  }
+
+  return {
+    async findAll() {
+      return store.users.map(toResponse);
+    },
+
+    async findById(id) {
+      const user = find(id);
+      return user ? toResponse(user) : null;
+    },
+
+    async findRole(id) {
+      return find(id)?.role ?? null;
+    },
+
+    async findByEmail(email) {
+      const user = store.users.find((user) => user.email === email);
+      return user
+        ? {
+            id: user.id,
+            username: user.username,
+            email: user.email,
+            password: user.password,
+            role: user.role,
+            email_verified_at: user.email_verified_at ?? null,
+          }
+        : null;
+    },
+
+    async findPasswordHash(id) {
+      return find(id)?.password ?? null;
+    },
+
+    async existsWithEmailOrUsername(email, username) {
+      return store.users.some(
+        (user) => user.email === email || user.username === username
+      );
+    },
+
+    async create(newUser) {
+      assertUnique(0, newUser.username, newUser.email);
+      const user: StoredUser = {
+        id: nextId(store, "users"),
+        ...newUser,
+        role: DEFAULT_ROLE,
+        created_at: new Date(),
+      };
+      store.users.push(user);
+      return toResponse(user);
+    },
+
+    async update(id, changes) {
+      const user = find(id);
+      if (!user) {
+        return false;
+      }
+      assertUnique(id, changes.username, changes.email);
+      if (changes.email !== undefined && changes.email !== user.email) {
+        user.email_verified_at = null;
+      }
+      Object.assign(user, changes);
+      return true;
+    },
+
+    async updateRole(id, role) {
+      const user = find(id);
+      if (!user) {
+        return false;
+      }
+      user.role = role;
+      return true;
+    },
+
+    async updatePassword(id, passwordHash) {
+      const user = find(id);
+      if (!user) {
+        return false;
+      }
+      user.password = passwordHash;
+      return true;
+    },
+
+    async markEmailVerified(id) {
+      const user = find(id);
+      if (!user) {
+        return false;
+      }
+      user.email_verified_at ??= new Date();
+      return true;
+    },
+
+    async delete(id) {
+      const index = store.users.findIndex((user) => user.id === id);
+      if (index === -1) {
+        return false;
+      }
+      store.users.splice(index, 1);
+      // Foreign keys cascade from users
+      store.articles = store.articles.filter(
+        (article) => article.submitted_by !== id
+      );
+      pruneOrphans(store);
+      store.refreshTokens = store.refreshTokens.filter(
+        (token) => token.user_id !== id
+      );
+      store.userTokens = store.userTokens.filter(
+        (token) => token.user_id !== id
+      );
+      return true;
+    },
+  };
+}
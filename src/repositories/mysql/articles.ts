@@ -0,0 +1,474 @@
+import type { Pool, PoolConnection, ResultSetHeader } from "mysql2/promise";
+import type { Article, ArticleWithAuthor } from "../../interfaces.js";
+import { highlight, searchTerms, snippet } from "../../utils/highlight.js";
+import { excerpt, readingTime } from "../../utils/markdown.js";
+import { pageOffset } from "../../utils/pagination.js";
+import { buildArticlePage, SORT_COLUMNS } from "../article-paging.js";
+import type { ArticleRepository } from "../types.js";
+import {
+  POPULARITY_GRAVITY,
+  POPULARITY_WEIGHTS,
+} from "../../utils/popularity.js";
+
+export const ARTICLE_WITH_AUTHOR_COLUMNS = `
+  articles.id,
+  articles.title,
+  articles.body,
+  articles.submitted_by,
+  articles.created_at,
+  articles.status,
+  articles.publish_at,
+  articles.published_at,
+  users.username,
+  users.email,
+  categories.slug AS category,
+  (
+    SELECT GROUP_CONCAT(tags.slug ORDER BY tags.slug SEPARATOR ',')
+    FROM article_tags
+    INNER JOIN tags ON tags.id = article_tags.tag_id
+    WHERE article_tags.article_id = articles.id
+  ) AS tags,
+  (
+    SELECT COUNT(*) FROM article_likes
+    WHERE article_likes.article_id = articles.id
+  ) AS like_count,
+  covers.url AS cover_url,
+  covers.thumbnail_url AS cover_thumbnail_url
+`;
+
+export const ARTICLE_WITH_AUTHOR_JOINS = `
+  INNER JOIN users ON articles.submitted_by = users.id
+  LEFT JOIN categories ON categories.id = articles.category_id
+  LEFT JOIN uploads covers ON covers.cover_article_id = articles.id
+`;
+
+// Rows carry the tag slugs concatenated, see ARTICLE_WITH_AUTHOR_COLUMNS.
+// Excerpt and reading time are derived from the body afterwards.
+export type WithTagString<T> = Omit<T, "tags" | "excerpt" | "reading_time"> & {
+  tags: string | null;
+};
+
+// Slugs can't contain commas, so the concatenated tags split safely
+function withTagList<T>(row: WithTagString<T>) {
+  return { ...row, tags: row.tags ? row.tags.split(",") : [] };
+}
+
+// Article rows with author also carry a like count, which COUNT returns
+// as a string for big integers
+export function toArticleWithAuthor<T extends ArticleWithAuthor>(
+  row: WithTagString<T>
+) {
+  return {
+    ...withTagList(row),
+    like_count: Number(row.like_count),
+    excerpt: excerpt(row.body),
+    reading_time: readingTime(row.body),
+  };
+}
+
+// Same formula as popularityScore, see utils/popularity.ts
+const POPULARITY_SCORE = `(
+  (
+    ${POPULARITY_WEIGHTS.likes} * (SELECT COUNT(*) FROM article_likes WHERE article_likes.article_id = articles.id)
+    + ${POPULARITY_WEIGHTS.bookmarks} * (SELECT COUNT(*) FROM bookmarks WHERE bookmarks.article_id = articles.id)
+    + ${POPULARITY_WEIGHTS.comments} * (SELECT COUNT(*) FROM comments WHERE comments.article_id = articles.id AND comments.deleted_at IS NULL)
+    + 1
+  ) / POW(GREATEST(TIMESTAMPDIFF(SECOND, articles.created_at, NOW()), 0) / 3600 + 2, ${POPULARITY_GRAVITY})
+)`;
+
+// Published articles, or any article of the user given as parameter
+export const VISIBLE_TO_USER_CONDITION =
+  "(articles.status = 'published' OR articles.submitted_by = ?)";
+
+const CATEGORY_SLUG_CONDITION =
+  "articles.category_id = (SELECT id FROM categories WHERE slug = ?)";
+
+const TAG_SLUG_CONDITION = `EXISTS (
+  SELECT 1 FROM article_tags
+  INNER JOIN tags ON tags.id = article_tags.tag_id
+  WHERE article_tags.article_id = articles.id AND tags.slug = ?
+)`;
+
+async function replaceTags(
+  connection: PoolConnection,
+  articleId: number,
+  tagIds: number[]
+) {
+  await connection.execute("DELETE FROM article_tags WHERE article_id = ?", [
+    articleId,
+  ]);
+  const unique = [...new Set(tagIds)];
+  if (unique.length > 0) {
+    await connection.execute(
+      `INSERT INTO article_tags (article_id, tag_id) VALUES ${unique
+        .map(() => "(?, ?)")
+        .join(", ")}`,
+      unique.flatMap((tagId) => [articleId, tagId])
+    );
+  }
+}
+
+// Run the statements of one write in a transaction
+export async function inTransaction<T>(
+  pool: Pool,
+  work: (connection: PoolConnection) => Promise<T>
+) {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const result = await work(connection);
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
+export function createMySqlArticleRepository(pool: Pool): ArticleRepository {
+  return {
+    // One page of articles with user info, honouring filters, sort and paging
+    async list(query, viewerId) {
+      const conditions: string[] = [];
+      const values: (string | number | Date)[] = [];
+
+      if (viewerId === null) {
+        conditions.push("articles.status = 'published'");
+      } else {
+        conditions.push(VISIBLE_TO_USER_CONDITION);
+        values.push(viewerId);
+      }
+      if (query.status) {
+        conditions.push("articles.status = ?");
+        values.push(query.status);
+      }
+
+      if (query.category) {
+        conditions.push(CATEGORY_SLUG_CONDITION);
+        values.push(query.category);
+      }
+      if (query.tag) {
+        conditions.push(TAG_SLUG_CONDITION);
+        values.push(query.tag);
+      }
+      if (query.submitted_by) {
+        conditions.push("articles.submitted_by = ?");
+        values.push(query.submitted_by);
+      }
+      if (query.created_after) {
+        conditions.push("articles.created_at >= ?");
+        values.push(query.created_after);
+      }
+      if (query.created_before) {
+        conditions.push("articles.created_at <= ?");
+        values.push(query.created_before);
+      }
+
+      const filterSql = conditions.length
+        ? `WHERE ${conditions.join(" AND ")}`
+        : "";
+
+      const [countRows] = await pool.execute(
+        `SELECT COUNT(*) AS total FROM articles ${filterSql}`,
+        values
+      );
+      const total = Number((countRows as { total: number }[])[0]?.total ?? 0);
+
+      const pageConditions = [...conditions];
+      const pageValues = [...values];
+      let orderSql = `${POPULARITY_SCORE} DESC, articles.id DESC`;
+      if (query.sort !== "popular") {
+        const { column, direction } = SORT_COLUMNS[query.sort];
+        orderSql = `articles.${column} ${direction}, articles.id ${direction}`;
+
+        // Keyset condition: rows strictly after the cursor, id breaks ties
+        if (query.cursor) {
+          const operator = direction === "DESC" ? "<" : ">";
+          const after =
+            column === "created_at"
+              ? new Date(query.cursor.value)
+              : query.cursor.value;
+          pageConditions.push(
+            `(articles.${column} ${operator} ? OR (articles.${column} = ? AND articles.id ${operator} ?))`
+          );
+          pageValues.push(after, after, query.cursor.id);
+        }
+      }
+
+      const pageSql = pageConditions.length
+        ? `WHERE ${pageConditions.join(" AND ")}`
+        : "";
+      const offset = pageOffset(query.page, query.limit);
+
+      // limit and offset are validated integers, safe to inline
+      const [rows] = await pool.execute(
+        `
+          SELECT ${ARTICLE_WITH_AUTHOR_COLUMNS}
+          FROM articles
+          ${ARTICLE_WITH_AUTHOR_JOINS}
+          ${pageSql}
+          ORDER BY ${orderSql}
+          LIMIT ${query.limit + 1} OFFSET ${offset}
+        `,
+        pageValues
+      );
+
+      return buildArticlePage(
+        (rows as WithTagString<ArticleWithAuthor>[]).map(toArticleWithAuthor),
+        query,
+        total
+      );
+    },
+
+    async listLatest(filter, limit) {
+      const conditions = ["articles.status = 'published'"];
+      const values: (string | number)[] = [];
+
+      if (filter.category) {
+        conditions.push(CATEGORY_SLUG_CONDITION);
+        values.push(filter.category);
+      }
+      if (filter.submitted_by) {
+        conditions.push("articles.submitted_by = ?");
+        values.push(filter.submitted_by);
+      }
+
+      // limit is a constant integer, safe to inline
+      const [rows] = await pool.execute(
+        `
+          SELECT ${ARTICLE_WITH_AUTHOR_COLUMNS}
+          FROM articles
+          ${ARTICLE_WITH_AUTHOR_JOINS}
+          WHERE ${conditions.join(" AND ")}
+          ORDER BY articles.published_at DESC, articles.id DESC
+          LIMIT ${limit}
+        `,
+        values
+      );
+
+      return (rows as WithTagString<ArticleWithAuthor>[]).map(
+        toArticleWithAuthor
+      );
+    },
+
+    // Full-text search over title and body, best matches first
+    async search(query) {
+      const conditions = [
+        "MATCH(articles.title, articles.body) AGAINST (? IN NATURAL LANGUAGE MODE)",
+        "articles.status = 'published'",
+      ];
+      const values: (string | number)[] = [query.q];
+
+      if (query.category) {
+        conditions.push(CATEGORY_SLUG_CONDITION);
+        values.push(query.category);
+      }
+
+      const whereSql = `WHERE ${conditions.join(" AND ")}`;
+
+      const [countRows] = await pool.execute(
+        `SELECT COUNT(*) AS total FROM articles ${whereSql}`,
+        values
+      );
+      const total = Number((countRows as { total: number }[])[0]?.total ?? 0);
+
+      const offset = pageOffset(query.page, query.limit);
+
+      // limit and offset are validated integers, safe to inline
+      const [rows] = await pool.execute(
+        `
+          SELECT
+            ${ARTICLE_WITH_AUTHOR_COLUMNS},
+            MATCH(articles.title, articles.body) AGAINST (? IN NATURAL LANGUAGE MODE) AS relevance
+          FROM articles
+          ${ARTICLE_WITH_AUTHOR_JOINS}
+          ${whereSql}
+          ORDER BY relevance DESC, articles.id DESC
+          LIMIT ${query.limit} OFFSET ${offset}
+        `,
+        [query.q, ...values]
+      );
+
+      const terms = searchTerms(query.q);
+      const data = (
+        rows as WithTagString<ArticleWithAuthor & { relevance: number }>[]
+      ).map((article) => ({
+        ...toArticleWithAuthor(article),
+        relevance: Number(article.relevance),
+        highlights: {
+          title: highlight(article.title, terms),
+          body: snippet(article.body, terms),
+        },
+      }));
+
+      return {
+        data,
+        meta: {
+          total,
+          limit: query.limit,
+          page: query.page ?? 1,
+          nextCursor: null,
+        },
+      };
+    },
+
+    async findById(id) {
+      const [rows] = await pool.execute(
+        `
+          SELECT ${ARTICLE_WITH_AUTHOR_COLUMNS}
+          FROM articles
+          ${ARTICLE_WITH_AUTHOR_JOINS}
+          WHERE articles.id = ?
+        `,
+        [id]
+      );
+      const article = (rows as WithTagString<ArticleWithAuthor>[])[0];
+      return article ? toArticleWithAuthor(article) : null;
+    },
+
+    async findOwnerId(id) {
+      const [rows] = await pool.execute(
+        "SELECT submitted_by FROM articles WHERE id = ?",
+        [id]
+      );
+      return (rows as Pick<Article, "submitted_by">[])[0]?.submitted_by ?? null;
+    },
+
+    async create(article) {
+      const id = await inTransaction(pool, async (connection) => {
+        const [result] = await connection.execute<ResultSetHeader>(
+          `
+            INSERT INTO articles
+              (title, body, submitted_by, category_id, status, publish_at, published_at)
+            VALUES (?, ?, ?, ?, ?, ?, IF(? = 'published', NOW(), NULL))
+          `,
+          [
+            article.title,
+            article.body,
+            article.submitted_by,
+            article.category_id,
+            article.status,
+            article.publish_at,
+            article.status,
+          ]
+        );
+        await replaceTags(connection, result.insertId, article.tag_ids);
+        return result.insertId;
+      });
+
+      const [rows] = await pool.execute(
+        `
+          SELECT
+            articles.id,
+            articles.title,
+            articles.body,
+            articles.submitted_by,
+            articles.created_at,
+            articles.status,
+            articles.publish_at,
+            articles.published_at,
+            categories.slug AS category,
+            (
+              SELECT GROUP_CONCAT(tags.slug ORDER BY tags.slug SEPARATOR ',')
+              FROM article_tags
+              INNER JOIN tags ON tags.id = article_tags.tag_id
+              WHERE article_tags.article_id = articles.id
+            ) AS tags
+          FROM articles
+          LEFT JOIN categories ON categories.id = articles.category_id
+          WHERE articles.id = ?
+        `,
+        [id]
+      );
+      return withTagList((rows as WithTagString<Article>[])[0]!);
+    },
+
+    async update(id, changes, editorId) {
+      return inTransaction(pool, async (connection) => {
+        // Locking the article numbers concurrent revisions one after another
+        const [locked] = await connection.execute(
+          "SELECT id FROM articles WHERE id = ? FOR UPDATE",
+          [id]
+        );
+        if ((locked as unknown[]).length === 0) {
+          return false;
+        }
+        await connection.execute(
+          `
+            INSERT INTO article_revisions
+              (article_id, revision, title, body, category_id, edited_by)
+            SELECT
+              id,
+              (
+                SELECT COALESCE(MAX(revision), 0) + 1
+                FROM article_revisions
+                WHERE article_id = ?
+              ),
+              title,
+              body,
+              category_id,
+              ?
+            FROM articles
+            WHERE id = ?
+          `,
+          [id, editorId, id]
+        );
+
+        const fields = ["title = ?", "body = ?"];
+        const values: (string | number | null)[] = [
+          changes.title,
+          changes.body,
+        ];
+        if (changes.category_id !== undefined) {
+          fields.push("category_id = ?");
+          values.push(changes.category_id);
+        }
+
+        await connection.execute(
+          `UPDATE articles SET ${fields.join(", ")} WHERE id = ?`,
+          [...values, id]
+        );
+        if (changes.tag_ids) {
+          await replaceTags(connection, id, changes.tag_ids);
+        }
+        return true;
+      });
+    },
+
+    async updateStatus(id, status, publishAt) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        `
+          UPDATE articles
+          SET
+            status = ?,
+            publish_at = ?,
+            published_at = IF(? = 'published', NOW(), published_at)
+          WHERE id = ?
+        `,
+        [status, publishAt, status, id]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async publishDue() {
+      const [result] = await pool.execute<ResultSetHeader>(
+        `
+          UPDATE articles
+          SET status = 'published', published_at = publish_at
+          WHERE status = 'scheduled' AND publish_at <= NOW()
+        `
+      );
+      return result.affectedRows;
+    },
+
+    async delete(id) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "DELETE FROM articles WHERE id = ?",
+        [id]
+      );
+      return result.affectedRows > 0;
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import type { Pool, ResultSetHeader } from "mysql2/promise";
+import type { AuditEntry, AuditEntryWithActor } from "../../interfaces.js";
+import { pageOffset } from "../../utils/pagination.js";
+import type { AuditLogRepository } from "../types.js";
+
+const AUDIT_ENTRY_WITH_ACTOR_SQL = `
+  SELECT
+    audit_log.id,
+    audit_log.actor_id,
+    audit_log.action,
+    audit_log.entity_type,
+    audit_log.entity_id,
+    audit_log.details,
+    audit_log.request_id,
+    audit_log.created_at,
+    actors.username AS actor_username
+  FROM audit_log
+  LEFT JOIN users actors ON actors.id = audit_log.actor_id
+`;
+
+export function createMySqlAuditLogRepository(pool: Pool): AuditLogRepository {
+  return {
+    async record(entry) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "INSERT INTO audit_log (actor_id, action, entity_type, entity_id, details, request_id) VALUES (?, ?, ?, ?, ?, ?)",
+        [
+          entry.actor_id,
+          entry.action,
+          entry.entity_type,
+          entry.entity_id,
+          entry.details === null ? null : JSON.stringify(entry.details),
+          entry.request_id,
+        ]
+      );
+      const [rows] = await pool.execute(
+        "SELECT * FROM audit_log WHERE id = ?",
+        [result.insertId]
+      );
+      return (rows as AuditEntry[])[0]!;
+    },
+
+    async list(query) {
+      const conditions: string[] = [];
+      const values: (string | number)[] = [];
+      for (const column of [
+        "actor_id",
+        "action",
+        "entity_type",
+        "entity_id",
+      ] as const) {
+        const value = query[column];
+        if (value !== undefined) {
+          conditions.push(`audit_log.${column} = ?`);
+          values.push(value);
+        }
+      }
+      const filterSql =
+        conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+      const [countRows] = await pool.execute(
+        `SELECT COUNT(*) AS total FROM audit_log ${filterSql}`,
+        values
+      );
+      const total = Number((countRows as { total: number }[])[0]?.total ?? 0);
+
+      const offset = pageOffset(query.page, query.limit);
+
+      // limit and offset are validated integers, safe to inline
+      const [rows] = await pool.execute(
+        `
+          ${AUDIT_ENTRY_WITH_ACTOR_SQL}
+          ${filterSql}
+          ORDER BY audit_log.id DESC
+          LIMIT ${query.limit} OFFSET ${offset}
+        `,
+        values
+      );
+
+      return {
+        data: rows as AuditEntryWithActor[],
+        meta: {
+          total,
+          limit: query.limit,
+          page: query.page ?? 1,
+          nextCursor: null,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import type { Pool, ResultSetHeader } from "mysql2/promise";
+import type { BookmarkedArticle } from "../../interfaces.js";
+import { pageOffset } from "../../utils/pagination.js";
+import type { BookmarkRepository } from "../types.js";
+import {
+  ARTICLE_WITH_AUTHOR_COLUMNS,
+  ARTICLE_WITH_AUTHOR_JOINS,
+  VISIBLE_TO_USER_CONDITION,
+  toArticleWithAuthor,
+  type WithTagString,
+} from "./articles.js";
+
+export function createMySqlBookmarkRepository(pool: Pool): BookmarkRepository {
+  return {
+    async add(articleId, userId) {
+      // The primary key makes bookmarking twice a no-op
+      const [result] = await pool.execute<ResultSetHeader>(
+        "INSERT IGNORE INTO bookmarks (article_id, user_id) VALUES (?, ?)",
+        [articleId, userId]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async remove(articleId, userId) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "DELETE FROM bookmarks WHERE article_id = ? AND user_id = ?",
+        [articleId, userId]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async listForUser(userId, query) {
+      const [countRows] = await pool.execute(
+        `
+          SELECT COUNT(*) AS total
+          FROM bookmarks
+          INNER JOIN articles ON articles.id = bookmarks.article_id
+          WHERE bookmarks.user_id = ? AND ${VISIBLE_TO_USER_CONDITION}
+        `,
+        [userId, userId]
+      );
+      const total = Number((countRows as { total: number }[])[0]?.total ?? 0);
+
+      const offset = pageOffset(query.page, query.limit);
+
+      // limit and offset are validated integers, safe to inline
+      const [rows] = await pool.execute(
+        `
+          SELECT ${ARTICLE_WITH_AUTHOR_COLUMNS}, bookmarks.created_at AS bookmarked_at
+          FROM bookmarks
+          INNER JOIN articles ON articles.id = bookmarks.article_id
+          ${ARTICLE_WITH_AUTHOR_JOINS}
+          WHERE bookmarks.user_id = ? AND ${VISIBLE_TO_USER_CONDITION}
+          ORDER BY bookmarks.created_at DESC, bookmarks.article_id DESC
+          LIMIT ${query.limit} OFFSET ${offset}
+        `,
+        [userId, userId]
+      );
+
+      return {
+        data: (rows as WithTagString<BookmarkedArticle>[]).map(
+          toArticleWithAuthor
+        ),
+        meta: {
+          total,
+          limit: query.limit,
+          page: query.page ?? 1,
+          nextCursor: null,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import type { Pool, ResultSetHeader } from "mysql2/promise";
+import type { Category, CategoryWithCount } from "../../interfaces.js";
+import type { CategoryRepository } from "../types.js";
+
+const CATEGORY_WITH_COUNT_SQL = `
+  SELECT
+    categories.id,
+    categories.name,
+    categories.slug,
+    categories.description,
+    categories.created_at,
+    COUNT(articles.id) AS article_count
+  FROM categories
+  LEFT JOIN articles
+    ON articles.category_id = categories.id AND articles.status = 'published'
+`;
+
+// COUNT comes back as a string for big integers
+function withNumericCount(row: CategoryWithCount): CategoryWithCount {
+  return { ...row, article_count: Number(row.article_count) };
+}
+
+export function createMySqlCategoryRepository(pool: Pool): CategoryRepository {
+  return {
+    async list() {
+      const [rows] = await pool.execute(
+        `${CATEGORY_WITH_COUNT_SQL} GROUP BY categories.id ORDER BY categories.name`
+      );
+      return (rows as CategoryWithCount[]).map(withNumericCount);
+    },
+
+    async findBySlug(slug) {
+      const [rows] = await pool.execute(
+        `${CATEGORY_WITH_COUNT_SQL} WHERE categories.slug = ? GROUP BY categories.id`,
+        [slug]
+      );
+      const row = (rows as CategoryWithCount[])[0];
+      return row ? withNumericCount(row) : null;
+    },
+
+    async create(category) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "INSERT INTO categories (name, slug, description) VALUES (?, ?, ?)",
+        [category.name, category.slug, category.description]
+      );
+      const [rows] = await pool.execute(
+        "SELECT id, name, slug, description, created_at FROM categories WHERE id = ?",
+        [result.insertId]
+      );
+      return (rows as Category[])[0]!;
+    },
+
+    async update(id, changes) {
+      const fields: string[] = [];
+      const values: (string | number | null)[] = [];
+      for (const column of ["name", "slug", "description"] as const) {
+        if (changes[column] !== undefined) {
+          fields.push(`${column} = ?`);
+          values.push(changes[column]);
+        }
+      }
+      if (fields.length === 0) {
+        const [rows] = await pool.execute(
+          "SELECT id FROM categories WHERE id = ?",
+          [id]
+        );
+        return (rows as { id: number }[]).length > 0;
+      }
+
+      const [result] = await pool.execute<ResultSetHeader>(
+        `UPDATE categories SET ${fields.join(", ")} WHERE id = ?`,
+        [...values, id]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async delete(id) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "DELETE FROM categories WHERE id = ?",
+        [id]
+      );
+      return result.affectedRows > 0;
+    },
+  };
+}
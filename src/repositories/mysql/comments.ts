@@ -0,0 +1,126 @@
+import type { Pool, ResultSetHeader } from "mysql2/promise";
+import type { CommentWithAuthor } from "../../interfaces.js";
+import { pageOffset } from "../../utils/pagination.js";
+import { buildCommentPage } from "../comment-paging.js";
+import type { CommentRepository } from "../types.js";
+
+const COMMENT_WITH_AUTHOR_SQL = `
+  SELECT
+    comments.id,
+    comments.article_id,
+    comments.root_id,
+    comments.parent_id,
+    comments.depth,
+    comments.user_id,
+    comments.body,
+    comments.created_at,
+    comments.updated_at,
+    comments.deleted_at,
+    users.username
+  FROM comments
+  INNER JOIN users ON users.id = comments.user_id
+`;
+
+// Top level comments of an article, deleted ones only while their thread
+// has live replies
+const VISIBLE_THREAD_CONDITIONS = [
+  "comments.article_id = ?",
+  "comments.parent_id IS NULL",
+  `(comments.deleted_at IS NULL OR EXISTS (
+    SELECT 1 FROM comments AS replies
+    WHERE replies.root_id = comments.id AND replies.deleted_at IS NULL
+  ))`,
+];
+
+export function createMySqlCommentRepository(pool: Pool): CommentRepository {
+  return {
+    async listThreads(articleId, query) {
+      const [countRows] = await pool.execute(
+        `SELECT COUNT(*) AS total FROM comments WHERE ${VISIBLE_THREAD_CONDITIONS.join(
+          " AND "
+        )}`,
+        [articleId]
+      );
+      const total = Number((countRows as { total: number }[])[0]?.total ?? 0);
+
+      const conditions = [...VISIBLE_THREAD_CONDITIONS];
+      const values: number[] = [articleId];
+      if (query.cursor) {
+        conditions.push("comments.id > ?");
+        values.push(query.cursor.id);
+      }
+      const offset = pageOffset(query.page, query.limit);
+
+      // limit and offset are validated integers, safe to inline
+      const [rows] = await pool.execute(
+        `
+          ${COMMENT_WITH_AUTHOR_SQL}
+          WHERE ${conditions.join(" AND ")}
+          ORDER BY comments.id
+          LIMIT ${query.limit + 1} OFFSET ${offset}
+        `,
+        values
+      );
+
+      return buildCommentPage(rows as CommentWithAuthor[], query, total);
+    },
+
+    async listReplies(rootIds) {
+      if (rootIds.length === 0) {
+        return [];
+      }
+      const [rows] = await pool.execute(
+        `
+          ${COMMENT_WITH_AUTHOR_SQL}
+          WHERE comments.root_id IN (${rootIds.map(() => "?").join(", ")})
+          ORDER BY comments.id
+        `,
+        rootIds
+      );
+      return rows as CommentWithAuthor[];
+    },
+
+    async findById(id) {
+      const [rows] = await pool.execute(
+        `${COMMENT_WITH_AUTHOR_SQL} WHERE comments.id = ?`,
+        [id]
+      );
+      return (rows as CommentWithAuthor[])[0] ?? null;
+    },
+
+    async create(comment) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "INSERT INTO comments (article_id, root_id, parent_id, depth, user_id, body) VALUES (?, ?, ?, ?, ?, ?)",
+        [
+          comment.article_id,
+          comment.root_id,
+          comment.parent_id,
+          comment.depth,
+          comment.user_id,
+          comment.body,
+        ]
+      );
+      const [rows] = await pool.execute(
+        `${COMMENT_WITH_AUTHOR_SQL} WHERE comments.id = ?`,
+        [result.insertId]
+      );
+      return (rows as CommentWithAuthor[])[0]!;
+    },
+
+    async update(id, body) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "UPDATE comments SET body = ?, updated_at = NOW() WHERE id = ? AND deleted_at IS NULL",
+        [body, id]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async softDelete(id) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "UPDATE comments SET deleted_at = NOW() WHERE id = ? AND deleted_at IS NULL",
+        [id]
+      );
+      return result.affectedRows > 0;
+    },
+  };
+}
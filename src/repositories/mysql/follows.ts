@@ -0,0 +1,145 @@
+import type { Pool, ResultSetHeader } from "mysql2/promise";
+import type { ArticleWithAuthor, FollowedUser } from "../../interfaces.js";
+import type { FollowListQuery } from "../../middleware/follow-validation.js";
+import { pageOffset } from "../../utils/pagination.js";
+import { buildFeedPage } from "../feed-paging.js";
+import type { FollowRepository } from "../types.js";
+import {
+  ARTICLE_WITH_AUTHOR_COLUMNS,
+  ARTICLE_WITH_AUTHOR_JOINS,
+  toArticleWithAuthor,
+  type WithTagString,
+} from "./articles.js";
+import { AVATAR_JOIN, USER_RESPONSE_COLUMNS } from "./users.js";
+
+const FEED_CONDITION = `
+  articles.status = 'published'
+  AND articles.submitted_by IN (
+    SELECT followed_id FROM follows WHERE follower_id = ?
+  )
+`;
+
+export function createMySqlFollowRepository(pool: Pool): FollowRepository {
+  // One page of the users on the other end of the user's follows. column
+  // is the user's side of the follow, other the side that gets listed.
+  async function listUsers(
+    userId: number,
+    column: "follower_id" | "followed_id",
+    other: "follower_id" | "followed_id",
+    query: FollowListQuery
+  ) {
+    const [countRows] = await pool.execute(
+      `SELECT COUNT(*) AS total FROM follows WHERE ${column} = ?`,
+      [userId]
+    );
+    const total = Number((countRows as { total: number }[])[0]?.total ?? 0);
+
+    const offset = pageOffset(query.page, query.limit);
+
+    // limit and offset are validated integers, safe to inline
+    const [rows] = await pool.execute(
+      `
+        SELECT ${USER_RESPONSE_COLUMNS}, follows.created_at AS followed_at
+        FROM follows
+        INNER JOIN users ON users.id = follows.${other}
+        ${AVATAR_JOIN}
+        WHERE follows.${column} = ?
+        ORDER BY follows.created_at DESC, follows.${other} DESC
+        LIMIT ${query.limit} OFFSET ${offset}
+      `,
+      [userId]
+    );
+
+    return {
+      data: rows as FollowedUser[],
+      meta: {
+        total,
+        limit: query.limit,
+        page: query.page ?? 1,
+        nextCursor: null,
+      },
+    };
+  }
+
+  return {
+    async add(followerId, followedId) {
+      // The primary key makes following twice a no-op
+      const [result] = await pool.execute<ResultSetHeader>(
+        "INSERT IGNORE INTO follows (follower_id, followed_id) VALUES (?, ?)",
+        [followerId, followedId]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async remove(followerId, followedId) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "DELETE FROM follows WHERE follower_id = ? AND followed_id = ?",
+        [followerId, followedId]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async counts(userId) {
+      const [rows] = await pool.execute(
+        `
+          SELECT
+            (SELECT COUNT(*) FROM follows WHERE followed_id = ?) AS followers,
+            (SELECT COUNT(*) FROM follows WHERE follower_id = ?) AS following
+        `,
+        [userId, userId]
+      );
+      const row = (rows as { followers: number; following: number }[])[0];
+      return {
+        followers: Number(row?.followers ?? 0),
+        following: Number(row?.following ?? 0),
+      };
+    },
+
+    async listFollowers(userId, query) {
+      return listUsers(userId, "followed_id", "follower_id", query);
+    },
+
+    async listFollowing(userId, query) {
+      return listUsers(userId, "follower_id", "followed_id", query);
+    },
+
+    async listFeed(userId, query) {
+      const [countRows] = await pool.execute(
+        `SELECT COUNT(*) AS total FROM articles WHERE ${FEED_CONDITION}`,
+        [userId]
+      );
+      const total = Number((countRows as { total: number }[])[0]?.total ?? 0);
+
+      const conditions = [FEED_CONDITION];
+      const values: (number | Date)[] = [userId];
+      // Keyset condition: rows strictly after the cursor, id breaks ties
+      if (query.cursor) {
+        const after = new Date(query.cursor.published_at);
+        conditions.push(
+          "(articles.published_at < ? OR (articles.published_at = ? AND articles.id < ?))"
+        );
+        values.push(after, after, query.cursor.id);
+      }
+      const offset = pageOffset(query.page, query.limit);
+
+      // limit and offset are validated integers, safe to inline
+      const [rows] = await pool.execute(
+        `
+          SELECT ${ARTICLE_WITH_AUTHOR_COLUMNS}
+          FROM articles
+          ${ARTICLE_WITH_AUTHOR_JOINS}
+          WHERE ${conditions.join(" AND ")}
+          ORDER BY articles.published_at DESC, articles.id DESC
+          LIMIT ${query.limit + 1} OFFSET ${offset}
+        `,
+        values
+      );
+
+      return buildFeedPage(
+        (rows as WithTagString<ArticleWithAuthor>[]).map(toArticleWithAuthor),
+        query,
+        total
+      );
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import type { Pool } from "mysql2/promise";
+import type { Repositories } from "../types.js";
+import { createMySqlArticleRepository } from "./articles.js";
+import { createMySqlAuditLogRepository } from "./audit-log.js";
+import { createMySqlBookmarkRepository } from "./bookmarks.js";
+import { createMySqlCategoryRepository } from "./categories.js";
+import { createMySqlCommentRepository } from "./comments.js";
+import { createMySqlFollowRepository } from "./follows.js";
+import { createMySqlLikeRepository } from "./likes.js";
+import { createMySqlNotificationRepository } from "./notifications.js";
+import { createMySqlRefreshTokenRepository } from "./refresh-tokens.js";
+import { createMySqlRevisionRepository } from "./revisions.js";
+import { createMySqlTagRepository } from "./tags.js";
+import { createMySqlUploadRepository } from "./uploads.js";
+import { createMySqlUserTokenRepository } from "./user-tokens.js";
+import { createMySqlUserRepository } from "./users.js";
+
+export function createMySqlRepositories(pool: Pool): Repositories {
+  return {
+    users: createMySqlUserRepository(pool),
+    articles: createMySqlArticleRepository(pool),
+    revisions: createMySqlRevisionRepository(pool),
+    categories: createMySqlCategoryRepository(pool),
+    tags: createMySqlTagRepository(pool),
+    comments: createMySqlCommentRepository(pool),
+    likes: createMySqlLikeRepository(pool),
+    bookmarks: createMySqlBookmarkRepository(pool),
+    follows: createMySqlFollowRepository(pool),
+    notifications: createMySqlNotificationRepository(pool),
+    auditLog: createMySqlAuditLogRepository(pool),
+    uploads: createMySqlUploadRepository(pool),
+    refreshTokens: createMySqlRefreshTokenRepository(pool),
+    userTokens: createMySqlUserTokenRepository(pool),
+  };
+}
@@ -0,0 +1,31 @@
+import type { Pool, ResultSetHeader } from "mysql2/promise";
+import type { LikeRepository } from "../types.js";
+
+export function createMySqlLikeRepository(pool: Pool): LikeRepository {
+  return {
+    async add(articleId, userId) {
+      // The primary key makes liking twice a no-op
+      const [result] = await pool.execute<ResultSetHeader>(
+        "INSERT IGNORE INTO article_likes (article_id, user_id) VALUES (?, ?)",
+        [articleId, userId]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async remove(articleId, userId) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "DELETE FROM article_likes WHERE article_id = ? AND user_id = ?",
+        [articleId, userId]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async count(articleId) {
+      const [rows] = await pool.execute(
+        "SELECT COUNT(*) AS total FROM article_likes WHERE article_id = ?",
+        [articleId]
+      );
+      return Number((rows as { total: number }[])[0]?.total ?? 0);
+    },
+  };
+}
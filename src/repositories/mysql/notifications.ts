@@ -0,0 +1,146 @@
+import type { Pool, ResultSetHeader } from "mysql2/promise";
+import type {
+  NotificationPreferences,
+  NotificationWithActor,
+} from "../../interfaces.js";
+import {
+  NOTIFICATION_TYPES,
+  type NotificationType,
+} from "../../notifications/index.js";
+import { pageOffset } from "../../utils/pagination.js";
+import type { NotificationRepository } from "../types.js";
+
+const NOTIFICATION_WITH_ACTOR_SQL = `
+  SELECT
+    notifications.id,
+    notifications.user_id,
+    notifications.actor_id,
+    notifications.type,
+    notifications.article_id,
+    notifications.comment_id,
+    notifications.read_at,
+    notifications.created_at,
+    actors.username AS actor_username,
+    articles.title AS article_title
+  FROM notifications
+  INNER JOIN users actors ON actors.id = notifications.actor_id
+  LEFT JOIN articles ON articles.id = notifications.article_id
+`;
+
+export function createMySqlNotificationRepository(
+  pool: Pool
+): NotificationRepository {
+  return {
+    async list(userId, query) {
+      const conditions = ["notifications.user_id = ?"];
+      if (query.unread) {
+        conditions.push("notifications.read_at IS NULL");
+      }
+      const filterSql = conditions.join(" AND ");
+
+      const [countRows] = await pool.execute(
+        `SELECT COUNT(*) AS total FROM notifications WHERE ${filterSql}`,
+        [userId]
+      );
+      const total = Number((countRows as { total: number }[])[0]?.total ?? 0);
+
+      const offset = pageOffset(query.page, query.limit);
+
+      // limit and offset are validated integers, safe to inline
+      const [rows] = await pool.execute(
+        `
+          ${NOTIFICATION_WITH_ACTOR_SQL}
+          WHERE ${filterSql}
+          ORDER BY notifications.id DESC
+          LIMIT ${query.limit} OFFSET ${offset}
+        `,
+        [userId]
+      );
+
+      return {
+        data: rows as NotificationWithActor[],
+        meta: {
+          total,
+          limit: query.limit,
+          page: query.page ?? 1,
+          nextCursor: null,
+        },
+      };
+    },
+
+    async countUnread(userId) {
+      const [rows] = await pool.execute(
+        "SELECT COUNT(*) AS total FROM notifications WHERE user_id = ? AND read_at IS NULL",
+        [userId]
+      );
+      return Number((rows as { total: number }[])[0]?.total ?? 0);
+    },
+
+    async create(notification) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "INSERT INTO notifications (user_id, actor_id, type, article_id, comment_id) VALUES (?, ?, ?, ?, ?)",
+        [
+          notification.user_id,
+          notification.actor_id,
+          notification.type,
+          notification.article_id,
+          notification.comment_id,
+        ]
+      );
+      const [rows] = await pool.execute(
+        `${NOTIFICATION_WITH_ACTOR_SQL} WHERE notifications.id = ?`,
+        [result.insertId]
+      );
+      return (rows as NotificationWithActor[])[0]!;
+    },
+
+    async markRead(id, userId) {
+      // Already read notifications keep their first read_at
+      const [result] = await pool.execute<ResultSetHeader>(
+        "UPDATE notifications SET read_at = COALESCE(read_at, NOW()) WHERE id = ? AND user_id = ?",
+        [id, userId]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async markAllRead(userId) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "UPDATE notifications SET read_at = NOW() WHERE user_id = ? AND read_at IS NULL",
+        [userId]
+      );
+      return result.affectedRows;
+    },
+
+    async getPreferences(userId) {
+      const [rows] = await pool.execute(
+        "SELECT type, enabled FROM notification_preferences WHERE user_id = ?",
+        [userId]
+      );
+      const stored = rows as { type: NotificationType; enabled: number }[];
+      return Object.fromEntries(
+        NOTIFICATION_TYPES.map((type) => {
+          const row = stored.find((row) => row.type === type);
+          return [type, row ? Boolean(row.enabled) : true];
+        })
+      ) as NotificationPreferences;
+    },
+
+    async updatePreferences(userId, changes) {
+      const entries = NOTIFICATION_TYPES.flatMap((type) => {
+        const enabled = changes[type];
+        return enabled === undefined ? [] : [[type, enabled] as const];
+      });
+      if (entries.length === 0) {
+        return;
+      }
+      await pool.execute(
+        `
+          INSERT INTO notification_preferences (user_id, type, enabled)
+          VALUES ${entries.map(() => "(?, ?, ?)").join(", ")}
+          ON DUPLICATE KEY UPDATE enabled = VALUES(enabled)
+        `,
+        entries.flatMap(([type, enabled]) => [userId, type, enabled])
+      );
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import type { Pool, ResultSetHeader } from "mysql2/promise";
+import type { RefreshToken } from "../../interfaces.js";
+import type { RefreshTokenRepository } from "../types.js";
+
+export function createMySqlRefreshTokenRepository(
+  pool: Pool
+): RefreshTokenRepository {
+  return {
+    async create(token) {
+      await pool.execute(
+        "INSERT INTO refresh_tokens (user_id, family_id, token_hash, expires_at) VALUES (?, ?, ?, ?)",
+        [token.user_id, token.family_id, token.token_hash, token.expires_at]
+      );
+    },
+
+    async findByHash(tokenHash) {
+      const [rows] = await pool.execute(
+        "SELECT id, user_id, family_id, token_hash, expires_at, used_at, revoked_at FROM refresh_tokens WHERE token_hash = ?",
+        [tokenHash]
+      );
+      return (rows as RefreshToken[])[0] ?? null;
+    },
+
+    async markUsed(id) {
+      // Conditional update so two concurrent refreshes can't both succeed
+      const [result] = await pool.execute<ResultSetHeader>(
+        "UPDATE refresh_tokens SET used_at = NOW() WHERE id = ? AND used_at IS NULL",
+        [id]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async revokeFamily(familyId) {
+      await pool.execute(
+        "UPDATE refresh_tokens SET revoked_at = NOW() WHERE family_id = ? AND revoked_at IS NULL",
+        [familyId]
+      );
+    },
+
+    async revokeAllForUser(userId) {
+      await pool.execute(
+        "UPDATE refresh_tokens SET revoked_at = NOW() WHERE user_id = ? AND revoked_at IS NULL",
+        [userId]
+      );
+    },
+
+    async hasActiveToken(familyId, userId) {
+      const [rows] = await pool.execute(
+        "SELECT id FROM refresh_tokens WHERE family_id = ? AND user_id = ? AND revoked_at IS NULL LIMIT 1",
+        [familyId, userId]
+      );
+      return (rows as { id: number }[]).length > 0;
+    },
+  };
+}
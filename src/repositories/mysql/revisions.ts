@@ -0,0 +1,73 @@
+import type { Pool } from "mysql2/promise";
+import type {
+  ArticleRevision,
+  ArticleRevisionSummary,
+} from "../../interfaces.js";
+import { pageOffset } from "../../utils/pagination.js";
+import type { RevisionRepository } from "../types.js";
+
+const REVISION_SUMMARY_COLUMNS = `
+  article_revisions.article_id,
+  article_revisions.revision,
+  article_revisions.title,
+  categories.slug AS category,
+  article_revisions.edited_by,
+  users.username AS editor_username,
+  article_revisions.created_at
+`;
+
+// Editors and categories may be gone, their columns are null then
+const REVISION_JOINS = `
+  LEFT JOIN categories ON categories.id = article_revisions.category_id
+  LEFT JOIN users ON users.id = article_revisions.edited_by
+`;
+
+export function createMySqlRevisionRepository(pool: Pool): RevisionRepository {
+  return {
+    async list(articleId, query) {
+      const [countRows] = await pool.execute(
+        "SELECT COUNT(*) AS total FROM article_revisions WHERE article_id = ?",
+        [articleId]
+      );
+      const total = Number((countRows as { total: number }[])[0]?.total ?? 0);
+
+      const offset = pageOffset(query.page, query.limit);
+
+      // limit and offset are validated integers, safe to inline
+      const [rows] = await pool.execute(
+        `
+          SELECT ${REVISION_SUMMARY_COLUMNS}
+          FROM article_revisions
+          ${REVISION_JOINS}
+          WHERE article_revisions.article_id = ?
+          ORDER BY article_revisions.revision DESC
+          LIMIT ${query.limit} OFFSET ${offset}
+        `,
+        [articleId]
+      );
+
+      return {
+        data: rows as ArticleRevisionSummary[],
+        meta: {
+          total,
+          limit: query.limit,
+          page: query.page ?? 1,
+          nextCursor: null,
+        },
+      };
+    },
+
+    async find(articleId, revision) {
+      const [rows] = await pool.execute(
+        `
+          SELECT ${REVISION_SUMMARY_COLUMNS}, article_revisions.body
+          FROM article_revisions
+          ${REVISION_JOINS}
+          WHERE article_revisions.article_id = ? AND article_revisions.revision = ?
+        `,
+        [articleId, revision]
+      );
+      return (rows as ArticleRevision[])[0] ?? null;
+    },
+  };
+}
@@ -0,0 +1,107 @@
+import type { Pool, ResultSetHeader } from "mysql2/promise";
+import type { Tag, TagWithCount } from "../../interfaces.js";
+import type { TagRepository } from "../types.js";
+
+const TAG_WITH_COUNT_SQL = `
+  SELECT
+    tags.id,
+    tags.name,
+    tags.slug,
+    tags.created_at,
+    COUNT(articles.id) AS article_count
+  FROM tags
+  LEFT JOIN article_tags ON article_tags.tag_id = tags.id
+  LEFT JOIN articles
+    ON articles.id = article_tags.article_id AND articles.status = 'published'
+`;
+
+// COUNT comes back as a string for big integers
+function withNumericCount(row: TagWithCount): TagWithCount {
+  return { ...row, article_count: Number(row.article_count) };
+}
+
+export function createMySqlTagRepository(pool: Pool): TagRepository {
+  return {
+    async list() {
+      const [rows] = await pool.execute(
+        `${TAG_WITH_COUNT_SQL} GROUP BY tags.id ORDER BY tags.name`
+      );
+      return (rows as TagWithCount[]).map(withNumericCount);
+    },
+
+    async findBySlug(slug) {
+      const [rows] = await pool.execute(
+        `${TAG_WITH_COUNT_SQL} WHERE tags.slug = ? GROUP BY tags.id`,
+        [slug]
+      );
+      const row = (rows as TagWithCount[])[0];
+      return row ? withNumericCount(row) : null;
+    },
+
+    async create(tag) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "INSERT INTO tags (name, slug) VALUES (?, ?)",
+        [tag.name, tag.slug]
+      );
+      const [rows] = await pool.execute(
+        "SELECT id, name, slug, created_at FROM tags WHERE id = ?",
+        [result.insertId]
+      );
+      return (rows as Tag[])[0]!;
+    },
+
+    async findOrCreate(tags) {
+      if (tags.length === 0) {
+        return [];
+      }
+
+      // Existing slugs are left as they are, so a concurrent insert is fine
+      const placeholders = tags.map(() => "(?, ?)").join(", ");
+      await pool.execute(
+        `INSERT IGNORE INTO tags (name, slug) VALUES ${placeholders}`,
+        tags.flatMap((tag) => [tag.name, tag.slug])
+      );
+
+      const slugs = tags.map((tag) => tag.slug);
+      const [rows] = await pool.execute(
+        `SELECT id, name, slug, created_at FROM tags WHERE slug IN (${slugs
+          .map(() => "?")
+          .join(", ")})`,
+        slugs
+      );
+      const bySlug = new Map((rows as Tag[]).map((tag) => [tag.slug, tag]));
+      return slugs.flatMap((slug) => bySlug.get(slug) ?? []);
+    },
+
+    async update(id, changes) {
+      const fields: string[] = [];
+      const values: (string | number)[] = [];
+      for (const column of ["name", "slug"] as const) {
+        if (changes[column] !== undefined) {
+          fields.push(`${column} = ?`);
+          values.push(changes[column]);
+        }
+      }
+      if (fields.length === 0) {
+        const [rows] = await pool.execute("SELECT id FROM tags WHERE id = ?", [
+          id,
+        ]);
+        return (rows as { id: number }[]).length > 0;
+      }
+
+      const [result] = await pool.execute<ResultSetHeader>(
+        `UPDATE tags SET ${fields.join(", ")} WHERE id = ?`,
+        [...values, id]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async delete(id) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "DELETE FROM tags WHERE id = ?",
+        [id]
+      );
+      return result.affectedRows > 0;
+    },
+  };
+}
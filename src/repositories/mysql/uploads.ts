@@ -0,0 +1,136 @@
+import type { Pool, PoolConnection, ResultSetHeader } from "mysql2/promise";
+import type { Upload } from "../../interfaces.js";
+import type { UploadRepository } from "../types.js";
+import { inTransaction } from "./articles.js";
+
+const UPLOAD_COLUMNS = `
+  id,
+  user_id,
+  article_id,
+  kind,
+  filename,
+  content_type,
+  size,
+  width,
+  height,
+  storage_key,
+  url,
+  thumbnail_key,
+  thumbnail_url,
+  created_at
+`;
+
+async function findOne(
+  connection: Pool | PoolConnection,
+  condition: string,
+  values: number[]
+) {
+  const [rows] = await connection.execute(
+    `SELECT ${UPLOAD_COLUMNS} FROM uploads WHERE ${condition}`,
+    values
+  );
+  return (rows as Upload[])[0] ?? null;
+}
+
+export function createMySqlUploadRepository(pool: Pool): UploadRepository {
+  return {
+    async create(upload) {
+      return inTransaction(pool, async (connection) => {
+        // The unique keys on the generated columns allow one cover per
+        // article and one avatar per user, so the previous one goes first
+        let replaced: Upload | null = null;
+        if (upload.kind === "cover" && upload.article_id !== null) {
+          replaced = await findOne(
+            connection,
+            "cover_article_id = ? FOR UPDATE",
+            [upload.article_id]
+          );
+        } else if (upload.kind === "avatar") {
+          replaced = await findOne(
+            connection,
+            "avatar_user_id = ? FOR UPDATE",
+            [upload.user_id]
+          );
+        }
+        if (replaced) {
+          await connection.execute("DELETE FROM uploads WHERE id = ?", [
+            replaced.id,
+          ]);
+        }
+
+        const [result] = await connection.execute<ResultSetHeader>(
+          `
+            INSERT INTO uploads (
+              user_id, article_id, kind, filename, content_type, size, width,
+              height, storage_key, url, thumbnail_key, thumbnail_url
+            )
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `,
+          [
+            upload.user_id,
+            upload.article_id,
+            upload.kind,
+            upload.filename,
+            upload.content_type,
+            upload.size,
+            upload.width,
+            upload.height,
+            upload.storage_key,
+            upload.url,
+            upload.thumbnail_key,
+            upload.thumbnail_url,
+          ]
+        );
+        const created = await findOne(connection, "id = ?", [result.insertId]);
+        return { upload: created!, replaced };
+      });
+    },
+
+    async findById(id) {
+      return findOne(pool, "id = ?", [id]);
+    },
+
+    async findCover(articleId) {
+      return findOne(pool, "cover_article_id = ?", [articleId]);
+    },
+
+    async findAvatar(userId) {
+      return findOne(pool, "avatar_user_id = ?", [userId]);
+    },
+
+    async listForArticle(articleId, kind) {
+      const [rows] = await pool.execute(
+        `
+          SELECT ${UPLOAD_COLUMNS}
+          FROM uploads
+          WHERE article_id = ? ${kind ? "AND kind = ?" : ""}
+          ORDER BY created_at, id
+        `,
+        kind ? [articleId, kind] : [articleId]
+      );
+      return rows as Upload[];
+    },
+
+    async listForUser(userId) {
+      const [rows] = await pool.execute(
+        `
+          SELECT ${UPLOAD_COLUMNS}
+          FROM uploads
+          WHERE user_id = ?
+            OR article_id IN (SELECT id FROM articles WHERE submitted_by = ?)
+          ORDER BY created_at, id
+        `,
+        [userId, userId]
+      );
+      return rows as Upload[];
+    },
+
+    async delete(id) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "DELETE FROM uploads WHERE id = ?",
+        [id]
+      );
+      return result.affectedRows > 0;
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import type { Pool, ResultSetHeader } from "mysql2/promise";
+import type { UserToken } from "../../interfaces.js";
+import type { UserTokenRepository } from "../types.js";
+
+export function createMySqlUserTokenRepository(
+  pool: Pool
+): UserTokenRepository {
+  return {
+    async create(token) {
+      await pool.execute(
+        "INSERT INTO user_tokens (user_id, purpose, token_hash, expires_at) VALUES (?, ?, ?, ?)",
+        [token.user_id, token.purpose, token.token_hash, token.expires_at]
+      );
+    },
+
+    async findByHash(tokenHash, purpose) {
+      const [rows] = await pool.execute(
+        "SELECT id, user_id, purpose, token_hash, expires_at, used_at FROM user_tokens WHERE token_hash = ? AND purpose = ?",
+        [tokenHash, purpose]
+      );
+      return (rows as UserToken[])[0] ?? null;
+    },
+
+    async markUsed(id) {
+      // Conditional update so a token can only be consumed once
+      const [result] = await pool.execute<ResultSetHeader>(
+        "UPDATE user_tokens SET used_at = NOW() WHERE id = ? AND used_at IS NULL",
+        [id]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async invalidateForUser(userId, purpose) {
+      await pool.execute(
+        "UPDATE user_tokens SET used_at = NOW() WHERE user_id = ? AND purpose = ? AND used_at IS NULL",
+        [userId, purpose]
+      );
+    },
+  };
+}
@@ -0,0 +1,138 @@
+import type { Pool, ResultSetHeader } from "mysql2/promise";
+import type { User, UserResponse } from "../../interfaces.js";
+import type { Role } from "../../utils/permissions.js";
+import type { UserRepository } from "../types.js";
+
+export const USER_RESPONSE_COLUMNS = `
+  users.id,
+  users.username,
+  users.email,
+  avatars.url AS avatar_url,
+  avatars.thumbnail_url AS avatar_thumbnail_url
+`;
+
+export const AVATAR_JOIN =
+  "LEFT JOIN uploads avatars ON avatars.avatar_user_id = users.id";
+
+export function createMySqlUserRepository(pool: Pool): UserRepository {
+  const repository: UserRepository = {
+    async findAll() {
+      const [rows] = await pool.execute(
+        `SELECT ${USER_RESPONSE_COLUMNS} FROM users ${AVATAR_JOIN}`
+      );
+      return rows as UserResponse[];
+    },
+
+    async findById(id) {
+      const [rows] = await pool.execute(
+        `SELECT ${USER_RESPONSE_COLUMNS} FROM users ${AVATAR_JOIN} WHERE users.id = ?`,
+        [id]
+      );
+      return (rows as UserResponse[])[0] ?? null;
+    },
+
+    async findRole(id) {
+      const [rows] = await pool.execute("SELECT role FROM users WHERE id = ?", [
+        id,
+      ]);
+      return (rows as { role: Role }[])[0]?.role ?? null;
+    },
+
+    async findByEmail(email) {
+      const [rows] = await pool.execute(
+        "SELECT id, username, email, password, role, email_verified_at FROM users WHERE email = ?",
+        [email]
+      );
+      return (rows as User[])[0] ?? null;
+    },
+
+    async findPasswordHash(id) {
+      const [rows] = await pool.execute(
+        "SELECT password FROM users WHERE id = ?",
+        [id]
+      );
+      return (rows as { password: string }[])[0]?.password ?? null;
+    },
+
+    async existsWithEmailOrUsername(email, username) {
+      const [rows] = await pool.execute(
+        "SELECT id FROM users WHERE email = ? OR username = ? LIMIT 1",
+        [email, username]
+      );
+      return (rows as { id: number }[]).length > 0;
+    },
+
+    async create(user) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "INSERT INTO users (username, email, password) VALUES (?, ?, ?)",
+        [user.username, user.email, user.password]
+      );
+      return {
+        id: result.insertId,
+        username: user.username,
+        email: user.email,
+        avatar_url: null,
+        avatar_thumbnail_url: null,
+      };
+    },
+
+    async update(id, changes) {
+      const fields: string[] = [];
+      const values: (string | number)[] = [];
+      if (changes.username !== undefined) {
+        fields.push("username = ?");
+        values.push(changes.username);
+      }
+      if (changes.email !== undefined) {
+        // Assigned before email so the comparison sees the old address
+        fields.push(
+          "email_verified_at = IF(email = ?, email_verified_at, NULL)",
+          "email = ?"
+        );
+        values.push(changes.email, changes.email);
+      }
+      if (fields.length === 0) {
+        return (await repository.findById(id)) !== null;
+      }
+
+      const [result] = await pool.execute<ResultSetHeader>(
+        `UPDATE users SET ${fields.join(", ")} WHERE id = ?`,
+        [...values, id]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async updateRole(id, role) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "UPDATE users SET role = ? WHERE id = ?",
+        [role, id]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async updatePassword(id, passwordHash) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "UPDATE users SET password = ? WHERE id = ?",
+        [passwordHash, id]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async markEmailVerified(id) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW()) WHERE id = ?",
+        [id]
+      );
+      return result.affectedRows > 0;
+    },
+
+    async delete(id) {
+      const [result] = await pool.execute<ResultSetHeader>(
+        "DELETE FROM users WHERE id = ?",
+        [id]
+      );
+      return result.affectedRows > 0;
+    },
+  };
+  return repository;
+}
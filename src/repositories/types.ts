@@ -0,0 +1,300 @@
+import type {
+  Article,
+  ArticleRevision,
+  ArticleRevisionSummary,
+  ArticleSearchResult,
+  ArticleWithAuthor,
+  AuditEntry,
+  AuditEntryWithActor,
+  BookmarkedArticle,
+  Category,
+  CategoryWithCount,
+  CommentWithAuthor,
+  FollowedUser,
+  NewArticle,
+  NewAuditEntry,
+  NewComment,
+  NewNotification,
+  NewUpload,
+  NewUser,
+  NotificationPreferences,
+  NotificationWithActor,
+  RefreshToken,
+  Tag,
+  TagWithCount,
+  Upload,
+  UploadKind,
+  User,
+  UserResponse,
+  UserToken,
+  UserTokenPurpose,
+} from "../interfaces.js";
+import type {
+  ArticleListQuery,
+  ArticleSearchQuery,
+  BookmarkListQuery,
+} from "../middleware/article-validation.js";
+import type { AuditLogQuery } from "../middleware/audit-validation.js";
+import type { CommentListQuery } from "../middleware/comment-validation.js";
+import type {
+  FeedQuery,
+  FollowListQuery,
+} from "../middleware/follow-validation.js";
+import type {
+  NotificationListQuery,
+  NotificationPreferencesUpdate,
+} from "../middleware/notification-validation.js";
+import type { RevisionListQuery } from "../middleware/revision-validation.js";
+import type { ArticleStatus } from "../utils/article-status.js";
+import type { Page } from "../utils/pagination.js";
+import type { Role } from "../utils/permissions.js";
+
+export interface UserRepository {
+  findAll(): Promise<UserResponse[]>;
+  findById(id: number): Promise<UserResponse | null>;
+  findRole(id: number): Promise<Role | null>;
+  // Includes the password hash, for credential checks only
+  findByEmail(email: string): Promise<User | null>;
+  // For re-authentication before sensitive changes
+  findPasswordHash(id: number): Promise<string | null>;
+  existsWithEmailOrUsername(email: string, username: string): Promise<boolean>;
+  create(user: NewUser): Promise<UserResponse>;
+  // Resolves to false when the user doesn't exist.
+  // Changing the email marks it unverified again.
+  update(
+    id: number,
+    changes: Partial<Pick<User, "username" | "email">>
+  ): Promise<boolean>;
+  updateRole(id: number, role: Role): Promise<boolean>;
+  updatePassword(id: number, passwordHash: string): Promise<boolean>;
+  markEmailVerified(id: number): Promise<boolean>;
+  delete(id: number): Promise<boolean>;
+}
+
+export interface ArticleRepository {
+  // Published articles, plus the unpublished ones of the viewer
+  list(
+    query: ArticleListQuery,
+    viewerId: number | null
+  ): Promise<Page<ArticleWithAuthor>>;
+  // Published articles only
+  search(query: ArticleSearchQuery): Promise<Page<ArticleSearchResult>>;
+  // The most recently published articles, for feeds
+  listLatest(
+    filter: Pick<ArticleListQuery, "category" | "submitted_by">,
+    limit: number
+  ): Promise<ArticleWithAuthor[]>;
+  // Any status, callers check who may see it
+  findById(id: number): Promise<ArticleWithAuthor | null>;
+  findOwnerId(id: number): Promise<number | null>;
+  create(article: NewArticle): Promise<Article>;
+  // Resolves to false when the article doesn't exist.
+  // Category and tags are left alone unless given. The replaced title, body
+  // and category are kept as a new revision, edited by editorId.
+  update(
+    id: number,
+    changes: Pick<Article, "title" | "body"> &
+      Partial<Pick<NewArticle, "category_id" | "tag_ids">>,
+    editorId: number
+  ): Promise<boolean>;
+  // Publishing sets published_at. Resolves to false when the article
+  // doesn't exist.
+  updateStatus(
+    id: number,
+    status: ArticleStatus,
+    publishAt: Date | null
+  ): Promise<boolean>;
+  // Publishes scheduled articles whose publish_at has passed, resolves to
+  // how many were published
+  publishDue(): Promise<number>;
+  delete(id: number): Promise<boolean>;
+}
+
+// Revisions are written by ArticleRepository.update and never change
+export interface RevisionRepository {
+  // Newest first, without bodies
+  list(
+    articleId: number,
+    query: RevisionListQuery
+  ): Promise<Page<ArticleRevisionSummary>>;
+  find(articleId: number, revision: number): Promise<ArticleRevision | null>;
+}
+
+export interface UploadRepository {
+  // Covers and avatars take the place of the previous one, which resolves
+  // as replaced so its files can be removed
+  create(
+    upload: NewUpload
+  ): Promise<{ upload: Upload; replaced: Upload | null }>;
+  findById(id: number): Promise<Upload | null>;
+  findCover(articleId: number): Promise<Upload | null>;
+  findAvatar(userId: number): Promise<Upload | null>;
+  // Oldest first
+  listForArticle(articleId: number, kind?: UploadKind): Promise<Upload[]>;
+  // Uploads that go along with the user: their own and those on their
+  // articles
+  listForUser(userId: number): Promise<Upload[]>;
+  delete(id: number): Promise<boolean>;
+}
+
+export interface CategoryRepository {
+  // Every category with its number of published articles, by name
+  list(): Promise<CategoryWithCount[]>;
+  findBySlug(slug: string): Promise<CategoryWithCount | null>;
+  create(
+    category: Pick<Category, "name" | "slug" | "description">
+  ): Promise<Category>;
+  // Resolves to false when the category doesn't exist
+  update(
+    id: number,
+    changes: Partial<Pick<Category, "name" | "slug" | "description">>
+  ): Promise<boolean>;
+  // Articles of a deleted category become uncategorized
+  delete(id: number): Promise<boolean>;
+}
+
+export interface TagRepository {
+  // Every tag with its number of published articles, by name
+  list(): Promise<TagWithCount[]>;
+  findBySlug(slug: string): Promise<TagWithCount | null>;
+  create(tag: Pick<Tag, "name" | "slug">): Promise<Tag>;
+  // Looks tags up by slug and creates the missing ones
+  findOrCreate(tags: Pick<Tag, "name" | "slug">[]): Promise<Tag[]>;
+  // Resolves to false when the tag doesn't exist
+  update(
+    id: number,
+    changes: Partial<Pick<Tag, "name" | "slug">>
+  ): Promise<boolean>;
+  delete(id: number): Promise<boolean>;
+}
+
+export interface CommentRepository {
+  // A page of top level comments, oldest first. Deleted ones are kept while
+  // their thread still has replies that aren't deleted.
+  listThreads(
+    articleId: number,
+    query: CommentListQuery
+  ): Promise<Page<CommentWithAuthor>>;
+  // Every reply in the given threads, deleted ones included, oldest first
+  listReplies(rootIds: number[]): Promise<CommentWithAuthor[]>;
+  findById(id: number): Promise<CommentWithAuthor | null>;
+  create(comment: NewComment): Promise<CommentWithAuthor>;
+  // Resolves to false when the comment doesn't exist or is deleted
+  update(id: number, body: string): Promise<boolean>;
+  // Marks the comment deleted, its replies stay
+  softDelete(id: number): Promise<boolean>;
+}
+
+export interface LikeRepository {
+  // Resolves to false when the user already liked the article
+  add(articleId: number, userId: number): Promise<boolean>;
+  // Resolves to false when the user hadn't liked the article
+  remove(articleId: number, userId: number): Promise<boolean>;
+  count(articleId: number): Promise<number>;
+}
+
+export interface BookmarkRepository {
+  // Resolves to false when the article was already bookmarked
+  add(articleId: number, userId: number): Promise<boolean>;
+  // Resolves to false when the article wasn't bookmarked
+  remove(articleId: number, userId: number): Promise<boolean>;
+  // Most recently bookmarked first, skipping articles the user can't see
+  listForUser(
+    userId: number,
+    query: BookmarkListQuery
+  ): Promise<Page<BookmarkedArticle>>;
+}
+
+export interface FollowRepository {
+  // Resolves to false when the user already follows them
+  add(followerId: number, followedId: number): Promise<boolean>;
+  // Resolves to false when the user didn't follow them
+  remove(followerId: number, followedId: number): Promise<boolean>;
+  counts(userId: number): Promise<{ followers: number; following: number }>;
+  // Most recent follow first
+  listFollowers(
+    userId: number,
+    query: FollowListQuery
+  ): Promise<Page<FollowedUser>>;
+  listFollowing(
+    userId: number,
+    query: FollowListQuery
+  ): Promise<Page<FollowedUser>>;
+  // Published articles of the users the user follows, most recently
+  // published first
+  listFeed(userId: number, query: FeedQuery): Promise<Page<ArticleWithAuthor>>;
+}
+
+export interface NotificationRepository {
+  // Newest first
+  list(
+    userId: number,
+    query: NotificationListQuery
+  ): Promise<Page<NotificationWithActor>>;
+  countUnread(userId: number): Promise<number>;
+  create(notification: NewNotification): Promise<NotificationWithActor>;
+  // Resolves to false when the notification doesn't exist or belongs to
+  // another user
+  markRead(id: number, userId: number): Promise<boolean>;
+  // Resolves to how many were unread
+  markAllRead(userId: number): Promise<number>;
+  // Every type, on unless turned off
+  getPreferences(userId: number): Promise<NotificationPreferences>;
+  // Types left out keep their setting
+  updatePreferences(
+    userId: number,
+    changes: NotificationPreferencesUpdate
+  ): Promise<void>;
+}
+
+export interface AuditLogRepository {
+  record(entry: NewAuditEntry): Promise<AuditEntry>;
+  // Newest first
+  list(query: AuditLogQuery): Promise<Page<AuditEntryWithActor>>;
+}
+
+export interface RefreshTokenRepository {
+  create(
+    token: Pick<
+      RefreshToken,
+      "user_id" | "family_id" | "token_hash" | "expires_at"
+    >
+  ): Promise<void>;
+  findByHash(tokenHash: string): Promise<RefreshToken | null>;
+  // Resolves to false when the token was already used
+  markUsed(id: number): Promise<boolean>;
+  revokeFamily(familyId: string): Promise<void>;
+  revokeAllForUser(userId: number): Promise<void>;
+  hasActiveToken(familyId: string, userId: number): Promise<boolean>;
+}
+
+export interface UserTokenRepository {
+  create(
+    token: Pick<UserToken, "user_id" | "purpose" | "token_hash" | "expires_at">
+  ): Promise<void>;
+  findByHash(
+    tokenHash: string,
+    purpose: UserTokenPurpose
+  ): Promise<UserToken | null>;
+  // Resolves to false when the token was already used
+  markUsed(id: number): Promise<boolean>;
+  // Marks every unused token of the user for this purpose as used
+  invalidateForUser(userId: number, purpose: UserTokenPurpose): Promise<void>;
+}
+
+export interface Repositories {
+  users: UserRepository;
+  articles: ArticleRepository;
+  revisions: RevisionRepository;
+  categories: CategoryRepository;
+  tags: TagRepository;
+  comments: CommentRepository;
+  likes: LikeRepository;
+  bookmarks: BookmarkRepository;
+  follows: FollowRepository;
+  notifications: NotificationRepository;
+  auditLog: AuditLogRepository;
+  uploads: UploadRepository;
+  refreshTokens: RefreshTokenRepository;
+  userTokens: UserTokenRepository;
+}
@@ -1,10 +1,78 @@
-import { Router } from "express";
-import { pool } from "../database.js";
-import type { Article } from "../interfaces.js";
-import { authenticateToken } from "../middleware/auth-validation.js";
+import { Router, type Request, type Response } from "express";
+import { NotFoundError, ValidationError } from "../errors/index.js";
+import { audit } from "../audit/index.js";
+import type { NewArticle } from "../interfaces.js";
+import { getLogger } from "../logging/index.js";
+import { getRepositories } from "../repositories/index.js";
+import {
+  authenticateToken,
+  optionalAuthentication,
+} from "../middleware/auth-validation.js";
+import { authorize } from "../middleware/authorization.js";
+import {
+  articleFormatQuerySchema,
+  articleListQuerySchema,
+  articleSchema,
+  articleSearchQuerySchema,
+  newArticleSchema,
+  publishSchema,
+  type ArticleRelations,
+} from "../middleware/article-validation.js";
+import { notify } from "../notifications/index.js";
+import type { ArticleStatus } from "../utils/article-status.js";
+import { findVisibleArticle } from "../utils/article-visibility.js";
+import { renderBody } from "../utils/markdown.js";
+import { slugify } from "../utils/slug.js";
+import {
+  removeUploadFiles,
+  saveUpload,
+  toUploadResponse,
+} from "../utils/uploads.js";
+import { getStorage } from "../storage/index.js";
+import { validateUpload } from "../middleware/upload-validation.js";
+import { idParamsSchema, validate } from "../middleware/validate.js";
 
 export const router = Router();
 
+// Articles are owned by the user who submitted them
+function articleOwnerId(req: Request, res: Response) {
+  return getRepositories(req).articles.findOwnerId(res.locals.valid.params.id);
+}
+
+// Turn the category slug and tag names into ids, creating new tags.
+// Resolves to null when the category doesn't exist.
+async function resolveRelations(req: Request, relations: ArticleRelations) {
+  const { categories, tags } = getRepositories(req);
+  const resolved: Partial<Pick<NewArticle, "category_id" | "tag_ids">> = {};
+
+  if (relations.category === null) {
+    resolved.category_id = null;
+  } else if (relations.category !== undefined) {
+    const category = await categories.findBySlug(relations.category);
+    if (!category) {
+      return null;
+    }
+    resolved.category_id = category.id;
+  }
+
+  if (relations.tags) {
+    // Names that slug the same are one tag, the first spelling wins
+    const names = new Map<string, string>();
+    for (const name of relations.tags) {
+      const slug = slugify(name, 50);
+      if (!names.has(slug)) {
+        names.set(slug, name);
+      }
+    }
+    const found = await tags.findOrCreate(
+      [...names].map(([slug, name]) => ({ name, slug }))
+    );
+    resolved.tag_ids = found.map((tag) => tag.id);
+  }
+
+  return resolved;
+}
+
 /**
  * @swagger
  * components:
@@ -18,29 +86,97 @@ export const router = Router();
  *           type: string
  *         body:
  *           type: string
+ *           description: Markdown, or the format asked for with ?format
  *         submitted_by:
  *           type: integer
  *         created_at:
  *           type: string
  *           format: date-time
+ *         status:
+ *           type: string
+ *           enum: [draft, scheduled, published, archived]
+ *         publish_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When a scheduled article gets published
+ *         published_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
  *         username:
  *           type: string
  *         email:
  *           type: string
- *         category:
+ *         like_count:
+ *           type: integer
+ *         excerpt:
  *           type: string
- *     CreateArticle:
- *       type: object
- *       required:
- *         - title
- *         - body
- *       properties:
- *         title:
+ *           description: Plain text start of the body
+ *         reading_time:
+ *           type: integer
+ *           description: Estimated minutes to read the body
+ *         cover_url:
  *           type: string
- *         body:
+ *           nullable: true
+ *         cover_thumbnail_url:
  *           type: string
+ *           nullable: true
  *         category:
  *           type: string
+ *           nullable: true
+ *           description: Category slug
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Tag slugs
+ *     PageMeta:
+ *       type: object
+ *       properties:
+ *         total:
+ *           type: integer
+ *         limit:
+ *           type: integer
+ *         page:
+ *           type: integer
+ *           nullable: true
+ *         nextCursor:
+ *           type: string
+ *           nullable: true
+ *     ArticlePage:
+ *       type: object
+ *       properties:
+ *         data:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Article'
+ *         meta:
+ *           $ref: '#/components/schemas/PageMeta'
+ *     ArticleSearchResult:
+ *       allOf:
+ *         - $ref: '#/components/schemas/Article'
+ *         - type: object
+ *           properties:
+ *             relevance:
+ *               type: number
+ *             highlights:
+ *               type: object
+ *               properties:
+ *                 title:
+ *                   type: string
+ *                 body:
+ *                   type: string
+ *                   description: Excerpt around the first match, matches wrapped in <mark>
+ *     ArticleSearchPage:
+ *       type: object
+ *       properties:
+ *         data:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ArticleSearchResult'
+ *         meta:
+ *           $ref: '#/components/schemas/PageMeta'
  *   securitySchemes:
  *     bearerAuth:
  *       type: http
@@ -52,45 +188,67 @@ export const router = Router();
  * @swagger
  * /articles:
  *   get:
- *     summary: Get all articles with user info
+ *     summary: Get articles with user info, paginated
+ *     description: Lists published articles. With a token, your own drafts, scheduled and archived articles are included.
  *     tags: [Articles]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: List of articles
+ *         description: One page of articles
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Article'
+ *               $ref: '#/components/schemas/ArticlePage'
+ *       400:
+ *         description: Invalid query parameters
  *       500:
  *         description: Failed to fetch articles
  */
-// get all articles with user info
-router.get("/", async (req, res) => {
-  try {
-    const [rows] = await pool.execute(`
-      SELECT 
-        articles.id,
-        articles.title,
-        articles.body,
-        articles.submitted_by,
-        articles.created_at,
-        users.username,
-        users.email,
-        articles.category
-      FROM articles 
-      INNER JOIN users ON articles.submitted_by = users.id
-      ORDER BY articles.created_at DESC
-    `);
+// get articles with user info, filtered, sorted and paginated
+router.get(
+  "/",
+  optionalAuthentication,
+  validate({ query: articleListQuerySchema }),
+  async (req, res) => {
+    const page = await getRepositories(req).articles.list(
+      res.locals.valid.query,
+      req.user?.id ?? null
+    );
+    res.json(page);
+  }
+);
 
-    const articles = rows as Article[];
-    res.json(articles);
-  } catch (error) {
-    console.error("Error fetching articles:", error);
-    res.status(500).json({ error: "Failed to fetch articles" });
+/**
+ * @swagger
+ * /articles/search:
+ *   get:
+ *     summary: Full-text search over article titles and bodies
+ *     tags: [Articles]
+ *     responses:
+ *       200:
+ *         description: Matching articles ordered by relevance, with highlighted snippets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ArticleSearchPage'
+ *       400:
+ *         description: Invalid query parameters
+ *       500:
+ *         description: Failed to search articles
+ */
+// search articles by title and body
+router.get(
+  "/search",
+  validate({ query: articleSearchQuerySchema }),
+  async (req, res) => {
+    const page = await getRepositories(req).articles.search(
+      res.locals.valid.query
+    );
+    res.json(page);
   }
-});
+);
 
 /**
  * @swagger
@@ -98,13 +256,6 @@ router.get("/", async (req, res) => {
  *   get:
  *     summary: Get single article by id with user info
  *     tags: [Articles]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: Article ID
  *     responses:
  *       200:
  *         description: Article details
@@ -112,31 +263,31 @@ router.get("/", async (req, res) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Article'
+ *       400:
+ *         description: Unknown format
  *       404:
  *         description: Article not found
  *       500:
  *         description: Failed to fetch article
  */
 // Get single article by id with user info
-router.get("/:id", async (req, res) => {
-  const articleId = req.params.id;
-  console.log("Fetching article with ID:", articleId);
-  try {
-    const [rows] = await pool.execute(
-      "SELECT articles.id, articles.title, articles.body, articles.submitted_by, articles.created_at, users.username, users.email, articles.category FROM articles INNER JOIN users ON articles.submitted_by = users.id WHERE articles.id = ? ",
-      [articleId]
-    );
-
-    const article = (rows as Article[])[0];
+router.get(
+  "/:id",
+  optionalAuthentication,
+  validate({ params: idParamsSchema, query: articleFormatQuerySchema }),
+  async (req, res) => {
+    const { params, query } = res.locals.valid;
+    const articleId = params.id;
+    const article = await findVisibleArticle(req, articleId);
     if (!article) {
-      return res.status(404).json({ error: "article not found" });
+      throw new NotFoundError("article not found");
     }
-    res.json(article);
-  } catch (error) {
-    console.error("Error fetching article:", error);
-    res.status(500).json({ error: "Failed to fetch article" });
+    res.json({
+      ...article,
+      body: renderBody(article.body, query.format),
+    });
   }
-});
+);
 
 /**
  * @swagger
@@ -146,12 +297,6 @@ router.get("/:id", async (req, res) => {
  *     tags: [Articles]
  *     security:
  *       - bearerAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/CreateArticle'
  *     responses:
  *       201:
  *         description: Article created successfully
@@ -170,59 +315,77 @@ router.get("/:id", async (req, res) => {
  *                   type: integer
  *                 category:
  *                   type: string
+ *                   nullable: true
+ *                 tags:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 status:
+ *                   type: string
+ *                 publish_at:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
  *       400:
- *         description: Title and body are required
+ *         description: Title and body are required, dangerous content in the body, invalid tags, unknown category or invalid status
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Role is not allowed to create articles
  *       500:
  *         description: Failed to create article
  */
 // create new article
-router.post("/", authenticateToken, async (req, res) => {
-  const { title, body, category } = req.body;
-  const userId = req.user?.id;
-  if (!userId) {
-    return res.status(401).json({ error: "Unauthorized" });
-  }
-  if (!title || !body) {
-    return res.status(400).json({ error: "Title and body are required" });
-  }
-  try {
-    const [result] = await pool.execute(
-      "INSERT INTO articles (title, body, submitted_by, category) VALUES (?, ?, ?, ?)",
-      [title, body, userId, category]
-    );
-    const insertId = (result as any).insertId;
-    res
-      .status(201)
-      .json({ id: insertId, title, body, submitted_by: userId, category });
-  } catch (error) {
-    console.error("Error creating article:", error);
-    res.status(500).json({ error: "Failed to create article" });
+router.post(
+  "/",
+  authenticateToken,
+  validate({ body: newArticleSchema }),
+  authorize("articles:create"),
+  async (req, res) => {
+    const { title, body, status, publish_at } = res.locals.valid.body;
+    const userId = req.user!.id;
+    const relations = await resolveRelations(req, res.locals.valid.body);
+    if (!relations) {
+      throw new ValidationError(["Category does not exist"]);
+    }
+
+    const article = await getRepositories(req).articles.create({
+      title,
+      body,
+      submitted_by: userId,
+      category_id: relations.category_id ?? null,
+      tag_ids: relations.tag_ids ?? [],
+      status: publish_at ? "scheduled" : status ?? "draft",
+      publish_at: publish_at ?? null,
+    });
+    await audit(req, {
+      actor_id: userId,
+      action: "create",
+      entity_type: "article",
+      entity_id: article.id,
+    });
+    res.status(201).json({
+      id: article.id,
+      title,
+      body,
+      submitted_by: userId,
+      category: article.category,
+      tags: article.tags,
+      status: article.status,
+      publish_at: article.publish_at,
+    });
   }
-});
+);
 
 /**
  * @swagger
  * /articles/{id}:
  *   put:
  *     summary: Update article
+ *     description: The replaced title, body and category are kept as a revision, see /articles/{id}/revisions.
  *     tags: [Articles]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: Article ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/CreateArticle'
  *     responses:
  *       200:
  *         description: Article updated successfully
@@ -239,43 +402,64 @@ router.post("/", authenticateToken, async (req, res) => {
  *                   type: string
  *                 submitted_by:
  *                   type: integer
+ *                 category:
+ *                   type: string
+ *                   nullable: true
+ *                 tags:
+ *                   type: array
+ *                   items:
+ *                     type: string
  *       400:
- *         description: Title and body are required
+ *         description: Title and body are required, dangerous content in the body, invalid tags or unknown category
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to change this article
  *       404:
- *         description: Article not found or unauthorized
+ *         description: Article not found
  *       500:
  *         description: Failed to update article
  */
 // update article
-router.put("/:id", authenticateToken, async (req, res) => {
-  const articleId = req.params.id;
-  const { title, body, category } = req.body;
-  const userId = req.user?.id;
+router.put(
+  "/:id",
+  authenticateToken,
+  validate({ params: idParamsSchema, body: articleSchema }),
+  authorize("articles:update", { ownerId: articleOwnerId }),
+  async (req, res) => {
+    const articleId = res.locals.valid.params.id;
+    const { title, body } = res.locals.valid.body;
+    const { articles } = getRepositories(req);
+    const relations = await resolveRelations(req, res.locals.valid.body);
+    if (!relations) {
+      throw new ValidationError(["Category does not exist"]);
+    }
 
-  if (!userId) {
-    return res.status(401).json({ error: "Unauthorized" });
-  }
-  if (!title || !body) {
-    return res.status(400).json({ error: "Title and body are required" });
-  }
-  try {
-    const [result] = await pool.execute(
-      "UPDATE articles SET title = ?, body = ? WHERE id = ? AND submitted_by = ?",
-      [title, body, articleId, userId]
+    const updated = await articles.update(
+      articleId,
+      { title, body, ...relations },
+      req.user!.id
     );
-    if ((result as any).affectedRows === 0) {
-      return res
-        .status(404)
-        .json({ error: "Article not found or unauthorized" });
+    if (!updated) {
+      throw new NotFoundError("Article not found");
     }
-    res.json({ id: articleId, title, body, submitted_by: userId });
-  } catch (error) {
-    console.error("Error updating article:", error);
-    res.status(500).json({ error: "Failed to update article" });
+    await audit(req, {
+      actor_id: req.user!.id,
+      action: "update",
+      entity_type: "article",
+      entity_id: articleId,
+    });
+    const article = await articles.findById(articleId);
+    res.json({
+      id: articleId,
+      title,
+      body,
+      submitted_by: res.locals.resourceOwnerId,
+      category: article?.category ?? null,
+      tags: article?.tags ?? [],
+    });
   }
-});
+);
 
 /**
  * @swagger
@@ -285,45 +469,474 @@ router.put("/:id", authenticateToken, async (req, res) => {
  *     tags: [Articles]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: Article ID
  *     responses:
  *       204:
  *         description: Article deleted successfully
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to change this article
  *       404:
- *         description: Article not found or unauthorized
+ *         description: Article not found
  *       500:
  *         description: Failed to delete article
  */
 // delete article
-router.delete("/:id", authenticateToken, async (req, res) => {
-  const articleId = req.params.id;
-  const userId = req.user?.id;
-  if (!userId) {
-    return res.status(401).json({ error: "Unauthorized" });
+router.delete(
+  "/:id",
+  authenticateToken,
+  validate({ params: idParamsSchema }),
+  authorize("articles:delete", { ownerId: articleOwnerId }),
+  async (req, res) => {
+    const articleId = res.locals.valid.params.id;
+    const { articles, uploads } = getRepositories(req);
+    // The rows go with the article, the stored files are removed after
+    const files = await uploads.listForArticle(articleId);
+    const deleted = await articles.delete(articleId);
+    if (!deleted) {
+      throw new NotFoundError("Article not found");
+    }
+    await audit(req, {
+      actor_id: req.user!.id,
+      action: "delete",
+      entity_type: "article",
+      entity_id: articleId,
+    });
+    await removeUploadFiles(getStorage(req), files, getLogger(req));
+    res.status(204).send();
+  }
+);
+
+/**
+ * @swagger
+ * /articles/{id}/publish:
+ *   post:
+ *     summary: Publish an article now, or schedule it
+ *     description: With publish_at the article is scheduled and published by the background publisher once that time has passed.
+ *     tags: [Articles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Article published or scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Article'
+ *       400:
+ *         description: publish_at is invalid or not in the future
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to change this article
+ *       404:
+ *         description: Article not found
+ *       500:
+ *         description: Failed to update article status
+ *
+ * /articles/{id}/unpublish:
+ *   post:
+ *     summary: Turn an article back into a draft
+ *     description: Also cancels a scheduled publication.
+ *     tags: [Articles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Article is a draft again
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Article'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to change this article
+ *       404:
+ *         description: Article not found
+ *       500:
+ *         description: Failed to update article status
+ *
+ * /articles/{id}/archive:
+ *   post:
+ *     summary: Archive an article
+ *     description: Archived articles are only visible to their author. Publish them again to bring them back.
+ *     tags: [Articles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Article archived
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Article'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to change this article
+ *       404:
+ *         description: Article not found
+ *       500:
+ *         description: Failed to update article status
+ */
+// Status changes are article updates, so owners and editors may make them
+async function changeStatus(
+  req: Request,
+  res: Response,
+  articleId: number,
+  status: ArticleStatus,
+  publishAt: Date | null = null
+) {
+  const { articles } = getRepositories(req);
+  const updated = await articles.updateStatus(articleId, status, publishAt);
+  if (!updated) {
+    throw new NotFoundError("Article not found");
   }
-  try {
-    const [result] = await pool.execute(
-      "DELETE FROM articles WHERE id = ? AND submitted_by = ?",
-      [articleId, userId]
+  await audit(req, {
+    actor_id: req.user!.id,
+    action: "update",
+    entity_type: "article",
+    entity_id: articleId,
+    details: publishAt ? { status, publish_at: publishAt } : { status },
+  });
+  res.json(await articles.findById(articleId));
+}
+
+router.post(
+  "/:id/publish",
+  authenticateToken,
+  validate({ params: idParamsSchema, body: publishSchema }),
+  authorize("articles:update", { ownerId: articleOwnerId }),
+  async (req, res) => {
+    const { params, body } = res.locals.valid;
+    const publishAt = body.publish_at ?? null;
+    await changeStatus(
+      req,
+      res,
+      params.id,
+      publishAt ? "scheduled" : "published",
+      publishAt
     );
-    if ((result as any).affectedRows === 0) {
-      return res
-        .status(404)
-        .json({ error: "Article not found or unauthorized" });
+  }
+);
+
+router.post(
+  "/:id/unpublish",
+  authenticateToken,
+  validate({ params: idParamsSchema }),
+  authorize("articles:update", { ownerId: articleOwnerId }),
+  (req, res) => changeStatus(req, res, res.locals.valid.params.id, "draft")
+);
+
+router.post(
+  "/:id/archive",
+  authenticateToken,
+  validate({ params: idParamsSchema }),
+  authorize("articles:update", { ownerId: articleOwnerId }),
+  (req, res) => changeStatus(req, res, res.locals.valid.params.id, "archived")
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Upload:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         user_id:
+ *           type: integer
+ *           description: Who uploaded the file
+ *         article_id:
+ *           type: integer
+ *           nullable: true
+ *         kind:
+ *           type: string
+ *           enum: [cover, attachment, avatar]
+ *         filename:
+ *           type: string
+ *           description: The name the file was uploaded with
+ *         content_type:
+ *           type: string
+ *           description: Images are always stored as image/webp
+ *         size:
+ *           type: integer
+ *           description: Stored size in bytes
+ *         width:
+ *           type: integer
+ *           nullable: true
+ *         height:
+ *           type: integer
+ *           nullable: true
+ *         url:
+ *           type: string
+ *         thumbnail_url:
+ *           type: string
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *
+ * /articles/{id}/cover:
+ *   put:
+ *     summary: Upload or replace an article's cover image
+ *     description: JPEG, PNG, GIF or WebP up to 5 MB. The image is re-encoded as WebP with a thumbnail, and a replaced cover is deleted.
+ *     tags: [Articles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: The new cover
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Upload'
+ *       400:
+ *         description: No file, or an image that could not be read
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to change this article
+ *       404:
+ *         description: Article not found
+ *       413:
+ *         description: File too large
+ *       415:
+ *         description: Not an image
+ *       500:
+ *         description: Failed to upload cover
+ *   delete:
+ *     summary: Remove an article's cover image
+ *     tags: [Articles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Cover removed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to change this article
+ *       404:
+ *         description: Article or cover not found
+ *       500:
+ *         description: Failed to remove cover
+ */
+router.put(
+  "/:id/cover",
+  authenticateToken,
+  validate({ params: idParamsSchema }),
+  authorize("articles:update", { ownerId: articleOwnerId }),
+  validateUpload("cover"),
+  async (req, res) => {
+    const upload = await saveUpload(
+      getStorage(req),
+      getRepositories(req).uploads,
+      res.locals.upload!,
+      {
+        kind: "cover",
+        user_id: req.user!.id,
+        article_id: res.locals.valid.params.id,
+      },
+      getLogger(req)
+    );
+    res.json(toUploadResponse(upload));
+  }
+);
+
+router.delete(
+  "/:id/cover",
+  authenticateToken,
+  validate({ params: idParamsSchema }),
+  authorize("articles:update", { ownerId: articleOwnerId }),
+  async (req, res) => {
+    const { uploads } = getRepositories(req);
+    const cover = await uploads.findCover(res.locals.valid.params.id);
+    if (!cover || !(await uploads.delete(cover.id))) {
+      throw new NotFoundError("Cover not found");
     }
+    await removeUploadFiles(getStorage(req), [cover], getLogger(req));
     res.status(204).send();
-  } catch (error) {
-    console.error("Error deleting article:", error);
-    res.status(500).json({ error: "Failed to delete article" });
   }
-});
+);
+
+/**
+ * @swagger
+ * /articles/{id}/like:
+ *   post:
+ *     summary: Like an article
+ *     description: Liking an article twice has no further effect.
+ *     tags: [Articles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Article liked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LikeState'
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Article not found
+ *       500:
+ *         description: Failed to like article
+ *   delete:
+ *     summary: Take back a like
+ *     tags: [Articles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Like removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LikeState'
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Article not found
+ *       500:
+ *         description: Failed to unlike article
+ * components:
+ *   schemas:
+ *     LikeState:
+ *       type: object
+ *       properties:
+ *         liked:
+ *           type: boolean
+ *         like_count:
+ *           type: integer
+ */
+router.post(
+  "/:id/like",
+  authenticateToken,
+  validate({ params: idParamsSchema }),
+  async (req, res) => {
+    const articleId = res.locals.valid.params.id;
+    const article = await findVisibleArticle(req, articleId);
+    if (!article) {
+      throw new NotFoundError("Article not found");
+    }
+    const { likes } = getRepositories(req);
+    if (await likes.add(articleId, req.user!.id)) {
+      await notify(req, {
+        user_id: article.submitted_by,
+        actor_id: req.user!.id,
+        type: "like",
+        article_id: articleId,
+        comment_id: null,
+      });
+    }
+    res.json({ liked: true, like_count: await likes.count(articleId) });
+  }
+);
+
+router.delete(
+  "/:id/like",
+  authenticateToken,
+  validate({ params: idParamsSchema }),
+  async (req, res) => {
+    const articleId = res.locals.valid.params.id;
+    if (!(await findVisibleArticle(req, articleId))) {
+      throw new NotFoundError("Article not found");
+    }
+    const { likes } = getRepositories(req);
+    await likes.remove(articleId, req.user!.id);
+    res.json({ liked: false, like_count: await likes.count(articleId) });
+  }
+);
+
+/**
+ * @swagger
+ * /articles/{id}/bookmark:
+ *   post:
+ *     summary: Bookmark an article
+ *     description: Bookmarked articles are listed at /users/me/bookmarks.
+ *     tags: [Articles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Article bookmarked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BookmarkState'
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Article not found
+ *       500:
+ *         description: Failed to bookmark article
+ *   delete:
+ *     summary: Remove a bookmark
+ *     tags: [Articles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Bookmark removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BookmarkState'
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Article not found
+ *       500:
+ *         description: Failed to remove bookmark
+ * components:
+ *   schemas:
+ *     BookmarkState:
+ *       type: object
+ *       properties:
+ *         bookmarked:
+ *           type: boolean
+ */
+router.post(
+  "/:id/bookmark",
+  authenticateToken,
+  validate({ params: idParamsSchema }),
+  async (req, res) => {
+    const articleId = res.locals.valid.params.id;
+    if (!(await findVisibleArticle(req, articleId))) {
+      throw new NotFoundError("Article not found");
+    }
+    await getRepositories(req).bookmarks.add(articleId, req.user!.id);
+    res.json({ bookmarked: true });
+  }
+);
+
+router.delete(
+  "/:id/bookmark",
+  authenticateToken,
+  validate({ params: idParamsSchema }),
+  async (req, res) => {
+    const articleId = res.locals.valid.params.id;
+    if (!(await findVisibleArticle(req, articleId))) {
+      throw new NotFoundError("Article not found");
+    }
+    await getRepositories(req).bookmarks.remove(articleId, req.user!.id);
+    res.json({ bookmarked: false });
+  }
+);
 
 export default router;
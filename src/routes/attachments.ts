@@ -0,0 +1,186 @@
+import { Router, type Request, type Response } from "express";
+import { NotFoundError, ValidationError } from "../errors/index.js";
+import { getLogger } from "../logging/index.js";
+import { getRepositories } from "../repositories/index.js";
+import {
+  authenticateToken,
+  optionalAuthentication,
+} from "../middleware/auth-validation.js";
+import { authorize } from "../middleware/authorization.js";
+import {
+  MAX_ARTICLE_ATTACHMENTS,
+  attachmentParamsSchema,
+  validateUpload,
+} from "../middleware/upload-validation.js";
+import { idParamsSchema, validate } from "../middleware/validate.js";
+import { getStorage } from "../storage/index.js";
+import { findVisibleArticle } from "../utils/article-visibility.js";
+import {
+  removeUploadFiles,
+  saveUpload,
+  toUploadResponse,
+} from "../utils/uploads.js";
+
+// Mounted at /articles/:id/attachments
+const router = Router({ mergeParams: true });
+
+// Attachments are part of the article, so whoever may edit it manages them
+function articleOwnerId(req: Request, res: Response) {
+  return getRepositories(req).articles.findOwnerId(res.locals.valid.params.id);
+}
+
+const canEditArticle = authorize("articles:update", {
+  ownerId: articleOwnerId,
+});
+
+/**
+ * @swagger
+ * /articles/{id}/attachments:
+ *   get:
+ *     summary: Get the files attached to an article, oldest first
+ *     tags: [Attachments]
+ *     responses:
+ *       200:
+ *         description: The article's attachments
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Upload'
+ *       404:
+ *         description: Article not found
+ *       500:
+ *         description: Failed to fetch attachments
+ */
+router.get(
+  "/",
+  optionalAuthentication,
+  validate({ params: idParamsSchema }),
+  async (req, res) => {
+    const articleId = res.locals.valid.params.id;
+    if (!(await findVisibleArticle(req, articleId))) {
+      throw new NotFoundError("Article not found");
+    }
+
+    const attachments = await getRepositories(req).uploads.listForArticle(
+      articleId,
+      "attachment"
+    );
+    res.json(attachments.map(toUploadResponse));
+  }
+);
+
+/**
+ * @swagger
+ * /articles/{id}/attachments:
+ *   post:
+ *     summary: Attach a file to an article
+ *     description: Images or PDFs up to 10 MB, at most 20 per article. Images are re-encoded as WebP with a thumbnail.
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: File attached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Upload'
+ *       400:
+ *         description: No file, an unreadable image or too many attachments
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to change this article
+ *       404:
+ *         description: Article not found
+ *       413:
+ *         description: File too large
+ *       415:
+ *         description: Not an image or PDF
+ *       500:
+ *         description: Failed to attach file
+ */
+router.post(
+  "/",
+  authenticateToken,
+  validate({ params: idParamsSchema }),
+  canEditArticle,
+  validateUpload("attachment"),
+  async (req, res) => {
+    const articleId = res.locals.valid.params.id;
+    const { uploads } = getRepositories(req);
+    const attachments = await uploads.listForArticle(articleId, "attachment");
+    if (attachments.length >= MAX_ARTICLE_ATTACHMENTS) {
+      throw new ValidationError([
+        `An article can have at most ${MAX_ARTICLE_ATTACHMENTS} attachments`,
+      ]);
+    }
+
+    const upload = await saveUpload(
+      getStorage(req),
+      uploads,
+      res.locals.upload!,
+      { kind: "attachment", user_id: req.user!.id, article_id: articleId },
+      getLogger(req)
+    );
+    res.status(201).json(toUploadResponse(upload));
+  }
+);
+
+/**
+ * @swagger
+ * /articles/{id}/attachments/{attachmentId}:
+ *   delete:
+ *     summary: Remove a file from an article
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Attachment removed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to change this article
+ *       404:
+ *         description: Article or attachment not found
+ *       500:
+ *         description: Failed to remove attachment
+ */
+router.delete(
+  "/:attachmentId",
+  authenticateToken,
+  validate({ params: attachmentParamsSchema }),
+  canEditArticle,
+  async (req, res) => {
+    const { id, attachmentId } = res.locals.valid.params;
+    const { uploads } = getRepositories(req);
+    const attachment = await uploads.findById(attachmentId);
+    if (
+      !attachment ||
+      attachment.kind !== "attachment" ||
+      attachment.article_id !== id ||
+      !(await uploads.delete(attachment.id))
+    ) {
+      throw new NotFoundError("Attachment not found");
+    }
+    await removeUploadFiles(getStorage(req), [attachment], getLogger(req));
+    res.status(204).send();
+  }
+);
+
+export default router;
@@ -0,0 +1,89 @@
+import { Router } from "express";
+import { getRepositories } from "../repositories/index.js";
+import { authenticateToken } from "../middleware/auth-validation.js";
+import { auditLogQuerySchema } from "../middleware/audit-validation.js";
+import { authorize } from "../middleware/authorization.js";
+import { validate } from "../middleware/validate.js";
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuditEntry:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         actor_id:
+ *           type: integer
+ *           description: Who made the change
+ *         actor_username:
+ *           type: string
+ *           nullable: true
+ *           description: Null once the actor is deleted
+ *         action:
+ *           type: string
+ *           enum: [create, update, delete]
+ *         entity_type:
+ *           type: string
+ *           enum: [user, article]
+ *         entity_id:
+ *           type: integer
+ *         details:
+ *           type: object
+ *           nullable: true
+ *           description: What an update changed, e.g. the new status or role
+ *         request_id:
+ *           type: string
+ *           nullable: true
+ *           description: The X-Request-Id of the request that made the change
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *
+ * /audit-log:
+ *   get:
+ *     summary: Get a page of the audit log, newest first
+ *     description: Who created, updated or deleted which user or article. Admins only.
+ *     tags: [Audit log]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: One page of audit log entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AuditEntry'
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Only admins can read the audit log
+ *       500:
+ *         description: Failed to fetch the audit log
+ */
+router.get(
+  "/",
+  authenticateToken,
+  validate({ query: auditLogQuerySchema }),
+  authorize("audit:read"),
+  async (req, res) => {
+    const page = await getRepositories(req).auditLog.list(
+      res.locals.valid.query
+    );
+    res.json(page);
+  }
+);
+
+export default router;
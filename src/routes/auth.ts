@@ -1,115 +1,365 @@
 import { Router } from "express";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from "../errors/index.js";
 import bcrypt from "bcrypt";
-import type { ResultSetHeader } from "mysql2";
-import { pool } from "../database.js";
+import { audit } from "../audit/index.js";
 import {
-  validateRegistration,
-  validateLogin,
+  registerSchema,
+  loginSchema,
+  refreshSchema,
+  emailSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  authenticateToken,
 } from "../middleware/auth-validation.js";
-import type { User, UserResponse } from "../interfaces.js";
+import { getLogger } from "../logging/index.js";
+import { getMailer, passwordResetEmail } from "../mail/index.js";
+import { emailKey, rateLimit } from "../middleware/rate-limit.js";
+import { validate } from "../middleware/validate.js";
+import {
+  clearLoginFailures,
+  getRateLimitStore,
+  lockoutRemaining,
+  recordLoginFailure,
+} from "../rate-limit/index.js";
+import { getRepositories } from "../repositories/index.js";
 import { generateToken } from "../utils/jwt.js";
+import {
+  issueRefreshToken,
+  rotateRefreshToken,
+} from "../utils/refresh-tokens.js";
+import {
+  consumeUserToken,
+  issueUserToken,
+  sendVerificationEmail,
+} from "../utils/user-tokens.js";
 
 const router = Router();
 
-router.post("/register", validateRegistration, async (req, res) => {
-  try {
-    const { username, email, password } = req.body;
+const MINUTE_MS = 60 * 1000;
 
-    // Check if user already exists
-    const [rows] = await pool.execute(
-      "SELECT * FROM users WHERE email = ? OR username = ?",
-      [email, username]
-    );
-    const existingUsers = rows as User[];
+// Per-IP limits on everything that can be brute forced or spams email,
+// per-account limits on top where the body names an account
+const loginIpLimit = rateLimit({
+  name: "login-ip",
+  limit: 20,
+  windowMs: 15 * MINUTE_MS,
+});
+const loginAccountLimit = rateLimit({
+  name: "login-account",
+  limit: 10,
+  windowMs: 15 * MINUTE_MS,
+  key: emailKey,
+});
+const registerLimit = rateLimit({
+  name: "register-ip",
+  limit: 10,
+  windowMs: 60 * MINUTE_MS,
+});
+const emailIpLimit = rateLimit({
+  name: "email-ip",
+  limit: 10,
+  windowMs: 60 * MINUTE_MS,
+});
+const emailAccountLimit = rateLimit({
+  name: "email-account",
+  limit: 3,
+  windowMs: 60 * MINUTE_MS,
+  key: emailKey,
+});
+const tokenLimit = rateLimit({
+  name: "token-ip",
+  limit: 10,
+  windowMs: 15 * MINUTE_MS,
+});
 
-    if (existingUsers.length > 0) {
-      return res.status(400).json({
-        error: "User with this email or username already exists",
-      });
+// Same answer whether or not the account exists, so emails can't be probed
+const EMAIL_SENT_MESSAGE =
+  "If the account exists, an email with further instructions has been sent";
+
+// Unverified accounts can only log in when this is switched off
+function requireEmailVerification() {
+  return process.env.REQUIRE_EMAIL_VERIFICATION === "true";
+}
+
+router.post(
+  "/register",
+  registerLimit,
+  validate({ body: registerSchema }),
+  async (req, res) => {
+    const { username, email, password } = res.locals.valid.body;
+    const { users } = getRepositories(req);
+
+    // Check if user already exists
+    if (await users.existsWithEmailOrUsername(email, username)) {
+      throw new ConflictError(
+        "User with this email or username already exists",
+        { code: "user_exists" }
+      );
     }
 
     // Hash the password using bcrypt
     const saltRounds = 10;
     const hashedPassword = await bcrypt.hash(password, saltRounds);
 
-    // Create the user in database
-    const [result]: [ResultSetHeader, any] = await pool.execute(
-      "INSERT INTO users (username, email, password) VALUES (?, ?, ?)",
-      [username, email, hashedPassword]
-    );
-
-    // Return user info (without password)
-    const userResponse: UserResponse = {
-      id: result.insertId,
+    // Create the user in database, user info comes back without password
+    const userResponse = await users.create({
       username,
       email,
-    };
+      password: hashedPassword,
+    });
+    await audit(req, {
+      actor_id: userResponse.id,
+      action: "create",
+      entity_type: "user",
+      entity_id: userResponse.id,
+    });
+
+    // The account exists by now, a failing mailer shouldn't undo that
+    try {
+      await sendVerificationEmail(
+        getRepositories(req).userTokens,
+        getMailer(req),
+        userResponse
+      );
+    } catch (error) {
+      getLogger(req).error("Verification email error", { error });
+    }
 
     res.status(201).json({
       message: "User registered successfully",
       user: userResponse,
     });
-  } catch (error) {
-    console.error("Registration error:", error);
-    res.status(500).json({
-      error: "Failed to register user",
-    });
   }
-});
+);
 
 // User login
-router.post("/login", validateLogin, async (req, res) => {
-  try {
-    const { email, password } = req.body;
+router.post(
+  "/login",
+  loginIpLimit,
+  loginAccountLimit,
+  validate({ body: loginSchema }),
+  async (req, res) => {
+    const { email, password } = res.locals.valid.body;
+    const { users, refreshTokens } = getRepositories(req);
+    const rateLimitStore = getRateLimitStore(req);
+
+    // Locked after repeated failures, the password isn't even checked
+    const lockedFor = await lockoutRemaining(rateLimitStore, email);
+
+    if (lockedFor > 0) {
+      res.set("Retry-After", String(Math.ceil(lockedFor / 1000)));
+      throw new TooManyRequestsError(
+        "Too many failed login attempts, please try again later",
+        { code: "login_locked" }
+      );
+    }
 
     // Find user by email
-    const [rows] = await pool.execute(
-      "SELECT id, username, email, password FROM users WHERE email = ?",
-      [email]
-    );
-    const users = rows as User[];
+    const user = await users.findByEmail(email);
 
-    if (users.length === 0) {
-      return res.status(401).json({
-        error: "Invalid email or password",
+    if (!user) {
+      await recordLoginFailure(rateLimitStore, email);
+      throw new UnauthorizedError("Invalid email or password", {
+        code: "invalid_credentials",
       });
     }
 
-    const user = users[0];
-
     // Verify password using bcrypt
 
 
-    const validPassword = await bcrypt.compare(password, user!.password!);
+    const validPassword = await bcrypt.compare(password, user.password!);
 
     if (!validPassword) {
-      return res.status(401).json({
-        error: "Invalid email or password",
+      await recordLoginFailure(rateLimitStore, email);
+      throw new UnauthorizedError("Invalid email or password", {
+        code: "invalid_credentials",
       });
     }
 
-    // Generate JWT token
-    const token = generateToken(user!.id);
+    await clearLoginFailures(rateLimitStore, email);
+
+    if (requireEmailVerification() && !user.email_verified_at) {
+      throw new ForbiddenError("Email address has not been verified", {
+        code: "email_not_verified",
+      });
+    }
+
+    // Start a new session: short lived access token plus refresh token
+    const refreshToken = await issueRefreshToken(refreshTokens, user.id);
+    const token = generateToken(user.id, refreshToken.familyId);
 
     // Return user info and token
-    const userResponse: UserResponse = {
-      id: user!.id,
-      username: user!.username,
-      email: user!.email,
-    };
+    const userResponse = await users.findById(user.id);
 
     res.json({
       message: "Login successful",
       user: userResponse,
       token,
+      refreshToken: refreshToken.token,
     });
-  } catch (error) {
-    console.error("Login error:", error);
-    res.status(500).json({
-      error: "Failed to log in",
+  }
+);
+// Exchange a refresh token for a new access and refresh token
+router.post("/refresh", validate({ body: refreshSchema }), async (req, res) => {
+  const result = await rotateRefreshToken(
+    getRepositories(req).refreshTokens,
+    res.locals.valid.body.refreshToken
+  );
+
+  if (result.status === "reused") {
+    throw new UnauthorizedError(
+      "Refresh token reuse detected, session has been revoked",
+      { code: "refresh_token_reused" }
+    );
+  }
+  if (result.status === "invalid") {
+    throw new UnauthorizedError("Invalid or expired refresh token", {
+      code: "refresh_token_invalid",
     });
   }
+
+  res.json({
+    token: generateToken(result.userId, result.familyId),
+    refreshToken: result.token,
+  });
 });
+
+// Revoke the current session
+router.post("/logout", authenticateToken, async (req, res) => {
+  await getRepositories(req).refreshTokens.revokeFamily(req.user!.sessionId);
+  res.status(204).send();
+});
+
+// Revoke every session of the current user
+router.post("/logout-all", authenticateToken, async (req, res) => {
+  await getRepositories(req).refreshTokens.revokeAllForUser(req.user!.id);
+  res.status(204).send();
+});
+
+// Email a password reset link
+router.post(
+  "/forgot-password",
+  emailIpLimit,
+  emailAccountLimit,
+  validate({ body: emailSchema }),
+  async (req, res) => {
+    const { users, userTokens } = getRepositories(req);
+    const user = await users.findByEmail(res.locals.valid.body.email);
+
+    // A failing mailer must answer the same, or it tells which accounts exist
+    if (user) {
+      try {
+        const token = await issueUserToken(
+          userTokens,
+          user.id,
+          "password_reset"
+        );
+        await getMailer(req).send(passwordResetEmail(user.email, token));
+      } catch (error) {
+        getLogger(req).error("Password reset email error", { error });
+      }
+    }
+
+    res.status(202).json({ message: EMAIL_SENT_MESSAGE });
+  }
+);
+
+// Choose a new password with the token from the reset email
+router.post(
+  "/reset-password",
+  tokenLimit,
+  validate({ body: resetPasswordSchema }),
+  async (req, res) => {
+    const { token, password } = res.locals.valid.body;
+    const { users, userTokens, refreshTokens } = getRepositories(req);
+
+    const userId = await consumeUserToken(
+      userTokens,
+      token,
+      "password_reset"
+    );
+
+    if (!userId) {
+      throw new BadRequestError("Invalid or expired token", {
+        code: "user_token_invalid",
+      });
+    }
+
+    const saltRounds = 10;
+    const hashedPassword = await bcrypt.hash(password, saltRounds);
+
+    if (!(await users.updatePassword(userId, hashedPassword))) {
+      throw new BadRequestError("Invalid or expired token", {
+        code: "user_token_invalid",
+      });
+    }
+
+    // Whoever knew the old password shouldn't stay logged in
+    await refreshTokens.revokeAllForUser(userId);
+    await audit(req, {
+      actor_id: userId,
+      action: "update",
+      entity_type: "user",
+      entity_id: userId,
+      details: { fields: ["password"] },
+    });
+
+    res.json({ message: "Password has been reset" });
+  }
+);
+
+// Confirm the email address with the token from the verification email
+router.post(
+  "/verify-email",
+  tokenLimit,
+  validate({ body: verifyEmailSchema }),
+  async (req, res) => {
+    const { users, userTokens } = getRepositories(req);
+
+    const userId = await consumeUserToken(
+      userTokens,
+      res.locals.valid.body.token,
+      "email_verification"
+    );
+
+    if (!userId || !(await users.markEmailVerified(userId))) {
+      throw new BadRequestError("Invalid or expired token", {
+        code: "user_token_invalid",
+      });
+    }
+
+    res.json({ message: "Email verified successfully" });
+  }
+);
+
+// Send a fresh verification email to an unverified account
+router.post(
+  "/resend-verification",
+  emailIpLimit,
+  emailAccountLimit,
+  validate({ body: emailSchema }),
+  async (req, res) => {
+    const { users, userTokens } = getRepositories(req);
+    const user = await users.findByEmail(res.locals.valid.body.email);
+
+    if (user && !user.email_verified_at) {
+      try {
+        await sendVerificationEmail(userTokens, getMailer(req), user);
+      } catch (error) {
+        getLogger(req).error("Verification email error", { error });
+      }
+    }
+
+    res.status(202).json({ message: EMAIL_SENT_MESSAGE });
+  }
+);
+
 export default router;
 /**
  * @swagger
@@ -124,35 +374,17 @@ export default router;
  *           type: string
  *         email:
  *           type: string
- *     ErrorResponse:
- *       type: object
- *       properties:
- *         error:
+ *         avatar_url:
+ *           type: string
+ *           nullable: true
+ *         avatar_thumbnail_url:
  *           type: string
+ *           nullable: true
  * 
  * /auth/register:
  *   post:
  *     summary: Register a new user
  *     tags: [Authentication]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - username
- *               - email
- *               - password
- *             properties:
- *               username:
- *                 type: string
- *               email:
- *                 type: string
- *                 format: email
- *               password:
- *                 type: string
- *                 minLength: 6
  *     responses:
  *       201:
  *         description: User registered successfully
@@ -166,37 +398,34 @@ export default router;
  *                 user:
  *                   $ref: '#/components/schemas/UserResponse'
  *       400:
- *         description: User already exists or validation error
+ *         description: Validation error
  *         content:
- *           application/json:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       409:
+ *         description: User with this email or username already exists
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       429:
+ *         description: Too many registrations from this IP, see Retry-After
+ *         content:
+ *           application/problem+json:
  *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
+ *               $ref: '#/components/schemas/Problem'
  *       500:
  *         description: Internal server error
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
+ *               $ref: '#/components/schemas/Problem'
  * 
  * /auth/login:
  *   post:
  *     summary: Login user
  *     tags: [Authentication]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - email
- *               - password
- *             properties:
- *               email:
- *                 type: string
- *                 format: email
- *               password:
- *                 type: string
  *     responses:
  *       200:
  *         description: Login successful
@@ -211,16 +440,139 @@ export default router;
  *                   $ref: '#/components/schemas/UserResponse'
  *                 token:
  *                   type: string
+ *                   description: Access token, valid for 15 minutes
+ *                 refreshToken:
+ *                   type: string
  *       401:
  *         description: Invalid credentials
  *         content:
- *           application/json:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Email not verified, only when REQUIRE_EMAIL_VERIFICATION is on
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       429:
+ *         description: Too many attempts or account locked after repeated failures, see Retry-After
+ *         content:
+ *           application/problem+json:
  *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
+ *               $ref: '#/components/schemas/Problem'
  *       500:
  *         description: Internal server error
  *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ * 
+ * /auth/refresh:
+ *   post:
+ *     summary: Rotate a refresh token
+ *     description: Returns a new access token and refresh token. The old refresh token can't be used again, presenting it twice revokes the whole session.
+ *     tags: [Authentication]
+ *     responses:
+ *       200:
+ *         description: New token pair
+ *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
+ *               type: object
+ *               properties:
+ *                 token:
+ *                   type: string
+ *                 refreshToken:
+ *                   type: string
+ *       401:
+ *         description: Invalid, expired or reused refresh token
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ * 
+ * /auth/logout:
+ *   post:
+ *     summary: Log out of the current session
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Session revoked
+ *       401:
+ *         description: Unauthorized
+ * 
+ * /auth/logout-all:
+ *   post:
+ *     summary: Log out of every session
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: All sessions revoked
+ *       401:
+ *         description: Unauthorized
+ *
+ * /auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset email
+ *     description: Always answers 202 so it can't be used to find out which emails have an account. The emailed token is valid for one hour and can be used once.
+ *     tags: [Authentication]
+ *     responses:
+ *       202:
+ *         description: Email sent if the account exists
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *
+ * /auth/reset-password:
+ *   post:
+ *     summary: Reset the password with an emailed token
+ *     description: Sets the new password and logs the user out of every session.
+ *     tags: [Authentication]
+ *     responses:
+ *       200:
+ *         description: Password has been reset
+ *       400:
+ *         description: Invalid, expired or already used token, or validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *
+ * /auth/verify-email:
+ *   post:
+ *     summary: Verify the email address with an emailed token
+ *     description: The token is sent on registration and is valid for 24 hours.
+ *     tags: [Authentication]
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *       400:
+ *         description: Invalid, expired or already used token
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *
+ * /auth/resend-verification:
+ *   post:
+ *     summary: Resend the verification email
+ *     description: Always answers 202. A new email is only sent to unverified accounts and replaces earlier verification links.
+ *     tags: [Authentication]
+ *     responses:
+ *       202:
+ *         description: Email sent if the account exists and isn't verified
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
  */
\ No newline at end of file
@@ -0,0 +1,334 @@
+import { Router } from "express";
+import { ConflictError, NotFoundError } from "../errors/index.js";
+import {
+  getRepositories,
+  isDuplicateEntryError,
+} from "../repositories/index.js";
+import { authenticateToken } from "../middleware/auth-validation.js";
+import { authorize } from "../middleware/authorization.js";
+import {
+  categorySchema,
+  categorySlugSchema,
+} from "../middleware/category-validation.js";
+import { articleListQuerySchema } from "../middleware/article-validation.js";
+import { categoryFeedParamsSchema } from "../middleware/feed-validation.js";
+import { validate } from "../middleware/validate.js";
+import { FEED_SIZE, feedUrl, sendFeed } from "../utils/feeds.js";
+import { slugify } from "../utils/slug.js";
+
+const router = Router();
+
+// Slugs are unique, taken ones surface as duplicate entries
+function slugConflict(error: unknown) {
+  return isDuplicateEntryError(error)
+    ? new ConflictError("A category with this slug already exists", {
+        code: "slug_taken",
+      })
+    : error;
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Category:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         name:
+ *           type: string
+ *         slug:
+ *           type: string
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         article_count:
+ *           type: integer
+ *
+ * /categories:
+ *   get:
+ *     summary: Get all categories with their article counts
+ *     tags: [Categories]
+ *     responses:
+ *       200:
+ *         description: List of categories, by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Category'
+ *       500:
+ *         description: Failed to fetch categories
+ */
+router.get("/", async (req, res) => {
+  const categories = await getRepositories(req).categories.list();
+  res.json(categories);
+});
+
+/**
+ * @swagger
+ * /categories/{slug}:
+ *   get:
+ *     summary: Get a category by slug
+ *     tags: [Categories]
+ *     responses:
+ *       200:
+ *         description: Category details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Category'
+ *       404:
+ *         description: Category not found
+ *       500:
+ *         description: Failed to fetch category
+ */
+router.get(
+  "/:slug",
+  validate({ params: categorySlugSchema }),
+  async (req, res) => {
+    const category = await getRepositories(req).categories.findBySlug(
+      res.locals.valid.params.slug
+    );
+    if (!category) {
+      throw new NotFoundError("Category not found");
+    }
+    res.json(category);
+  }
+);
+
+/**
+ * @swagger
+ * /categories/{slug}/articles:
+ *   get:
+ *     summary: Get a page of articles in a category
+ *     tags: [Categories]
+ *     responses:
+ *       200:
+ *         description: One page of articles with user info
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ArticlePage'
+ *       400:
+ *         description: Invalid query parameters
+ *       404:
+ *         description: Category not found
+ *       500:
+ *         description: Failed to fetch articles
+ */
+router.get(
+  "/:slug/articles",
+  validate({ params: categorySlugSchema, query: articleListQuerySchema }),
+  async (req, res) => {
+    const { params, query } = res.locals.valid;
+    const { categories, articles } = getRepositories(req);
+    const category = await categories.findBySlug(params.slug);
+    if (!category) {
+      throw new NotFoundError("Category not found");
+    }
+
+    const page = await articles.list(
+      {
+        ...query,
+        category: category.slug,
+      },
+      null
+    );
+    res.json(page);
+  }
+);
+
+/**
+ * @swagger
+ * /categories/{slug}/feed.{format}:
+ *   get:
+ *     summary: Get a feed of the newest articles in a category
+ *     tags: [Feeds]
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/Feed'
+ *       304:
+ *         $ref: '#/components/responses/NotModified'
+ *       400:
+ *         description: Unknown feed format
+ *       404:
+ *         description: Category not found
+ *       500:
+ *         description: Failed to fetch feed
+ */
+router.get(
+  "/:slug/feed{.:format}",
+  validate({ params: categoryFeedParamsSchema }),
+  async (req, res) => {
+    const { categories, articles } = getRepositories(req);
+    const category = await categories.findBySlug(res.locals.valid.params.slug);
+    if (!category) {
+      throw new NotFoundError("Category not found");
+    }
+
+    const latest = await articles.listLatest(
+      { category: category.slug },
+      FEED_SIZE
+    );
+    sendFeed(
+      res,
+      res.locals.valid.params.format,
+      {
+        title: category.name,
+        description:
+          category.description ?? `The newest articles in ${category.name}`,
+        homePath: `/categories/${category.slug}`,
+        feedUrl: feedUrl(req),
+      },
+      latest
+    );
+  }
+);
+
+/**
+ * @swagger
+ * /categories:
+ *   post:
+ *     summary: Create a category
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Category created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Category'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Only editors and admins manage categories
+ *       409:
+ *         description: Slug already taken
+ *       500:
+ *         description: Failed to create category
+ */
+router.post(
+  "/",
+  authenticateToken,
+  validate({ body: categorySchema }),
+  authorize("categories:manage"),
+  async (req, res) => {
+    const { name, slug, description } = res.locals.valid.body;
+    try {
+      const category = await getRepositories(req).categories.create({
+        name,
+        slug: slug ?? slugify(name),
+        description: description ?? null,
+      });
+      res.status(201).json({ ...category, article_count: 0 });
+    } catch (error) {
+      throw slugConflict(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /categories/{slug}:
+ *   put:
+ *     summary: Update a category
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Updated category
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Category'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Only editors and admins manage categories
+ *       404:
+ *         description: Category not found
+ *       409:
+ *         description: Slug already taken
+ *       500:
+ *         description: Failed to update category
+ */
+router.put(
+  "/:slug",
+  authenticateToken,
+  validate({ params: categorySlugSchema, body: categorySchema }),
+  authorize("categories:manage"),
+  async (req, res) => {
+    const { params, body } = res.locals.valid;
+    const { categories } = getRepositories(req);
+    const category = await categories.findBySlug(params.slug);
+    if (!category) {
+      throw new NotFoundError("Category not found");
+    }
+
+    const changes = {
+      name: body.name,
+      slug: body.slug ?? category.slug,
+      description:
+        body.description === undefined
+          ? category.description
+          : body.description,
+    };
+    try {
+      await categories.update(category.id, changes);
+    } catch (error) {
+      throw slugConflict(error);
+    }
+    res.json({ ...category, ...changes });
+  }
+);
+
+/**
+ * @swagger
+ * /categories/{slug}:
+ *   delete:
+ *     summary: Delete a category
+ *     description: Articles in the category become uncategorized.
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Category deleted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Only editors and admins manage categories
+ *       404:
+ *         description: Category not found
+ *       500:
+ *         description: Failed to delete category
+ */
+router.delete(
+  "/:slug",
+  authenticateToken,
+  validate({ params: categorySlugSchema }),
+  authorize("categories:manage"),
+  async (req, res) => {
+    const { categories } = getRepositories(req);
+    const category = await categories.findBySlug(res.locals.valid.params.slug);
+    if (!category || !(await categories.delete(category.id))) {
+      throw new NotFoundError("Category not found");
+    }
+    res.status(204).send();
+  }
+);
+
+export default router;
@@ -0,0 +1,314 @@
+import { Router, type Request, type Response } from "express";
+import { BadRequestError, NotFoundError } from "../errors/index.js";
+import type { NewComment } from "../interfaces.js";
+import { getRepositories } from "../repositories/index.js";
+import { authenticateToken } from "../middleware/auth-validation.js";
+import { authorize } from "../middleware/authorization.js";
+import {
+  MAX_COMMENT_DEPTH,
+  commentListQuerySchema,
+  commentParamsSchema,
+  commentUpdateSchema,
+  newCommentSchema,
+} from "../middleware/comment-validation.js";
+import { idParamsSchema, validate } from "../middleware/validate.js";
+import { notify } from "../notifications/index.js";
+import { findVisibleArticle } from "../utils/article-visibility.js";
+import { buildThreads, toCommentThread } from "../utils/comment-threads.js";
+
+// Mounted at /articles/:id/comments
+const router = Router({ mergeParams: true });
+
+// Comments are owned by their author. Deleted comments and comments of
+// another article count as missing.
+async function commentOwnerId(req: Request, res: Response) {
+  const { id, commentId } = res.locals.valid.params;
+  const comment = await getRepositories(req).comments.findById(commentId);
+  if (!comment || comment.deleted_at !== null || comment.article_id !== id) {
+    return null;
+  }
+  return comment.user_id;
+}
+
+// Article owners moderate the comments on their article, so when deleting
+// they count as the owner too
+async function commentModeratorId(req: Request, res: Response) {
+  const authorId = await commentOwnerId(req, res);
+  if (authorId === null) {
+    return null;
+  }
+  const articleOwnerId = await getRepositories(req).articles.findOwnerId(
+    res.locals.valid.params.id
+  );
+  return articleOwnerId === req.user!.id ? articleOwnerId : authorId;
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Comment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         parent_id:
+ *           type: integer
+ *           nullable: true
+ *         user_id:
+ *           type: integer
+ *           nullable: true
+ *           description: Null once the comment is deleted
+ *         username:
+ *           type: string
+ *           nullable: true
+ *           description: Null once the comment is deleted
+ *         body:
+ *           type: string
+ *           nullable: true
+ *           description: Null once the comment is deleted
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         deleted:
+ *           type: boolean
+ *         replies:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Comment'
+ *     CommentPage:
+ *       type: object
+ *       properties:
+ *         data:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Comment'
+ *         meta:
+ *           $ref: '#/components/schemas/PageMeta'
+ *
+ * /articles/{id}/comments:
+ *   get:
+ *     summary: Get a page of comment threads on an article
+ *     description: Pages over top level comments, oldest first, each with all of its replies nested. Deleted comments stay as placeholders while they have replies.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: One page of comment threads
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CommentPage'
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Article not found
+ *       500:
+ *         description: Failed to fetch comments
+ */
+router.get(
+  "/",
+  authenticateToken,
+  validate({ params: idParamsSchema, query: commentListQuerySchema }),
+  async (req, res) => {
+    const { params, query } = res.locals.valid;
+    const articleId = params.id;
+    const { comments } = getRepositories(req);
+    if (!(await findVisibleArticle(req, articleId))) {
+      throw new NotFoundError("Article not found");
+    }
+
+    const page = await comments.listThreads(articleId, query);
+    const replies = await comments.listReplies(
+      page.data.map((comment) => comment.id)
+    );
+    res.json({ ...page, data: buildThreads(page.data, replies) });
+  }
+);
+
+/**
+ * @swagger
+ * /articles/{id}/comments:
+ *   post:
+ *     summary: Comment on an article or reply to a comment
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Comment created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Comment'
+ *       400:
+ *         description: Validation error, missing or deleted parent, or thread too deep
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Article not found
+ *       500:
+ *         description: Failed to create comment
+ */
+router.post(
+  "/",
+  authenticateToken,
+  validate({ params: idParamsSchema, body: newCommentSchema }),
+  authorize("comments:create"),
+  async (req, res) => {
+    const { params, body } = res.locals.valid;
+    const articleId = params.id;
+    const parentId = body.parent_id;
+    const { comments } = getRepositories(req);
+    const article = await findVisibleArticle(req, articleId);
+    if (!article) {
+      throw new NotFoundError("Article not found");
+    }
+
+    let parentAuthorId: number | null = null;
+    let thread: Pick<NewComment, "root_id" | "depth"> = {
+      root_id: null,
+      depth: 0,
+    };
+    if (parentId !== undefined) {
+      const parent = await comments.findById(parentId);
+      if (!parent || parent.article_id !== articleId) {
+        throw new BadRequestError("Parent comment does not exist", {
+          code: "parent_not_found",
+        });
+      }
+      if (parent.deleted_at !== null) {
+        throw new BadRequestError("Cannot reply to a deleted comment", {
+          code: "parent_deleted",
+        });
+      }
+      if (parent.depth >= MAX_COMMENT_DEPTH) {
+        throw new BadRequestError(
+          `Replies can be nested at most ${MAX_COMMENT_DEPTH} levels deep`,
+          { code: "thread_too_deep" }
+        );
+      }
+      thread = {
+        root_id: parent.root_id ?? parent.id,
+        depth: parent.depth + 1,
+      };
+      parentAuthorId = parent.user_id;
+    }
+
+    const comment = await comments.create({
+      article_id: articleId,
+      parent_id: parentId ?? null,
+      user_id: req.user!.id,
+      body: body.body,
+      ...thread,
+    });
+
+    // Authors replied to on their own article only hear about the reply
+    const about = { article_id: articleId, comment_id: comment.id };
+    if (parentAuthorId !== null) {
+      await notify(req, {
+        user_id: parentAuthorId,
+        actor_id: req.user!.id,
+        type: "reply",
+        ...about,
+      });
+    }
+    if (article.submitted_by !== parentAuthorId) {
+      await notify(req, {
+        user_id: article.submitted_by,
+        actor_id: req.user!.id,
+        type: "comment",
+        ...about,
+      });
+    }
+    res.status(201).json(toCommentThread(comment));
+  }
+);
+
+/**
+ * @swagger
+ * /articles/{id}/comments/{commentId}:
+ *   put:
+ *     summary: Edit your comment
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Comment updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Comment'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Only the author can edit a comment
+ *       404:
+ *         description: Comment not found
+ *       500:
+ *         description: Failed to update comment
+ */
+router.put(
+  "/:commentId",
+  authenticateToken,
+  validate({ params: commentParamsSchema, body: commentUpdateSchema }),
+  authorize("comments:update", { ownerId: commentOwnerId }),
+  async (req, res) => {
+    const commentId = res.locals.valid.params.commentId;
+    const { comments } = getRepositories(req);
+    if (!(await comments.update(commentId, res.locals.valid.body.body))) {
+      throw new NotFoundError("Comment not found");
+    }
+    const comment = await comments.findById(commentId);
+    res.json(toCommentThread(comment!));
+  }
+);
+
+/**
+ * @swagger
+ * /articles/{id}/comments/{commentId}:
+ *   delete:
+ *     summary: Delete a comment
+ *     description: The author, the owner of the article and editors can delete a comment. Replies stay, under a placeholder.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Comment deleted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to delete this comment
+ *       404:
+ *         description: Comment not found
+ *       500:
+ *         description: Failed to delete comment
+ */
+router.delete(
+  "/:commentId",
+  authenticateToken,
+  validate({ params: commentParamsSchema }),
+  authorize("comments:delete", { ownerId: commentModeratorId }),
+  async (req, res) => {
+    const deleted = await getRepositories(req).comments.softDelete(
+      res.locals.valid.params.commentId
+    );
+    if (!deleted) {
+      throw new NotFoundError("Comment not found");
+    }
+    res.status(204).send();
+  }
+);
+
+export default router;
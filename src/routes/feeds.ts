@@ -0,0 +1,64 @@
+import { Router } from "express";
+import { getRepositories } from "../repositories/index.js";
+import { feedParamsSchema } from "../middleware/feed-validation.js";
+import { validate } from "../middleware/validate.js";
+import { FEED_SIZE, feedUrl, sendFeed } from "../utils/feeds.js";
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   responses:
+ *     Feed:
+ *       description: The newest published articles, with their author's username
+ *       content:
+ *         application/rss+xml:
+ *           schema:
+ *             type: string
+ *         application/atom+xml:
+ *           schema:
+ *             type: string
+ *         application/feed+json:
+ *           schema:
+ *             type: object
+ *     NotModified:
+ *       description: Unchanged since the ETag in If-None-Match or the date in If-Modified-Since
+ *
+ * /feeds/articles.{format}:
+ *   get:
+ *     summary: Get a feed of the newest articles
+ *     tags: [Feeds]
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/Feed'
+ *       304:
+ *         $ref: '#/components/responses/NotModified'
+ *       400:
+ *         description: Unknown feed format
+ *       500:
+ *         description: Failed to fetch feed
+ */
+router.get(
+  "/articles{.:format}",
+  validate({ params: feedParamsSchema }),
+  async (req, res) => {
+    const latest = await getRepositories(req).articles.listLatest(
+      {},
+      FEED_SIZE
+    );
+    sendFeed(
+      res,
+      res.locals.valid.params.format,
+      {
+        title: "Latest articles",
+        description: "The newest articles from every author",
+        homePath: "/articles",
+        feedUrl: feedUrl(req),
+      },
+      latest
+    );
+  }
+);
+
+export default router;
@@ -0,0 +1,126 @@
+import { Router } from "express";
+import { getLogger } from "../logging/index.js";
+import { getDatabaseMonitor, getMetrics } from "../monitoring/index.js";
+import { isShuttingDown } from "../utils/shutdown.js";
+
+// Mounted at the root, outside the API rate limit, so probes and scrapers
+// are never turned away
+const router = Router();
+
+// Readiness fails when the database doesn't answer within this time
+const READY_TIMEOUT_MS = 2000;
+
+function withTimeout(promise: Promise<void>, timeoutMs: number) {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`No answer within ${timeoutMs}ms`)),
+      timeoutMs
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * @swagger
+ * /healthz:
+ *   get:
+ *     summary: Liveness probe
+ *     description: Answers as long as the process can serve requests, without checking its dependencies.
+ *     tags: [Operations]
+ *     responses:
+ *       200:
+ *         description: The process is alive
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: ok
+ */
+router.get("/healthz", (req, res) => {
+  res.json({ status: "ok" });
+});
+
+/**
+ * @swagger
+ * /readyz:
+ *   get:
+ *     summary: Readiness probe
+ *     description: Checks that the database can run a query. Unavailable as soon as the server starts shutting down.
+ *     tags: [Operations]
+ *     responses:
+ *       200:
+ *         description: Ready to serve requests
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Readiness'
+ *       503:
+ *         description: The database is unreachable or the server is shutting down
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Readiness'
+ * components:
+ *   schemas:
+ *     Readiness:
+ *       type: object
+ *       properties:
+ *         status:
+ *           type: string
+ *           enum: [ok, unavailable, shutting_down]
+ *         checks:
+ *           type: object
+ *           properties:
+ *             database:
+ *               type: string
+ *               enum: [ok, failed]
+ */
+router.get("/readyz", async (req, res) => {
+  if (isShuttingDown(req)) {
+    res.status(503).json({ status: "shutting_down", checks: {} });
+    return;
+  }
+
+  const database = getDatabaseMonitor(req);
+  if (!database) {
+    res.json({ status: "ok", checks: {} });
+    return;
+  }
+
+  try {
+    await withTimeout(database.ping(), READY_TIMEOUT_MS);
+    res.json({ status: "ok", checks: { database: "ok" } });
+  } catch (error) {
+    getLogger(req).warn("Readiness check failed", { error });
+    res
+      .status(503)
+      .json({ status: "unavailable", checks: { database: "failed" } });
+  }
+});
+
+/**
+ * @swagger
+ * /metrics:
+ *   get:
+ *     summary: Metrics in the Prometheus text format
+ *     description: Request counts, 5xx errors and latency histograms per route, and the usage of the MySQL connection pool.
+ *     tags: [Operations]
+ *     responses:
+ *       200:
+ *         description: The current metrics
+ *         content:
+ *           text/plain:
+ *             schema:
+ *               type: string
+ */
+router.get("/metrics", (req, res) => {
+  res
+    .type("text/plain; version=0.0.4; charset=utf-8")
+    .send(getMetrics(req).render());
+});
+
+export default router;
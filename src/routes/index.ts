@@ -0,0 +1,35 @@
+import type { Router } from "express";
+import articleRouter from "./articles.js";
+import auditLogRouter from "./audit-log.js";
+import attachmentRouter from "./attachments.js";
+import authRouter from "./auth.js";
+import categoryRouter from "./categories.js";
+import commentRouter from "./comments.js";
+import feedRouter from "./feeds.js";
+import notificationRouter from "./notifications.js";
+import personalFeedRouter from "./personal-feed.js";
+import revisionRouter from "./revisions.js";
+import tagRouter from "./tags.js";
+import usersRouter from "./users.js";
+
+export interface ApiRouter {
+  path: string;
+  router: Router;
+}
+
+// Every API router and where it is mounted. The OpenAPI document is built
+// from this list as well, so a router mounted elsewhere goes undocumented.
+export const apiRouters: ApiRouter[] = [
+  { path: "/users", router: usersRouter },
+  { path: "/articles", router: articleRouter },
+  { path: "/articles/:id/attachments", router: attachmentRouter },
+  { path: "/articles/:id/comments", router: commentRouter },
+  { path: "/articles/:id/revisions", router: revisionRouter },
+  { path: "/categories", router: categoryRouter },
+  { path: "/tags", router: tagRouter },
+  { path: "/feeds", router: feedRouter },
+  { path: "/feed", router: personalFeedRouter },
+  { path: "/notifications", router: notificationRouter },
+  { path: "/auth", router: authRouter },
+  { path: "/audit-log", router: auditLogRouter },
+];
@@ -0,0 +1,315 @@
+import { Router, type Response } from "express";
+import { NotFoundError } from "../errors/index.js";
+import { getLogger } from "../logging/index.js";
+import { getRepositories } from "../repositories/index.js";
+import {
+  authenticateStream,
+  authenticateToken,
+} from "../middleware/auth-validation.js";
+import {
+  notificationListQuerySchema,
+  preferencesSchema,
+} from "../middleware/notification-validation.js";
+import { idParamsSchema, validate } from "../middleware/validate.js";
+import { getNotificationHub } from "../notifications/index.js";
+
+const router = Router();
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+function sendEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Notification:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         user_id:
+ *           type: integer
+ *         actor_id:
+ *           type: integer
+ *           description: Who commented, liked or followed
+ *         actor_username:
+ *           type: string
+ *         type:
+ *           type: string
+ *           enum: [comment, reply, like, follow]
+ *           description: A comment on your article, a reply to your comment, a like of your article or a new follower
+ *         article_id:
+ *           type: integer
+ *           nullable: true
+ *         article_title:
+ *           type: string
+ *           nullable: true
+ *         comment_id:
+ *           type: integer
+ *           nullable: true
+ *         read_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *     NotificationPreferences:
+ *       type: object
+ *       description: Whether each type of notification is on
+ *       properties:
+ *         comment:
+ *           type: boolean
+ *         reply:
+ *           type: boolean
+ *         like:
+ *           type: boolean
+ *         follow:
+ *           type: boolean
+ *
+ * /notifications:
+ *   get:
+ *     summary: Get a page of your notifications, newest first
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: One page of notifications, with the number of unread ones
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Notification'
+ *                 meta:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/PageMeta'
+ *                     - type: object
+ *                       properties:
+ *                         unread_count:
+ *                           type: integer
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Failed to fetch notifications
+ */
+router.get(
+  "/",
+  authenticateToken,
+  validate({ query: notificationListQuerySchema }),
+  async (req, res) => {
+    const { notifications } = getRepositories(req);
+    const page = await notifications.list(req.user!.id, res.locals.valid.query);
+    const unreadCount = await notifications.countUnread(req.user!.id);
+    res.json({ ...page, meta: { ...page.meta, unread_count: unreadCount } });
+  }
+);
+
+/**
+ * @swagger
+ * /notifications/stream:
+ *   get:
+ *     summary: Receive your notifications as they happen
+ *     description: A Server-Sent Events stream. It starts with an unread event carrying unread_count, then sends a notification event for each new notification. Browsers' EventSource can't send headers, so the access token may also be passed as the access_token query parameter. The stream ends when the token expires or its session is logged out; reconnect with a fresh token.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: access_token
+ *         schema:
+ *           type: string
+ *         description: Access token, in place of the Authorization header
+ *     responses:
+ *       200:
+ *         description: The event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Missing, invalid or expired token
+ *       500:
+ *         description: Failed to open notification stream
+ */
+router.get("/stream", authenticateStream, async (req, res) => {
+  const { id: userId, sessionId, tokenExpiresAt } = req.user!;
+  const { notifications, refreshTokens } = getRepositories(req);
+  const unreadCount = await notifications.countUnread(userId);
+
+  // Nothing would ever clean up after a client that left while counting
+  if (req.destroyed || res.closed) {
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Stops nginx from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  sendEvent(res, "unread", { unread_count: unreadCount });
+
+  const hub = getNotificationHub(req);
+  const unsubscribe = hub.subscribe(userId, (notification) =>
+    sendEvent(res, "notification", notification)
+  );
+  // EventSource reconnects on its own, to another process if need be
+  const stopWaiting = hub.onClose(() => res.end());
+
+  // The token is only checked on connect, so the stream ends when it
+  // expires, and on the next heartbeat after its session was logged out or
+  // revoked by a password change or reset
+  const expiry = setTimeout(
+    () => res.end(),
+    tokenExpiresAt.getTime() - Date.now()
+  );
+  expiry.unref();
+  const heartbeat = setInterval(() => {
+    refreshTokens
+      .hasActiveToken(sessionId, userId)
+      .then((active) => {
+        if (active) {
+          res.write(": heartbeat\n\n");
+        } else {
+          res.end();
+        }
+      })
+      .catch((error) => {
+        getLogger(req).error("Notification stream error", { error });
+        res.end();
+      });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  req.on("close", () => {
+    clearTimeout(expiry);
+    clearInterval(heartbeat);
+    unsubscribe();
+    stopWaiting();
+  });
+});
+
+/**
+ * @swagger
+ * /notifications/read-all:
+ *   post:
+ *     summary: Mark all your notifications read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: All notifications read
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Failed to mark notifications read
+ */
+router.post("/read-all", authenticateToken, async (req, res) => {
+  await getRepositories(req).notifications.markAllRead(req.user!.id);
+  res.status(204).send();
+});
+
+/**
+ * @swagger
+ * /notifications/preferences:
+ *   get:
+ *     summary: Get which types of notifications you receive
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Your preferences
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotificationPreferences'
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Failed to fetch notification preferences
+ *   put:
+ *     summary: Turn types of notifications on or off
+ *     description: Types left out keep their setting.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Your updated preferences
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotificationPreferences'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Failed to update notification preferences
+ */
+router.get("/preferences", authenticateToken, async (req, res) => {
+  res.json(
+    await getRepositories(req).notifications.getPreferences(req.user!.id)
+  );
+});
+
+router.put(
+  "/preferences",
+  authenticateToken,
+  validate({ body: preferencesSchema }),
+  async (req, res) => {
+    const { notifications } = getRepositories(req);
+    await notifications.updatePreferences(req.user!.id, res.locals.valid.body);
+    res.json(await notifications.getPreferences(req.user!.id));
+  }
+);
+
+/**
+ * @swagger
+ * /notifications/{id}/read:
+ *   post:
+ *     summary: Mark one of your notifications read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Notification read
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Notification not found
+ *       500:
+ *         description: Failed to mark notification read
+ */
+router.post(
+  "/:id/read",
+  authenticateToken,
+  validate({ params: idParamsSchema }),
+  async (req, res) => {
+    const marked = await getRepositories(req).notifications.markRead(
+      res.locals.valid.params.id,
+      req.user!.id
+    );
+    if (!marked) {
+      throw new NotFoundError("Notification not found");
+    }
+    res.status(204).send();
+  }
+);
+
+export default router;
@@ -0,0 +1,45 @@
+import { Router } from "express";
+import { getRepositories } from "../repositories/index.js";
+import { authenticateToken } from "../middleware/auth-validation.js";
+import { feedQuerySchema } from "../middleware/follow-validation.js";
+import { validate } from "../middleware/validate.js";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /feed:
+ *   get:
+ *     summary: Get a page of articles by the users you follow
+ *     description: Published articles only, most recently published first. Follow the nextCursor for stable pages while new articles arrive.
+ *     tags: [Feeds]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: One page of articles with user info
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ArticlePage'
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Failed to fetch feed
+ */
+router.get(
+  "/",
+  authenticateToken,
+  validate({ query: feedQuerySchema }),
+  async (req, res) => {
+    const page = await getRepositories(req).follows.listFeed(
+      req.user!.id,
+      res.locals.valid.query
+    );
+    res.json(page);
+  }
+);
+
+export default router;
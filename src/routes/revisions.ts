@@ -0,0 +1,300 @@
+import { Router, type Request, type Response } from "express";
+import { audit } from "../audit/index.js";
+import { NotFoundError } from "../errors/index.js";
+import { getRepositories } from "../repositories/index.js";
+import { authenticateToken } from "../middleware/auth-validation.js";
+import { authorize } from "../middleware/authorization.js";
+import {
+  revisionDiffQuerySchema,
+  revisionListQuerySchema,
+  revisionParamsSchema,
+} from "../middleware/revision-validation.js";
+import { idParamsSchema, validate } from "../middleware/validate.js";
+import { diffLines } from "../utils/line-diff.js";
+
+// Mounted at /articles/:id/revisions
+const router = Router({ mergeParams: true });
+
+// History is for those who may edit the article, it can hold text the
+// author took out on purpose
+function articleOwnerId(req: Request, res: Response) {
+  return getRepositories(req).articles.findOwnerId(res.locals.valid.params.id);
+}
+
+const canEditArticle = authorize("articles:update", {
+  ownerId: articleOwnerId,
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RevisionSummary:
+ *       type: object
+ *       description: The article as it was before an edit, with who made that edit and when
+ *       properties:
+ *         article_id:
+ *           type: integer
+ *         revision:
+ *           type: integer
+ *         title:
+ *           type: string
+ *         category:
+ *           type: string
+ *           nullable: true
+ *         edited_by:
+ *           type: integer
+ *           nullable: true
+ *           description: Null once the editor's account is deleted
+ *         editor_username:
+ *           type: string
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *     Revision:
+ *       allOf:
+ *         - $ref: '#/components/schemas/RevisionSummary'
+ *         - type: object
+ *           properties:
+ *             body:
+ *               type: string
+ *     RevisionPage:
+ *       type: object
+ *       properties:
+ *         data:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/RevisionSummary'
+ *         meta:
+ *           $ref: '#/components/schemas/PageMeta'
+ *     DiffLine:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [unchanged, added, removed]
+ *         line:
+ *           type: string
+ *     RevisionDiff:
+ *       type: object
+ *       properties:
+ *         from:
+ *           type: integer
+ *         to:
+ *           type: integer
+ *           nullable: true
+ *           description: Null when compared with the current article
+ *         title:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/DiffLine'
+ *         body:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/DiffLine'
+ *         category:
+ *           type: object
+ *           properties:
+ *             from:
+ *               type: string
+ *               nullable: true
+ *             to:
+ *               type: string
+ *               nullable: true
+ *
+ * /articles/{id}/revisions:
+ *   get:
+ *     summary: Get a page of an article's revisions, newest first
+ *     description: Every update keeps the replaced title, body and category as a revision. Only users who may edit the article see them.
+ *     tags: [Revisions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: One page of revisions, without bodies
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RevisionPage'
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to edit this article
+ *       404:
+ *         description: Article not found
+ *       500:
+ *         description: Failed to fetch revisions
+ */
+router.get(
+  "/",
+  authenticateToken,
+  validate({ params: idParamsSchema, query: revisionListQuerySchema }),
+  canEditArticle,
+  async (req, res) => {
+    const { params, query } = res.locals.valid;
+    const page = await getRepositories(req).revisions.list(params.id, query);
+    res.json(page);
+  }
+);
+
+/**
+ * @swagger
+ * /articles/{id}/revisions/diff:
+ *   get:
+ *     summary: Compare two revisions line by line
+ *     description: Without to, the revision is compared with the current article.
+ *     tags: [Revisions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Changes from the first revision to the second
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RevisionDiff'
+ *       400:
+ *         description: Invalid revision numbers
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to edit this article
+ *       404:
+ *         description: Article or revision not found
+ *       500:
+ *         description: Failed to compare revisions
+ */
+router.get(
+  "/diff",
+  authenticateToken,
+  validate({ params: idParamsSchema, query: revisionDiffQuerySchema }),
+  canEditArticle,
+  async (req, res) => {
+    const articleId = res.locals.valid.params.id;
+    const { from, to } = res.locals.valid.query;
+    const { articles, revisions } = getRepositories(req);
+    const before = await revisions.find(articleId, from);
+    const after = to
+      ? await revisions.find(articleId, to)
+      : await articles.findById(articleId);
+    if (!before || !after) {
+      throw new NotFoundError("Revision not found");
+    }
+
+    res.json({
+      from,
+      to: to ?? null,
+      title: diffLines(before.title, after.title),
+      body: diffLines(before.body, after.body),
+      category: { from: before.category, to: after.category ?? null },
+    });
+  }
+);
+
+/**
+ * @swagger
+ * /articles/{id}/revisions/{rev}:
+ *   get:
+ *     summary: Get one revision of an article
+ *     tags: [Revisions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The revision with its body
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Revision'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to edit this article
+ *       404:
+ *         description: Article or revision not found
+ *       500:
+ *         description: Failed to fetch revision
+ */
+router.get(
+  "/:rev",
+  authenticateToken,
+  validate({ params: revisionParamsSchema }),
+  canEditArticle,
+  async (req, res) => {
+    const { id, rev } = res.locals.valid.params;
+    const revision = await getRepositories(req).revisions.find(id, rev);
+    if (!revision) {
+      throw new NotFoundError("Revision not found");
+    }
+    res.json(revision);
+  }
+);
+
+/**
+ * @swagger
+ * /articles/{id}/revisions/{rev}/restore:
+ *   post:
+ *     summary: Restore the title, body and category of a revision
+ *     description: Restoring is an update itself, so the replaced version becomes a new revision. Tags are left alone. A category deleted since is restored as uncategorized.
+ *     tags: [Revisions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The restored article
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Article'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not allowed to edit this article
+ *       404:
+ *         description: Article or revision not found
+ *       500:
+ *         description: Failed to restore revision
+ */
+router.post(
+  "/:rev/restore",
+  authenticateToken,
+  validate({ params: revisionParamsSchema }),
+  canEditArticle,
+  async (req, res) => {
+    const { id: articleId, rev } = res.locals.valid.params;
+    const { articles, categories, revisions } = getRepositories(req);
+    const revision = await revisions.find(articleId, rev);
+    if (!revision) {
+      throw new NotFoundError("Revision not found");
+    }
+
+    const category = revision.category
+      ? await categories.findBySlug(revision.category)
+      : null;
+    const updated = await articles.update(
+      articleId,
+      {
+        title: revision.title,
+        body: revision.body,
+        category_id: category?.id ?? null,
+      },
+      req.user!.id
+    );
+    if (!updated) {
+      throw new NotFoundError("Article not found");
+    }
+    await audit(req, {
+      actor_id: req.user!.id,
+      action: "update",
+      entity_type: "article",
+      entity_id: articleId,
+      details: { restored_revision: rev },
+    });
+    res.json(await articles.findById(articleId));
+  }
+);
+
+export default router;
@@ -0,0 +1,268 @@
+import { Router } from "express";
+import { ConflictError, NotFoundError } from "../errors/index.js";
+import {
+  getRepositories,
+  isDuplicateEntryError,
+} from "../repositories/index.js";
+import { authenticateToken } from "../middleware/auth-validation.js";
+import { authorize } from "../middleware/authorization.js";
+import { tagSchema, tagSlugSchema } from "../middleware/tag-validation.js";
+import { articleListQuerySchema } from "../middleware/article-validation.js";
+import { validate } from "../middleware/validate.js";
+import { slugify } from "../utils/slug.js";
+
+const router = Router();
+
+// Slugs are unique, taken ones surface as duplicate entries
+function slugConflict(error: unknown) {
+  return isDuplicateEntryError(error)
+    ? new ConflictError("A tag with this slug already exists", {
+        code: "slug_taken",
+      })
+    : error;
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Tag:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         name:
+ *           type: string
+ *         slug:
+ *           type: string
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         article_count:
+ *           type: integer
+ *
+ * /tags:
+ *   get:
+ *     summary: Get all tags with their article counts
+ *     tags: [Tags]
+ *     responses:
+ *       200:
+ *         description: List of tags, by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Tag'
+ *       500:
+ *         description: Failed to fetch tags
+ */
+router.get("/", async (req, res) => {
+  const tags = await getRepositories(req).tags.list();
+  res.json(tags);
+});
+
+/**
+ * @swagger
+ * /tags/{slug}:
+ *   get:
+ *     summary: Get a tag by slug
+ *     tags: [Tags]
+ *     responses:
+ *       200:
+ *         description: Tag details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Tag'
+ *       404:
+ *         description: Tag not found
+ *       500:
+ *         description: Failed to fetch tag
+ */
+router.get("/:slug", validate({ params: tagSlugSchema }), async (req, res) => {
+  const tag = await getRepositories(req).tags.findBySlug(
+    res.locals.valid.params.slug
+  );
+  if (!tag) {
+    throw new NotFoundError("Tag not found");
+  }
+  res.json(tag);
+});
+
+/**
+ * @swagger
+ * /tags/{slug}/articles:
+ *   get:
+ *     summary: Get a page of articles with a tag
+ *     tags: [Tags]
+ *     responses:
+ *       200:
+ *         description: One page of articles with user info
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ArticlePage'
+ *       400:
+ *         description: Invalid query parameters
+ *       404:
+ *         description: Tag not found
+ *       500:
+ *         description: Failed to fetch articles
+ */
+router.get(
+  "/:slug/articles",
+  validate({ params: tagSlugSchema, query: articleListQuerySchema }),
+  async (req, res) => {
+    const { params, query } = res.locals.valid;
+    const { tags, articles } = getRepositories(req);
+    const tag = await tags.findBySlug(params.slug);
+    if (!tag) {
+      throw new NotFoundError("Tag not found");
+    }
+
+    const page = await articles.list(
+      {
+        ...query,
+        tag: tag.slug,
+      },
+      null
+    );
+    res.json(page);
+  }
+);
+
+/**
+ * @swagger
+ * /tags:
+ *   post:
+ *     summary: Create a tag
+ *     description: Tags are also created on the fly when used on an article.
+ *     tags: [Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Tag created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Tag'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Only editors and admins manage tags
+ *       409:
+ *         description: Slug already taken
+ *       500:
+ *         description: Failed to create tag
+ */
+router.post(
+  "/",
+  authenticateToken,
+  validate({ body: tagSchema }),
+  authorize("tags:manage"),
+  async (req, res) => {
+    const { name, slug } = res.locals.valid.body;
+    try {
+      const tag = await getRepositories(req).tags.create({
+        name,
+        slug: slug ?? slugify(name, 50),
+      });
+      res.status(201).json({ ...tag, article_count: 0 });
+    } catch (error) {
+      throw slugConflict(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /tags/{slug}:
+ *   put:
+ *     summary: Rename a tag
+ *     tags: [Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Updated tag
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Tag'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Only editors and admins manage tags
+ *       404:
+ *         description: Tag not found
+ *       409:
+ *         description: Slug already taken
+ *       500:
+ *         description: Failed to update tag
+ */
+router.put(
+  "/:slug",
+  authenticateToken,
+  validate({ params: tagSlugSchema, body: tagSchema }),
+  authorize("tags:manage"),
+  async (req, res) => {
+    const { params, body } = res.locals.valid;
+    const { tags } = getRepositories(req);
+    const tag = await tags.findBySlug(params.slug);
+    if (!tag) {
+      throw new NotFoundError("Tag not found");
+    }
+
+    const changes = { name: body.name, slug: body.slug ?? tag.slug };
+    try {
+      await tags.update(tag.id, changes);
+    } catch (error) {
+      throw slugConflict(error);
+    }
+    res.json({ ...tag, ...changes });
+  }
+);
+
+/**
+ * @swagger
+ * /tags/{slug}:
+ *   delete:
+ *     summary: Delete a tag
+ *     description: The tag is removed from every article that had it.
+ *     tags: [Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Tag deleted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Only editors and admins manage tags
+ *       404:
+ *         description: Tag not found
+ *       500:
+ *         description: Failed to delete tag
+ */
+router.delete(
+  "/:slug",
+  authenticateToken,
+  validate({ params: tagSlugSchema }),
+  authorize("tags:manage"),
+  async (req, res) => {
+    const { tags } = getRepositories(req);
+    const tag = await tags.findBySlug(res.locals.valid.params.slug);
+    if (!tag || !(await tags.delete(tag.id))) {
+      throw new NotFoundError("Tag not found");
+    }
+    res.status(204).send();
+  }
+);
+
+export default router;
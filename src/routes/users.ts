@@ -1,16 +1,120 @@
-import { Router } from "express";
-import { type ResultSetHeader } from "mysql2";
-import { pool } from "../database.js";
-import type { Article, User, UserResponse } from "../interfaces.js";
+import { Router, type Request, type Response } from "express";
 import {
-  validateUserId,
-  validateRequiredUserData,
-  validatePartialUserData,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../errors/index.js";
+import bcrypt from "bcrypt";
+import { audit } from "../audit/index.js";
+import type { UserProfile } from "../interfaces.js";
+import { getLogger } from "../logging/index.js";
+import { getMailer } from "../mail/index.js";
+import {
+  getRepositories,
+  isDuplicateEntryError,
+} from "../repositories/index.js";
+import {
+  changePasswordSchema,
+  deleteUserSchema,
+  partialUserDataSchema,
+  roleSchema,
+  userDataSchema,
+  type PartialUserData,
 } from "../middleware/user-validation.js";
-import { authenticateToken } from "../middleware/auth-validation.js";
+import {
+  authenticateToken,
+  optionalAuthentication,
+} from "../middleware/auth-validation.js";
+import { authorize } from "../middleware/authorization.js";
+import { requireCurrentPassword } from "../middleware/reauthentication.js";
+import {
+  articleListQuerySchema,
+  bookmarkListQuerySchema,
+} from "../middleware/article-validation.js";
+import { userFeedParamsSchema } from "../middleware/feed-validation.js";
+import { followListQuerySchema } from "../middleware/follow-validation.js";
+import { validateUpload } from "../middleware/upload-validation.js";
+import { idParamsSchema, validate } from "../middleware/validate.js";
+import { notify } from "../notifications/index.js";
+import { getStorage } from "../storage/index.js";
+import { FEED_SIZE, feedUrl, sendFeed } from "../utils/feeds.js";
+import { generateToken } from "../utils/jwt.js";
+import { issueRefreshToken } from "../utils/refresh-tokens.js";
+import {
+  removeUploadFiles,
+  saveUpload,
+  toUploadResponse,
+} from "../utils/uploads.js";
+import { sendVerificationEmail } from "../utils/user-tokens.js";
 
 const router = Router();
 
+// The user being changed is the resource owner, /me routes target yourself
+const targetUserId = (req: Request, res: Response): number =>
+  req.params.id === undefined ? req.user!.id : res.locals.valid.params.id;
+
+// Users changing their own email have to confirm their password first
+async function changesOwnEmail(req: Request, res: Response) {
+  const userId = targetUserId(req, res);
+  if (req.body.email === undefined || userId !== req.user!.id) {
+    return false;
+  }
+  const user = await getRepositories(req).users.findById(userId);
+  return user !== null && user.email !== req.body.email;
+}
+
+// Deleting your own account needs your password, admins deleting others don't
+const deletesOwnAccount = (req: Request, res: Response) =>
+  targetUserId(req, res) === req.user!.id;
+
+// Apply profile changes, a new email address has to be verified again
+async function updateProfile(
+  req: Request,
+  res: Response,
+  userId: number,
+  changes: { username?: string; email?: string }
+) {
+  const { users, userTokens } = getRepositories(req);
+  const previous = await users.findById(userId);
+
+  if (!previous) {
+    throw new NotFoundError("User not found");
+  }
+
+  try {
+    await users.update(userId, changes);
+  } catch (error) {
+    if (isDuplicateEntryError(error)) {
+      throw new ConflictError(
+        "User with this email or username already exists",
+        { code: "user_exists" }
+      );
+    }
+    throw error;
+  }
+  await audit(req, {
+    actor_id: req.user!.id,
+    action: "update",
+    entity_type: "user",
+    entity_id: userId,
+    details: { fields: Object.keys(changes) },
+  });
+
+  if (changes.email !== undefined && changes.email !== previous.email) {
+    // The change is saved by now, a failing mailer shouldn't undo it
+    try {
+      await sendVerificationEmail(userTokens, getMailer(req), {
+        id: userId,
+        email: changes.email,
+      });
+    } catch (error) {
+      getLogger(req).error("Verification email error", { error });
+    }
+  }
+
+  res.json({ id: userId, ...changes });
+}
+
 /**
  * @swagger
  * /users:
@@ -30,96 +134,324 @@ const router = Router();
  *         description: Failed to retrieve users
  */
 router.get("/", async (req, res) => {
-  try {
-    const [users] = (await pool.execute(
-      "SELECT id, username, email FROM users"
-    )) as [UserResponse[], unknown];
-    res.json(users);
-  } catch (error) {
-    console.error("Database error:", error);
-    res.status(500).json({
-      error: "Failed to retrieve users",
-    });
-  }
+  const users = await getRepositories(req).users.findAll();
+  res.json(users);
 });
 
 /**
  * @swagger
- * /users/{id}:
+ * /users/me:
  *   get:
- *     summary: Get user by ID
+ *     summary: Get the current user
  *     tags: [Users]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: User details
  *         content:
  *           application/json:
  *             schema:
+ *               $ref: '#/components/schemas/UserProfile'
+ *       401:
+ *         description: Unauthorized
+ *   patch:
+ *     summary: Partially update the current user
+ *     description: Changing the email requires the current password and marks the new address unverified until the emailed link is used.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Updated user
+ *         content:
+ *           application/json:
+ *             schema:
  *               $ref: '#/components/schemas/User'
  *       400:
- *         description: Invalid user ID
- *       404:
- *         description: User not found
+ *         description: No valid fields, validation error or email/username taken
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Current password is incorrect
+ *   delete:
+ *     summary: Delete the current user
+ *     description: Requires the current password.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: User deleted successfully
+ *       400:
+ *         description: Current password missing
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Current password is incorrect
+ */
+router.get("/me", authenticateToken, getUser);
+router.patch(
+  "/me",
+  authenticateToken,
+  validate({ body: partialUserDataSchema }),
+  authorize("users:update", { ownerId: targetUserId }),
+  requireCurrentPassword({ when: changesOwnEmail }),
+  (req, res) => patchUser(req, res, res.locals.valid.body)
+);
+router.delete(
+  "/me",
+  authenticateToken,
+  validate({ body: deleteUserSchema }),
+  authorize("users:delete", { ownerId: targetUserId }),
+  requireCurrentPassword(),
+  deleteUser
+);
+
+/**
+ * @swagger
+ * /users/me/password:
+ *   post:
+ *     summary: Change the current user's password
+ *     description: Logs out every session, including the current one, and returns a new token pair for the caller.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Password changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 token:
+ *                   type: string
+ *                 refreshToken:
+ *                   type: string
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Current password is incorrect
  *       500:
- *         description: Failed to update user
+ *         description: Failed to change password
  */
-router.get("/:id", validateUserId, async (req, res) => {
-  try {
-    const userId = Number(req.params.id);
+router.post(
+  "/me/password",
+  authenticateToken,
+  validate({ body: changePasswordSchema }),
+  requireCurrentPassword(),
+  async (req, res) => {
+    const userId = req.user!.id;
+    const { users, userTokens, refreshTokens } = getRepositories(req);
 
-    const [rows] = await pool.execute(
-      "SELECT id, username, email FROM users WHERE id = ?",
-      [userId]
+    const saltRounds = 10;
+    const hashedPassword = await bcrypt.hash(
+      res.locals.valid.body.newPassword,
+      saltRounds
     );
+    await users.updatePassword(userId, hashedPassword);
+    await audit(req, {
+      actor_id: userId,
+      action: "update",
+      entity_type: "user",
+      entity_id: userId,
+      details: { fields: ["password"] },
+    });
 
-    const user = rows as UserResponse[];
-    if (user.length === 0) {
-      return res.status(404).json({ error: "User not found" });
-    }
+    // Every existing session and pending reset link stops working,
+    // the caller gets a fresh session to stay logged in
+    await refreshTokens.revokeAllForUser(userId);
+    await userTokens.invalidateForUser(userId, "password_reset");
+    const refreshToken = await issueRefreshToken(refreshTokens, userId);
 
-    res.json(user);
-  } catch (error) {
-    console.error("Database error:", error);
-    res.status(500).json({
-      error: "Failed to update user",
+    res.json({
+      message: "Password changed successfully",
+      token: generateToken(userId, refreshToken.familyId),
+      refreshToken: refreshToken.token,
     });
   }
-});
+);
 
 /**
  * @swagger
- * /users/{id}:
+ * /users/me/bookmarks:
+ *   get:
+ *     summary: Get a page of your bookmarked articles, most recent bookmark first
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: One page of bookmarked articles
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/Article'
+ *                       - type: object
+ *                         properties:
+ *                           bookmarked_at:
+ *                             type: string
+ *                             format: date-time
+ *                 meta:
+ *                   $ref: '#/components/schemas/PageMeta'
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Failed to fetch bookmarks
+ */
+router.get(
+  "/me/bookmarks",
+  authenticateToken,
+  validate({ query: bookmarkListQuerySchema }),
+  async (req, res) => {
+    const page = await getRepositories(req).bookmarks.listForUser(
+      req.user!.id,
+      res.locals.valid.query
+    );
+    res.json(page);
+  }
+);
+
+/**
+ * @swagger
+ * /users/me/avatar:
  *   put:
- *     summary: Update a user completely
+ *     summary: Upload or replace your avatar
+ *     description: JPEG, PNG, GIF or WebP up to 2 MB. The image is cropped square, re-encoded as WebP with a thumbnail, and a replaced avatar is deleted.
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
  *     requestBody:
  *       required: true
  *       content:
- *         application/json:
+ *         multipart/form-data:
  *           schema:
  *             type: object
  *             required:
- *               - username
- *               - email
+ *               - file
  *             properties:
- *               username:
- *                 type: string
- *               email:
+ *               file:
  *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: The new avatar
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Upload'
+ *       400:
+ *         description: No file, or an image that could not be read
+ *       401:
+ *         description: Unauthorized
+ *       413:
+ *         description: File too large
+ *       415:
+ *         description: Not an image
+ *       500:
+ *         description: Failed to upload avatar
+ *   delete:
+ *     summary: Remove your avatar
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Avatar removed
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No avatar to remove
+ *       500:
+ *         description: Failed to remove avatar
+ */
+router.put(
+  "/me/avatar",
+  authenticateToken,
+  validateUpload("avatar"),
+  async (req, res) => {
+    const upload = await saveUpload(
+      getStorage(req),
+      getRepositories(req).uploads,
+      res.locals.upload!,
+      { kind: "avatar", user_id: req.user!.id, article_id: null },
+      getLogger(req)
+    );
+    res.json(toUploadResponse(upload));
+  }
+);
+
+router.delete("/me/avatar", authenticateToken, async (req, res) => {
+  const { uploads } = getRepositories(req);
+  const avatar = await uploads.findAvatar(req.user!.id);
+  if (!avatar || !(await uploads.delete(avatar.id))) {
+    throw new NotFoundError("Avatar not found");
+  }
+  await removeUploadFiles(getStorage(req), [avatar], getLogger(req));
+  res.status(204).send();
+});
+
+/**
+ * @swagger
+ * /users/{id}:
+ *   get:
+ *     summary: Get user by ID
+ *     tags: [Users]
+ *     responses:
+ *       200:
+ *         description: User details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UserProfile'
+ *       400:
+ *         description: Invalid user ID
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Failed to update user
+ */
+router.get("/:id", validate({ params: idParamsSchema }), getUser);
+
+async function getUser(req: Request, res: Response) {
+  const userId = targetUserId(req, res);
+
+  const { users, follows } = getRepositories(req);
+  const user = await users.findById(userId);
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  const counts = await follows.counts(userId);
+  const profile: UserProfile = {
+    ...user,
+    follower_count: counts.followers,
+    following_count: counts.following,
+  };
+  res.json(profile);
+}
+
+/**
+ * @swagger
+ * /users/{id}:
+ *   put:
+ *     summary: Update a user completely
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Updated user
@@ -129,6 +461,8 @@ router.get("/:id", validateUserId, async (req, res) => {
  *               $ref: '#/components/schemas/User'
  *       400:
  *         description: Invalid user ID
+ *       403:
+ *         description: Not allowed to update this user or current password is incorrect
  *       404:
  *         description: User not found
  *       500:
@@ -137,32 +471,15 @@ router.get("/:id", validateUserId, async (req, res) => {
 router.put(
   "/:id",
   authenticateToken,
-  validateUserId,
-  validateRequiredUserData,
+  validate({ params: idParamsSchema, body: userDataSchema }),
+  authorize("users:update", { ownerId: targetUserId }),
+  requireCurrentPassword({ when: changesOwnEmail }),
   async (req, res) => {
-    try {
-      const userId = Number(req.params.id);
-      const { username, email } = req.body;
-
-      const [result]: [ResultSetHeader, any] = await pool.execute(
-        "UPDATE users SET username = ?, email = ? WHERE id = ?",
-        [username, email, userId]
-      );
-
-      if (result.affectedRows === 0) {
-        return res.status(404).json({
-          error: "User not found",
-        });
-      }
-
-      const user: UserResponse = { id: userId, username, email };
-      res.json(user);
-    } catch (error) {
-      console.error("Database error:", error);
-      res.status(500).json({
-        error: "Failed to update user",
-      });
-    }
+    const { params, body } = res.locals.valid;
+    await updateProfile(req, res, params.id, {
+      username: body.username,
+      email: body.email,
+    });
   }
 );
 
@@ -174,23 +491,6 @@ router.put(
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               username:
- *                 type: string
- *               email:
- *                 type: string
  *     responses:
  *       200:
  *         description: Updated user
@@ -200,6 +500,8 @@ router.put(
  *               $ref: '#/components/schemas/User'
  *       400:
  *         description: Invalid user ID or no valid fields
+ *       403:
+ *         description: Not allowed to update this user or current password is incorrect
  *       404:
  *         description: User not found
  *       500:
@@ -208,149 +510,396 @@ router.put(
 router.patch(
   "/:id",
   authenticateToken,
-  validateUserId,
-  validatePartialUserData,
-  async (req, res) => {
-    try {
-      const userId = Number(req.params.id);
-      const { username, email } = req.body;
-
-      if (req.user!.id !== userId) {
-        return res
-          .status(403)
-          .json({ error: "Forbidden: You can only update your own profile" });
-      }
-
-      const fieldsToUpdate = [];
-      const values = [];
+  validate({ params: idParamsSchema, body: partialUserDataSchema }),
+  authorize("users:update", { ownerId: targetUserId }),
+  requireCurrentPassword({ when: changesOwnEmail }),
+  (req, res) => patchUser(req, res, res.locals.valid.body)
+);
 
-      if (username) {
-        fieldsToUpdate.push("username = ?");
-        values.push(username);
-      }
+async function patchUser(req: Request, res: Response, data: PartialUserData) {
+  const userId = targetUserId(req, res);
+  const { username, email } = data;
 
-      if (email) {
-        fieldsToUpdate.push("email = ?");
-        values.push(email);
-      }
+  const changes: { username?: string; email?: string } = {};
 
-      if (fieldsToUpdate.length === 0) {
-        return res.status(400).json({
-          error: "No valid fields to update",
-        });
-      }
-
-      values.push(userId);
-
-      const [result]: [ResultSetHeader, any] = await pool.execute(
-        `UPDATE users SET ${fieldsToUpdate.join(", ")} WHERE id = ?`,
-        values
-      );
+  if (username) {
+    changes.username = username;
+  }
 
-      if (result.affectedRows === 0) {
-        return res.status(404).json({
-          error: "User not found",
-        });
-      }
+  if (email) {
+    changes.email = email;
+  }
 
-      const user: UserResponse = { id: userId, username, email };
-      res.json(user);
-    } catch (error) {
-      console.error("Database error:", error);
-      res.status(500).json({
-        error: "Failed to update user",
-      });
-    }
+  if (Object.keys(changes).length === 0) {
+    throw new ValidationError(["No valid fields to update"]);
   }
-);
+
+  await updateProfile(req, res, userId, changes);
+}
 
 /**
  * @swagger
  * /users/{id}:
  *   delete:
  *     summary: Delete a user
+ *     description: Deleting your own account requires the current password.
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
  *     responses:
  *       200:
  *         description: User deleted successfully
+ *       400:
+ *         description: Current password missing when deleting yourself
+ *       403:
+ *         description: Not allowed to delete this user or current password is incorrect
  *       404:
  *         description: User not found
  *       500:
  *         description: Failed to delete user
  */
-router.delete("/:id", authenticateToken, validateUserId, async (req, res) => {
-  try {
-    const userId = Number(req.params.id);
+router.delete(
+  "/:id",
+  authenticateToken,
+  validate({ params: idParamsSchema, body: deleteUserSchema }),
+  authorize("users:delete", { ownerId: targetUserId }),
+  requireCurrentPassword({ when: deletesOwnAccount }),
+  deleteUser
+);
 
-    const [result]: [ResultSetHeader, any] = await pool.execute(
-      "DELETE FROM users WHERE id = ?",
-      [userId]
-    );
+async function deleteUser(req: Request, res: Response) {
+  const userId = targetUserId(req, res);
+  const { users, uploads } = getRepositories(req);
 
-    if (result.affectedRows > 0) {
-      return res.json({ message: "User deleted successfully" });
-    }
+  // Their uploads and articles go with them, the stored files after
+  const files = await uploads.listForUser(userId);
+  const deleted = await users.delete(userId);
 
-    if (result.affectedRows === 0) {
-      return res.status(404).json({
-        error: "User not found",
-      });
-    }
+  if (!deleted) {
+    throw new NotFoundError("User not found");
+  }
+  await audit(req, {
+    actor_id: req.user!.id,
+    action: "delete",
+    entity_type: "user",
+    entity_id: userId,
+  });
+  await removeUploadFiles(getStorage(req), files, getLogger(req));
 
-    res.status(204).send();
-  } catch (error) {
-    console.error("Database error:", error);
-    res.status(500).json({
-      error: "Failed to delete user",
+  res.json({ message: "User deleted successfully" });
+}
+
+/**
+ * @swagger
+ * /users/{id}/role:
+ *   put:
+ *     summary: Change a user's role
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       400:
+ *         description: Invalid user ID or role
+ *       403:
+ *         description: Only admins can change roles
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Failed to update role
+ */
+router.put(
+  "/:id/role",
+  authenticateToken,
+  validate({ params: idParamsSchema, body: roleSchema }),
+  authorize("users:manage-roles"),
+  async (req, res) => {
+    const userId = res.locals.valid.params.id;
+    const { role } = res.locals.valid.body;
+
+    const updated = await getRepositories(req).users.updateRole(userId, role);
+
+    if (!updated) {
+      throw new NotFoundError("User not found");
+    }
+    await audit(req, {
+      actor_id: req.user!.id,
+      action: "update",
+      entity_type: "user",
+      entity_id: userId,
+      details: { role },
     });
+
+    res.json({ id: userId, role });
   }
-});
+);
 
 /**
  * @swagger
  * /users/{id}/articles:
  *   get:
- *     summary: Get all articles for a user with user info
+ *     summary: Get a page of articles for a user with user info
+ *     description: The author also sees their own drafts, scheduled and archived articles.
  *     tags: [Users]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: One page of articles with user info
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ArticlePage'
+ *       400:
+ *         description: Invalid query parameters
+ *       500:
+ *         description: Failed to fetch articles
+ */
+router.get(
+  "/:id/articles",
+  optionalAuthentication,
+  validate({ params: idParamsSchema, query: articleListQuerySchema }),
+  async (req, res) => {
+    const { params, query } = res.locals.valid;
+    const page = await getRepositories(req).articles.list(
+      { ...query, submitted_by: params.id },
+      req.user?.id ?? null
+    );
+    res.json(page);
+  }
+);
+
+/**
+ * @swagger
+ * /users/{id}/feed.{format}:
+ *   get:
+ *     summary: Get a feed of a user's newest articles
+ *     tags: [Feeds]
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/Feed'
+ *       304:
+ *         $ref: '#/components/responses/NotModified'
+ *       400:
+ *         description: Invalid user ID or unknown feed format
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Failed to fetch feed
+ */
+router.get(
+  "/:id/feed{.:format}",
+  validate({ params: userFeedParamsSchema }),
+  async (req, res) => {
+    const { users, articles } = getRepositories(req);
+    const user = await users.findById(res.locals.valid.params.id);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const latest = await articles.listLatest(
+      { submitted_by: user.id },
+      FEED_SIZE
+    );
+    sendFeed(
+      res,
+      res.locals.valid.params.format,
+      {
+        title: `Articles by ${user.username}`,
+        description: `The newest articles by ${user.username}`,
+        homePath: `/users/${user.id}`,
+        feedUrl: feedUrl(req),
+      },
+      latest
+    );
+  }
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     UserProfile:
+ *       allOf:
+ *         - $ref: '#/components/schemas/User'
+ *         - type: object
+ *           properties:
+ *             follower_count:
+ *               type: integer
+ *             following_count:
+ *               type: integer
+ *     FollowedUser:
+ *       allOf:
+ *         - $ref: '#/components/schemas/User'
+ *         - type: object
+ *           properties:
+ *             followed_at:
+ *               type: string
+ *               format: date-time
+ *     FollowedUserPage:
+ *       type: object
+ *       properties:
+ *         data:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/FollowedUser'
+ *         meta:
+ *           $ref: '#/components/schemas/PageMeta'
+ *     FollowState:
+ *       type: object
+ *       properties:
+ *         following:
+ *           type: boolean
+ *         follower_count:
  *           type: integer
+ *
+ * /users/{id}/follow:
+ *   post:
+ *     summary: Follow a user
+ *     description: Following a user twice has no further effect. Their articles show up in GET /feed.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: List of articles with user info
+ *         description: Followed, with the user's new follower count
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Article'
+ *               $ref: '#/components/schemas/FollowState'
+ *       400:
+ *         description: Users cannot follow themselves
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Failed to follow user
+ *   delete:
+ *     summary: Unfollow a user
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Unfollowed, with the user's new follower count
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FollowState'
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Failed to unfollow user
  */
-router.get("/:id/articles", validateUserId, async (req, res) => {
-  const userId = Number(req.params.id);
-
-  const [rows] = await pool.execute(
-    `
-    SELECT articles.id, articles.title, articles.body, articles.submitted_by, articles.created_at, articles.category,
-    users.username, users.email
-    FROM articles 
-    INNER JOIN users ON articles.submitted_by = users.id
-    WHERE users.id = ?
-  `,
-    [userId]
-  );
-  const articles = rows as Article[];
-  res.json(articles);
-});
+function changeFollow(following: boolean) {
+  return async (req: Request, res: Response) => {
+    const userId: number = res.locals.valid.params.id;
+    if (following && userId === req.user!.id) {
+      throw new ValidationError(["You cannot follow yourself"]);
+    }
+    const { users, follows } = getRepositories(req);
+    if (!(await users.findById(userId))) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (following) {
+      if (await follows.add(req.user!.id, userId)) {
+        await notify(req, {
+          user_id: userId,
+          actor_id: req.user!.id,
+          type: "follow",
+          article_id: null,
+          comment_id: null,
+        });
+      }
+    } else {
+      await follows.remove(req.user!.id, userId);
+    }
+    const counts = await follows.counts(userId);
+    res.json({ following, follower_count: counts.followers });
+  };
+}
+
+router.post(
+  "/:id/follow",
+  authenticateToken,
+  validate({ params: idParamsSchema }),
+  changeFollow(true)
+);
+router.delete(
+  "/:id/follow",
+  authenticateToken,
+  validate({ params: idParamsSchema }),
+  changeFollow(false)
+);
+
+/**
+ * @swagger
+ * /users/{id}/followers:
+ *   get:
+ *     summary: Get a page of the users following a user, most recent first
+ *     tags: [Users]
+ *     responses:
+ *       200:
+ *         description: One page of followers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FollowedUserPage'
+ *       400:
+ *         description: Invalid query parameters
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Failed to fetch followers
+ *
+ * /users/{id}/following:
+ *   get:
+ *     summary: Get a page of the users a user follows, most recent first
+ *     tags: [Users]
+ *     responses:
+ *       200:
+ *         description: One page of followed users
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FollowedUserPage'
+ *       400:
+ *         description: Invalid query parameters
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Failed to fetch followed users
+ */
+router.get(
+  "/:id/followers",
+  validate({ params: idParamsSchema, query: followListQuerySchema }),
+  async (req, res) => {
+    const { params, query } = res.locals.valid;
+    const { users, follows } = getRepositories(req);
+    if (!(await users.findById(params.id))) {
+      throw new NotFoundError("User not found");
+    }
+    res.json(await follows.listFollowers(params.id, query));
+  }
+);
+
+router.get(
+  "/:id/following",
+  validate({ params: idParamsSchema, query: followListQuerySchema }),
+  async (req, res) => {
+    const { params, query } = res.locals.valid;
+    const { users, follows } = getRepositories(req);
+    if (!(await users.findById(params.id))) {
+      throw new NotFoundError("User not found");
+    }
+    res.json(await follows.listFollowing(params.id, query));
+  }
+);
 
 export default router;
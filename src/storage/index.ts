@@ -0,0 +1,51 @@
+import type { Request } from "express";
+import { createLocalStorage } from "./local.js";
+import { createS3Storage } from "./s3.js";
+import type { Storage } from "./types.js";
+
+export type * from "./types.js";
+export { createLocalStorage } from "./local.js";
+export { createMemoryStorage, type MemoryStorage } from "./memory.js";
+export { createS3Storage } from "./s3.js";
+
+// Path the app serves stored files from, for drivers with a handler
+export const UPLOADS_PATH = "/uploads";
+
+function requireEnv(name: string) {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set for STORAGE_DRIVER=s3`);
+  }
+  return value;
+}
+
+// Pick the driver from STORAGE_DRIVER, local unless told otherwise
+export function createStorageFromEnv(): Storage {
+  const driver = process.env.STORAGE_DRIVER || "local";
+
+  switch (driver) {
+    case "local":
+      return createLocalStorage(
+        process.env.UPLOAD_DIR || "uploads",
+        process.env.UPLOAD_BASE_URL || UPLOADS_PATH
+      );
+    case "s3":
+      return createS3Storage({
+        bucket: requireEnv("S3_BUCKET"),
+        region: process.env.S3_REGION || "us-east-1",
+        ...(process.env.S3_ENDPOINT
+          ? { endpoint: process.env.S3_ENDPOINT }
+          : {}),
+        ...(process.env.S3_PUBLIC_URL
+          ? { publicUrl: process.env.S3_PUBLIC_URL }
+          : {}),
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+}
+
+// The storage is injected once per app through app.locals
+export function getStorage(req: Request): Storage {
+  return req.app.locals.storage as Storage;
+}
@@ -0,0 +1,41 @@
+import express from "express";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Storage } from "./types.js";
+
+// Keeps files in a directory and serves them through the app
+export function createLocalStorage(
+  directory: string,
+  baseUrl: string
+): Storage {
+  const root = path.resolve(directory);
+
+  // Keys are generated, but never let one point outside the directory
+  function filePath(key: string) {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return file;
+  }
+
+  return {
+    async put(key, data) {
+      const file = filePath(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+      return `${baseUrl}/${key}`;
+    },
+
+    async delete(key) {
+      await rm(filePath(key), { force: true });
+    },
+
+    handler: express.static(root, {
+      index: false,
+      setHeaders(res) {
+        res.setHeader("X-Content-Type-Options", "nosniff");
+      },
+    }),
+  };
+}
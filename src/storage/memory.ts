@@ -0,0 +1,36 @@
+import type { Storage } from "./types.js";
+
+export interface StoredObject {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface MemoryStorage extends Storage {
+  files: Map<string, StoredObject>;
+}
+
+// Keeps files in a map so tests can read them back
+export function createMemoryStorage(baseUrl: string): MemoryStorage {
+  const files = new Map<string, StoredObject>();
+
+  return {
+    files,
+    async put(key, data, contentType) {
+      files.set(key, { data, contentType });
+      return `${baseUrl}/${key}`;
+    },
+
+    async delete(key) {
+      files.delete(key);
+    },
+
+    handler(req, res, next) {
+      const file = files.get(decodeURIComponent(req.path.slice(1)));
+      if (!file) {
+        return next();
+      }
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.type(file.contentType).send(file.data);
+    },
+  };
+}
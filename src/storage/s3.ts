@@ -0,0 +1,51 @@
+import {
+  DeleteObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import type { Storage } from "./types.js";
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  // For S3 compatible services such as MinIO or R2
+  endpoint?: string;
+  // Base URL the bucket is served from, e.g. a CDN
+  publicUrl?: string;
+}
+
+// Stores files in an S3 compatible bucket. Credentials come from the usual
+// AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY variables.
+export function createS3Storage(options: S3StorageOptions): Storage {
+  const client = new S3Client({
+    region: options.region,
+    ...(options.endpoint
+      ? { endpoint: options.endpoint, forcePathStyle: true }
+      : {}),
+  });
+  const baseUrl =
+    options.publicUrl ??
+    (options.endpoint
+      ? `${options.endpoint}/${options.bucket}`
+      : `https://${options.bucket}.s3.${options.region}.amazonaws.com`);
+
+  return {
+    async put(key, data, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: options.bucket,
+          Key: key,
+          Body: data,
+          ContentType: contentType,
+        })
+      );
+      return `${baseUrl}/${key}`;
+    },
+
+    async delete(key) {
+      await client.send(
+        new DeleteObjectCommand({ Bucket: options.bucket, Key: key })
+      );
+    },
+  };
+}
@@ -0,0 +1,12 @@
+import type { RequestHandler } from "express";
+
+// Where uploaded files live, swap drivers without touching routes
+export interface Storage {
+  // Stores the file under key and resolves to its public URL
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+  // Deleting a missing file is not an error
+  delete(key: string): Promise<void>;
+  // Serves the files under UPLOADS_PATH when the driver has no public
+  // host of its own
+  handler?: RequestHandler;
+}
@@ -0,0 +1,168 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import { createApp } from "../app.js";
+import { createMemoryLogger } from "../logging/index.js";
+import { createMemoryMailer } from "../mail/index.js";
+import type { Repositories } from "../repositories/index.js";
+import { createMemoryStorage } from "../storage/index.js";
+import { bearer, createTestApp } from "./helpers.js";
+
+const PROBLEM_JSON = "application/problem+json; charset=utf-8";
+
+describe("app", () => {
+  it("answers the basic route", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app).get("/").expect(200);
+
+    assert.equal(response.body, "Hello World!");
+  });
+
+  it("returns 404 for unknown routes", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app).delete("/nowhere").expect(404);
+
+    assert.equal(response.headers["content-type"], PROBLEM_JSON);
+    assert.deepEqual(response.body, {
+      type: "about:blank",
+      title: "Not Found",
+      status: 404,
+      detail: "Cannot DELETE /nowhere",
+      instance: "/nowhere",
+      code: "route_not_found",
+      request_id: response.headers["x-request-id"],
+    });
+  });
+
+  it("returns 400 for malformed JSON bodies", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app)
+      .post("/auth/login")
+      .set("Content-Type", "application/json")
+      .send("{not json")
+      .expect(400);
+
+    assert.equal(response.headers["content-type"], PROBLEM_JSON);
+    assert.equal(response.body.code, "bad_request");
+  });
+
+  it("hides unexpected errors behind a generic 500", async () => {
+    const { createUser } = createTestApp();
+    const user = await createUser();
+    const logger = createMemoryLogger();
+
+    // Repositories that blow up on first use
+    const broken = new Proxy({} as Repositories, {
+      get() {
+        throw new Error("database exploded");
+      },
+    });
+    const response = await request(
+      createApp({
+        repositories: broken,
+        mailer: createMemoryMailer(),
+        storage: createMemoryStorage("/uploads"),
+        logger,
+      })
+    )
+      .post("/auth/logout")
+      .set("Authorization", bearer(user))
+      .set("X-Request-Id", "req-500")
+      .expect(500);
+
+    assert.deepEqual(response.body, {
+      type: "about:blank",
+      title: "Internal Server Error",
+      status: 500,
+      detail: "Something went wrong",
+      instance: "/auth/logout",
+      code: "internal_server_error",
+      request_id: "req-500",
+    });
+    const logged = logger.entries.find((entry) => entry.level === "error");
+    assert.equal(logged?.request_id, "req-500");
+    assert.equal(
+      (logged?.error as { message: string }).message,
+      "database exploded"
+    );
+  });
+
+  it("answers 500 when a repository fails", async (t) => {
+    const { app, repositories } = createTestApp();
+    t.mock.method(repositories.users, "findAll", async () => {
+      throw new Error("connection lost");
+    });
+
+    const response = await request(app).get("/users").expect(500);
+
+    assert.equal(response.body.detail, "Something went wrong");
+  });
+
+  it("maps database errors clients can act on", async (t) => {
+    const { app, repositories } = createTestApp();
+    t.mock.method(repositories.users, "findAll", async () => {
+      throw Object.assign(new Error("Deadlock found"), {
+        code: "ER_LOCK_DEADLOCK",
+      });
+    });
+
+    const response = await request(app).get("/users").expect(503);
+
+    assert.equal(response.body.code, "database_unavailable");
+  });
+});
+
+describe("request logging", () => {
+  it("generates a request id and echoes it", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app).get("/").expect(200);
+
+    assert.match(
+      response.headers["x-request-id"]!,
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+    );
+  });
+
+  it("keeps the request id a client or proxy sent", async () => {
+    const { app } = createTestApp();
+
+    const kept = await request(app)
+      .get("/")
+      .set("X-Request-Id", "edge-42.a:b")
+      .expect(200);
+    const replaced = await request(app)
+      .get("/")
+      .set("X-Request-Id", "<script>alert(1)</script>")
+      .expect(200);
+
+    assert.equal(kept.headers["x-request-id"], "edge-42.a:b");
+    assert.notEqual(
+      replaced.headers["x-request-id"],
+      "<script>alert(1)</script>"
+    );
+  });
+
+  it("logs every request with its status and latency", async () => {
+    const { app, logger, createUser } = createTestApp();
+    const user = await createUser();
+
+    await request(app)
+      .get("/users/me?access_token=secret")
+      .set("Authorization", bearer(user))
+      .set("X-Request-Id", "req-1")
+      .expect(200);
+
+    const line = logger.entries.find((entry) => entry.request_id === "req-1");
+    assert.equal(line?.level, "info");
+    assert.equal(line?.msg, "request");
+    assert.equal(line?.method, "GET");
+    assert.equal(line?.path, "/users/me");
+    assert.equal(line?.status, 200);
+    assert.equal(line?.user_id, user.id);
+    assert.equal(typeof line?.duration_ms, "number");
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import { publishScheduledArticles } from "../utils/scheduled-publisher.js";
+import { bearer, createTestApp } from "./helpers.js";
+
+const titles = (response: request.Response) =>
+  response.body.data.map((article: { title: string }) => article.title);
+
+const hour = 60 * 60 * 1000;
+
+describe("draft visibility", () => {
+  it("hides drafts from everyone but the author", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const other = await createUser();
+    await createArticle(author, { title: "Live" });
+    const draft = await createArticle(author, {
+      title: "Draft",
+      status: "draft",
+    });
+
+    const anonymous = await request(app).get("/articles").expect(200);
+    const own = await request(app)
+      .get("/articles")
+      .set("Authorization", bearer(author))
+      .expect(200);
+    const byUser = await request(app)
+      .get(`/users/${author.id}/articles`)
+      .set("Authorization", bearer(other))
+      .expect(200);
+
+    assert.deepEqual(titles(anonymous), ["Live"]);
+    assert.deepEqual(titles(own), ["Draft", "Live"]);
+    assert.deepEqual(titles(byUser), ["Live"]);
+    await request(app).get(`/articles/${draft.id}`).expect(404);
+    await request(app)
+      .get(`/articles/${draft.id}`)
+      .set("Authorization", bearer(other))
+      .expect(404);
+    await request(app)
+      .get(`/articles/${draft.id}`)
+      .set("Authorization", bearer(author))
+      .expect(200);
+  });
+
+  it("filters the author's own articles by status", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    await createArticle(author, { title: "Live" });
+    await createArticle(author, { title: "Draft", status: "draft" });
+
+    const response = await request(app)
+      .get("/articles?status=draft")
+      .set("Authorization", bearer(author))
+      .expect(200);
+
+    assert.deepEqual(titles(response), ["Draft"]);
+  });
+
+  it("keeps drafts out of search, likes and comments", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const reader = await createUser("reader");
+    const draft = await createArticle(author, {
+      title: "Secret plans",
+      status: "draft",
+    });
+
+    const search = await request(app)
+      .get("/articles/search?q=secret")
+      .expect(200);
+    await request(app)
+      .post(`/articles/${draft.id}/like`)
+      .set("Authorization", bearer(reader))
+      .expect(404);
+    await request(app)
+      .post(`/articles/${draft.id}/comments`)
+      .set("Authorization", bearer(reader))
+      .send({ body: "First!" })
+      .expect(404);
+
+    assert.deepEqual(titles(search), []);
+  });
+});
+
+describe("POST /articles/:id/publish", () => {
+  it("publishes a draft right away", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const draft = await createArticle(author, { status: "draft" });
+
+    const response = await request(app)
+      .post(`/articles/${draft.id}/publish`)
+      .set("Authorization", bearer(author))
+      .expect(200);
+
+    assert.equal(response.body.status, "published");
+    assert.ok(response.body.published_at);
+    await request(app).get(`/articles/${draft.id}`).expect(200);
+  });
+
+  it("schedules with publish_at until the publisher runs", async (t) => {
+    const { app, repositories, logger, createUser, createArticle } =
+      createTestApp();
+    const author = await createUser();
+    const draft = await createArticle(author, { status: "draft" });
+    const now = Date.now();
+    const publishAt = new Date(now + hour);
+
+    const scheduled = await request(app)
+      .post(`/articles/${draft.id}/publish`)
+      .set("Authorization", bearer(author))
+      .send({ publish_at: publishAt.toISOString() })
+      .expect(200);
+    const early = await publishScheduledArticles(repositories.articles, logger);
+    t.mock.timers.enable({ apis: ["Date"], now: now + 2 * hour });
+    const due = await publishScheduledArticles(repositories.articles, logger);
+    const published = await request(app)
+      .get(`/articles/${draft.id}`)
+      .expect(200);
+
+    assert.equal(scheduled.body.status, "scheduled");
+    assert.equal(scheduled.body.publish_at, publishAt.toISOString());
+    assert.equal(early, 0);
+    assert.equal(due, 1);
+    assert.equal(published.body.status, "published");
+    assert.equal(published.body.published_at, publishAt.toISOString());
+  });
+
+  it("rejects publish_at in the past", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const draft = await createArticle(author, { status: "draft" });
+
+    const response = await request(app)
+      .post(`/articles/${draft.id}/publish`)
+      .set("Authorization", bearer(author))
+      .send({ publish_at: "2000-01-01T00:00:00Z" })
+      .expect(400);
+
+    assert.deepEqual(response.body.errors, [
+      "publish_at must be in the future",
+    ]);
+  });
+
+  it("forbids other authors", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const other = await createUser();
+    const article = await createArticle(author);
+
+    await request(app)
+      .post(`/articles/${article.id}/unpublish`)
+      .set("Authorization", bearer(other))
+      .expect(403);
+    await request(app)
+      .post("/articles/42/publish")
+      .set("Authorization", bearer(author))
+      .expect(404);
+  });
+});
+
+describe("POST /articles with a status", () => {
+  it("schedules new articles with publish_at", async () => {
+    const { app, createUser } = createTestApp();
+    const author = await createUser();
+
+    const response = await request(app)
+      .post("/articles")
+      .set("Authorization", bearer(author))
+      .send({
+        title: "Later",
+        body: "Soon",
+        publish_at: new Date(Date.now() + hour).toISOString(),
+      })
+      .expect(201);
+
+    assert.equal(response.body.status, "scheduled");
+  });
+
+  it("rejects status together with publish_at", async () => {
+    const { app, createUser } = createTestApp();
+    const author = await createUser();
+
+    const response = await request(app)
+      .post("/articles")
+      .set("Authorization", bearer(author))
+      .send({
+        title: "Later",
+        body: "Soon",
+        status: "published",
+        publish_at: new Date(Date.now() + hour).toISOString(),
+      })
+      .expect(400);
+
+    assert.deepEqual(response.body.errors, [
+      "Use either status or publish_at, not both",
+    ]);
+  });
+});
+
+describe("unpublish and archive", () => {
+  it("takes articles off the public list", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const first = await createArticle(author, { title: "First" });
+    const second = await createArticle(author, { title: "Second" });
+
+    const unpublished = await request(app)
+      .post(`/articles/${first.id}/unpublish`)
+      .set("Authorization", bearer(author))
+      .expect(200);
+    const archived = await request(app)
+      .post(`/articles/${second.id}/archive`)
+      .set("Authorization", bearer(author))
+      .expect(200);
+    const list = await request(app).get("/articles").expect(200);
+
+    assert.equal(unpublished.body.status, "draft");
+    assert.equal(archived.body.status, "archived");
+    assert.deepEqual(titles(list), []);
+  });
+});
@@ -0,0 +1,426 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import { bearer, createTestApp } from "./helpers.js";
+
+const titles = (response: request.Response) =>
+  response.body.data.map((article: { title: string }) => article.title);
+
+describe("GET /articles", () => {
+  it("returns newest first with author info and page metadata", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    await createArticle(user, { title: "Older" });
+    await createArticle(user, { title: "Newer" });
+
+    const response = await request(app).get("/articles").expect(200);
+
+    assert.deepEqual(titles(response), ["Newer", "Older"]);
+    assert.equal(response.body.data[0].username, user.username);
+    assert.deepEqual(response.body.meta, {
+      total: 2,
+      limit: 20,
+      page: 1,
+      nextCursor: null,
+    });
+  });
+
+  it("pages with a cursor until nextCursor is null", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    for (const title of ["a", "b", "c", "d", "e"]) {
+      await createArticle(user, { title });
+    }
+
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const query: Record<string, string> = { limit: "2", sort: "title" };
+      if (cursor) {
+        query.cursor = cursor;
+      }
+      const response = await request(app)
+        .get("/articles")
+        .query(query)
+        .expect(200);
+      seen.push(...titles(response));
+      cursor = response.body.meta.nextCursor;
+    } while (cursor);
+
+    assert.deepEqual(seen, ["a", "b", "c", "d", "e"]);
+  });
+
+  it("pages with page numbers", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    for (const title of ["a", "b", "c"]) {
+      await createArticle(user, { title });
+    }
+
+    const response = await request(app)
+      .get("/articles?limit=2&page=2&sort=-title")
+      .expect(200);
+
+    assert.deepEqual(titles(response), ["a"]);
+    assert.equal(response.body.meta.page, 2);
+  });
+
+  it("filters by category and author", async () => {
+    const { app, createUser, createArticle, createCategory } = createTestApp();
+    await createCategory("Tech");
+    await createCategory("Design");
+    const alice = await createUser();
+    const bob = await createUser();
+    await createArticle(alice, { title: "Alice tech", category: "tech" });
+    await createArticle(alice, { title: "Alice design", category: "design" });
+    await createArticle(bob, { title: "Bob tech", category: "tech" });
+
+    const response = await request(app)
+      .get(`/articles?category=tech&submitted_by=${alice.id}`)
+      .expect(200);
+
+    assert.deepEqual(titles(response), ["Alice tech"]);
+  });
+
+  it("filters by tag", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    await createArticle(user, { title: "Tagged", tags: ["Node.js", "MySQL"] });
+    await createArticle(user, { title: "Untagged" });
+
+    const response = await request(app)
+      .get("/articles?tag=node-js")
+      .expect(200);
+
+    assert.deepEqual(titles(response), ["Tagged"]);
+    assert.deepEqual(response.body.data[0].tags, ["mysql", "node-js"]);
+  });
+
+  it("rejects unknown sorts, bad limits and foreign cursors", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app)
+      .get("/articles?sort=password&limit=0&cursor=garbage")
+      .expect(400);
+
+    assert.deepEqual(response.body.errors, [
+      "Limit must be at least 1",
+      "Cursor is invalid",
+      "Sort must be one of: created_at, -created_at, title, -title, popular",
+    ]);
+  });
+});
+
+describe("GET /articles?sort=popular", () => {
+  it("ranks engagement, decayed by age", async (t) => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const fan = await createUser("reader");
+    const now = Date.now();
+    const hour = 60 * 60 * 1000;
+
+    t.mock.timers.enable({ apis: ["Date"], now: now - 30 * 24 * hour });
+    const classic = await createArticle(user, { title: "Old but loved" });
+    t.mock.timers.setTime(now - hour);
+    const liked = await createArticle(user, { title: "Liked" });
+    t.mock.timers.setTime(now);
+    await createArticle(user, { title: "Fresh" });
+    for (const article of [classic, liked]) {
+      for (const reader of [user, fan]) {
+        await request(app)
+          .post(`/articles/${article.id}/like`)
+          .set("Authorization", bearer(reader))
+          .expect(200);
+      }
+    }
+
+    const response = await request(app)
+      .get("/articles?sort=popular")
+      .expect(200);
+
+    assert.deepEqual(titles(response), ["Liked", "Fresh", "Old but loved"]);
+    assert.deepEqual(
+      response.body.data.map(
+        (article: { like_count: number }) => article.like_count
+      ),
+      [2, 0, 2]
+    );
+    assert.equal(response.body.meta.nextCursor, null);
+  });
+
+  it("pages by page number only", async () => {
+    const { app } = createTestApp();
+    const cursor = Buffer.from(
+      JSON.stringify({ sort: "title", value: "a", id: 1 })
+    ).toString("base64url");
+
+    const response = await request(app)
+      .get(`/articles?sort=popular&cursor=${cursor}`)
+      .expect(400);
+
+    assert.deepEqual(response.body.errors, [
+      "Popular articles can only be paged by page number",
+    ]);
+  });
+});
+
+describe("GET /articles/search", () => {
+  it("finds matching articles with highlighted snippets", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    await createArticle(user, { title: "Express routing", body: "Routes <3" });
+    await createArticle(user, { title: "Cooking", body: "Pasta" });
+
+    const response = await request(app)
+      .get("/articles/search?q=routing")
+      .expect(200);
+
+    assert.deepEqual(titles(response), ["Express routing"]);
+    assert.equal(
+      response.body.data[0].highlights.title,
+      "Express <mark>routing</mark>"
+    );
+    assert.equal(response.body.data[0].highlights.body, "Routes &lt;3");
+  });
+
+  it("requires a query", async () => {
+    const { app } = createTestApp();
+
+    await request(app).get("/articles/search").expect(400);
+  });
+
+  it("rejects queries shorter than the indexed words", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app)
+      .get("/articles/search?q=js")
+      .expect(400);
+
+    assert.deepEqual(response.body.errors, [
+      "Search query must be at least 3 characters",
+    ]);
+  });
+});
+
+describe("GET /articles/:id", () => {
+  it("rejects an id of 0", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app).get("/articles/0").expect(400);
+
+    assert.deepEqual(response.body.errors, ["ID must be a positive number"]);
+  });
+
+  it("returns the article with author info", async () => {
+    const { app, createUser, createArticle, createCategory } = createTestApp();
+    await createCategory("Tech");
+    const user = await createUser();
+    const article = await createArticle(user, { category: "tech" });
+
+    const response = await request(app)
+      .get(`/articles/${article.id}`)
+      .expect(200);
+
+    assert.equal(response.body.title, article.title);
+    assert.equal(response.body.category, "tech");
+    assert.equal(response.body.email, user.email);
+  });
+
+  it("returns 404 for unknown articles", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app).get("/articles/42").expect(404);
+
+    assert.equal(response.body.detail, "article not found");
+  });
+});
+
+describe("POST /articles", () => {
+  it("creates a draft owned by the current user", async () => {
+    const { app, createUser, createCategory } = createTestApp();
+    await createCategory("News");
+    const user = await createUser();
+
+    const response = await request(app)
+      .post("/articles")
+      .set("Authorization", bearer(user))
+      .send({
+        title: "Hello",
+        body: "World",
+        category: "news",
+        tags: ["Breaking News", "breaking-news", "World"],
+      })
+      .expect(201);
+
+    assert.deepEqual(response.body, {
+      id: 1,
+      title: "Hello",
+      body: "World",
+      submitted_by: user.id,
+      category: "news",
+      tags: ["breaking-news", "world"],
+      status: "draft",
+      publish_at: null,
+    });
+  });
+
+  it("rejects unknown categories", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .post("/articles")
+      .set("Authorization", bearer(user))
+      .send({ title: "Hello", body: "World", category: "news" })
+      .expect(400);
+
+    assert.deepEqual(response.body.errors, ["Category does not exist"]);
+  });
+
+  it("requires a title and body", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .post("/articles")
+      .set("Authorization", bearer(user))
+      .send({ title: "Hello" })
+      .expect(400);
+
+    assert.deepEqual(response.body.errors, ["Body is required"]);
+  });
+
+  it("forbids readers and anonymous users", async () => {
+    const { app, createUser } = createTestApp();
+    const reader = await createUser("reader");
+
+    await request(app)
+      .post("/articles")
+      .set("Authorization", bearer(reader))
+      .send({ title: "Hello", body: "World" })
+      .expect(403);
+    await request(app)
+      .post("/articles")
+      .send({ title: "Hello", body: "World" })
+      .expect(401);
+  });
+});
+
+describe("PUT /articles/:id", () => {
+  it("lets the owner update the article", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+
+    const response = await request(app)
+      .put(`/articles/${article.id}`)
+      .set("Authorization", bearer(user))
+      .send({ title: "Updated", body: "New body" })
+      .expect(200);
+
+    assert.deepEqual(response.body, {
+      id: article.id,
+      title: "Updated",
+      body: "New body",
+      submitted_by: user.id,
+      category: null,
+      tags: [],
+    });
+  });
+
+  it("changes category and tags only when given", async () => {
+    const { app, createUser, createArticle, createCategory } = createTestApp();
+    await createCategory("Tech");
+    const user = await createUser();
+    const article = await createArticle(user, {
+      category: "tech",
+      tags: ["node"],
+    });
+
+    const kept = await request(app)
+      .put(`/articles/${article.id}`)
+      .set("Authorization", bearer(user))
+      .send({ title: "Updated", body: "New body" })
+      .expect(200);
+    const cleared = await request(app)
+      .put(`/articles/${article.id}`)
+      .set("Authorization", bearer(user))
+      .send({ title: "Updated", body: "New body", category: null, tags: [] })
+      .expect(200);
+
+    assert.equal(kept.body.category, "tech");
+    assert.deepEqual(kept.body.tags, ["node"]);
+    assert.equal(cleared.body.category, null);
+    assert.deepEqual(cleared.body.tags, []);
+  });
+
+  it("forbids other authors but lets editors moderate", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const owner = await createUser();
+    const other = await createUser();
+    const editor = await createUser("editor");
+    const article = await createArticle(owner);
+    const changes = { title: "Moderated", body: "Cleaned up" };
+
+    await request(app)
+      .put(`/articles/${article.id}`)
+      .set("Authorization", bearer(other))
+      .send(changes)
+      .expect(403);
+    const moderated = await request(app)
+      .put(`/articles/${article.id}`)
+      .set("Authorization", bearer(editor))
+      .send(changes)
+      .expect(200);
+
+    assert.equal(moderated.body.submitted_by, owner.id);
+  });
+
+  it("returns 404 for unknown articles and 400 for missing fields", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+
+    await request(app)
+      .put("/articles/42")
+      .set("Authorization", bearer(user))
+      .send({ title: "Updated", body: "New body" })
+      .expect(404);
+    await request(app)
+      .put(`/articles/${article.id}`)
+      .set("Authorization", bearer(user))
+      .send({ title: "Updated" })
+      .expect(400);
+  });
+});
+
+describe("DELETE /articles/:id", () => {
+  it("lets the owner delete the article", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+
+    await request(app)
+      .delete(`/articles/${article.id}`)
+      .set("Authorization", bearer(user))
+      .expect(204);
+    await request(app).get(`/articles/${article.id}`).expect(404);
+  });
+
+  it("forbids other authors but lets admins moderate", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const owner = await createUser();
+    const other = await createUser();
+    const admin = await createUser("admin");
+    const article = await createArticle(owner);
+
+    await request(app)
+      .delete(`/articles/${article.id}`)
+      .set("Authorization", bearer(other))
+      .expect(403);
+    await request(app)
+      .delete(`/articles/${article.id}`)
+      .set("Authorization", bearer(admin))
+      .expect(204);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import { bearer, createTestApp } from "./helpers.js";
+
+interface AuditEntry {
+  actor_id: number;
+  actor_username: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: number;
+  details: Record<string, unknown> | null;
+  request_id: string | null;
+}
+
+describe("GET /audit-log", () => {
+  it("records who created, updated and deleted an article", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const admin = await createUser("admin");
+    const author = await createUser();
+    const editor = await createUser("editor");
+    const article = await createArticle(author);
+
+    await request(app)
+      .put(`/articles/${article.id}`)
+      .set("Authorization", bearer(editor))
+      .set("X-Request-Id", "edit-1")
+      .send({ title: "Edited", body: "New body" })
+      .expect(200);
+    await request(app)
+      .post(`/articles/${article.id}/archive`)
+      .set("Authorization", bearer(author))
+      .expect(200);
+    await request(app)
+      .delete(`/articles/${article.id}`)
+      .set("Authorization", bearer(author))
+      .expect(204);
+
+    const response = await request(app)
+      .get(`/audit-log?entity_type=article&entity_id=${article.id}`)
+      .set("Authorization", bearer(admin))
+      .expect(200);
+    const entries: AuditEntry[] = response.body.data;
+    assert.deepEqual(
+      entries.map((entry) => [entry.action, entry.actor_id, entry.details]),
+      [
+        ["delete", author.id, null],
+        ["update", author.id, { status: "archived" }],
+        ["update", editor.id, null],
+        ["create", author.id, null],
+      ]
+    );
+    assert.equal(entries[2]!.request_id, "edit-1");
+    assert.equal(entries[2]!.actor_username, editor.username);
+    assert.equal(response.body.meta.total, 4);
+  });
+
+  it("records changes to users and filters by actor", async () => {
+    const { app, createUser } = createTestApp();
+    const admin = await createUser("admin");
+    const user = await createUser();
+
+    await request(app)
+      .put(`/users/${user.id}/role`)
+      .set("Authorization", bearer(admin))
+      .send({ role: "editor" })
+      .expect(200);
+    await request(app)
+      .patch("/users/me")
+      .set("Authorization", bearer(user))
+      .send({ username: "renamed" })
+      .expect(200);
+    await request(app)
+      .delete(`/users/${user.id}`)
+      .set("Authorization", bearer(admin))
+      .expect(200);
+
+    const byAdmin = await request(app)
+      .get(`/audit-log?actor_id=${admin.id}&entity_type=user`)
+      .set("Authorization", bearer(admin))
+      .expect(200);
+    const byUser = await request(app)
+      .get(`/audit-log?actor_id=${user.id}`)
+      .set("Authorization", bearer(admin))
+      .expect(200);
+
+    assert.deepEqual(
+      byAdmin.body.data.map((entry: AuditEntry) => [
+        entry.action,
+        entry.entity_id,
+        entry.details,
+      ]),
+      [
+        ["delete", user.id, null],
+        ["update", user.id, { role: "editor" }],
+        ["create", admin.id, null],
+      ]
+    );
+    // Entries outlive their actor
+    assert.deepEqual(
+      byUser.body.data.map((entry: AuditEntry) => [
+        entry.action,
+        entry.details,
+        entry.actor_username,
+      ]),
+      [
+        ["update", { fields: ["username"] }, null],
+        ["create", null, null],
+      ]
+    );
+  });
+
+  it("is only for admins", async () => {
+    const { app, createUser } = createTestApp();
+    const editor = await createUser("editor");
+
+    await request(app).get("/audit-log").expect(401);
+    await request(app)
+      .get("/audit-log")
+      .set("Authorization", bearer(editor))
+      .expect(403);
+  });
+});
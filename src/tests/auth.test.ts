@@ -0,0 +1,500 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import jwt from "jsonwebtoken";
+import request from "supertest";
+import { bearer, createTestApp, PASSWORD, tokenFromMail } from "./helpers.js";
+
+describe("POST /auth/register", () => {
+  it("creates a user without exposing the password", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app)
+      .post("/auth/register")
+      .send({
+        username: "alice",
+        email: "alice@example.com",
+        password: PASSWORD,
+      })
+      .expect(201);
+
+    assert.equal(response.body.message, "User registered successfully");
+    assert.deepEqual(response.body.user, {
+      id: 1,
+      username: "alice",
+      email: "alice@example.com",
+      avatar_url: null,
+      avatar_thumbnail_url: null,
+    });
+  });
+
+  it("rejects invalid input with every validation message", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app)
+      .post("/auth/register")
+      .send({ username: "al", email: "not-an-email", password: "weak" })
+      .expect(400);
+
+    assert.equal(response.body.detail, "Validation failed");
+    assert.deepEqual(response.body.errors, [
+      "Username must be at least 3 characters",
+      "Email must be a valid email",
+      "Password must be at least 8 characters long and include uppercase, lowercase, number, and a special character",
+    ]);
+  });
+
+  it("rejects a taken email or username", async () => {
+    const { app, createUser } = createTestApp();
+    const existing = await createUser();
+
+    const response = await request(app)
+      .post("/auth/register")
+      .send({
+        username: existing.username,
+        email: "other@example.com",
+        password: PASSWORD,
+      })
+      .expect(409);
+
+    assert.equal(response.body.code, "user_exists");
+    assert.equal(
+      response.body.detail,
+      "User with this email or username already exists"
+    );
+  });
+});
+
+describe("POST /auth/login", () => {
+  it("returns the user, an access token and a refresh token", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .post("/auth/login")
+      .send({ email: user.email, password: PASSWORD })
+      .expect(200);
+
+    assert.equal(response.body.message, "Login successful");
+    assert.equal(response.body.user.id, user.id);
+    assert.equal(typeof response.body.token, "string");
+    assert.equal(typeof response.body.refreshToken, "string");
+  });
+
+  it("rejects a wrong password and an unknown email the same way", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    // Same request id, so the bodies can only differ in what they reveal
+    const wrongPassword = await request(app)
+      .post("/auth/login")
+      .set("X-Request-Id", "login")
+      .send({ email: user.email, password: "Wrong0ne!" })
+      .expect(401);
+    const unknownEmail = await request(app)
+      .post("/auth/login")
+      .set("X-Request-Id", "login")
+      .send({ email: "nobody@example.com", password: PASSWORD })
+      .expect(401);
+
+    assert.equal(wrongPassword.body.code, "invalid_credentials");
+    assert.equal(wrongPassword.body.detail, "Invalid email or password");
+    assert.deepEqual(unknownEmail.body, wrongPassword.body);
+  });
+
+  it("validates the request body", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app)
+      .post("/auth/login")
+      .send({ email: "nope" })
+      .expect(400);
+
+    assert.equal(response.body.detail, "Validation failed");
+  });
+});
+
+describe("POST /auth/refresh", () => {
+  it("rotates the refresh token", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .post("/auth/refresh")
+      .send({ refreshToken: user.refreshToken })
+      .expect(200);
+
+    assert.notEqual(response.body.refreshToken, user.refreshToken);
+    await request(app)
+      .get("/users/1/articles")
+      .set("Authorization", `Bearer ${response.body.token}`)
+      .expect(200);
+  });
+
+  it("revokes the whole session when a rotated token is reused", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const rotated = await request(app)
+      .post("/auth/refresh")
+      .send({ refreshToken: user.refreshToken })
+      .expect(200);
+
+    const reuse = await request(app)
+      .post("/auth/refresh")
+      .send({ refreshToken: user.refreshToken })
+      .expect(401);
+    assert.equal(
+      reuse.body.detail,
+      "Refresh token reuse detected, session has been revoked"
+    );
+
+    // The legitimate newer token is revoked along with the family
+    await request(app)
+      .post("/auth/refresh")
+      .send({ refreshToken: rotated.body.refreshToken })
+      .expect(401);
+    await request(app)
+      .post("/auth/logout")
+      .set("Authorization", `Bearer ${rotated.body.token}`)
+      .expect(401);
+  });
+
+  it("rejects unknown tokens", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app)
+      .post("/auth/refresh")
+      .send({ refreshToken: "made-up" })
+      .expect(401);
+
+    assert.equal(response.body.detail, "Invalid or expired refresh token");
+  });
+});
+
+describe("POST /auth/logout", () => {
+  it("revokes the current session only", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+    const otherSession = await request(app)
+      .post("/auth/login")
+      .send({ email: user.email, password: PASSWORD })
+      .expect(200);
+
+    await request(app)
+      .post("/auth/logout")
+      .set("Authorization", bearer(user))
+      .expect(204);
+
+    const revoked = await request(app)
+      .post("/auth/logout")
+      .set("Authorization", bearer(user))
+      .expect(401);
+    assert.equal(revoked.body.detail, "Session has been revoked");
+    await request(app)
+      .post("/auth/refresh")
+      .send({ refreshToken: user.refreshToken })
+      .expect(401);
+    await request(app)
+      .post("/auth/refresh")
+      .send({ refreshToken: otherSession.body.refreshToken })
+      .expect(200);
+  });
+
+  it("logs out everywhere with /auth/logout-all", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+    const otherSession = await request(app)
+      .post("/auth/login")
+      .send({ email: user.email, password: PASSWORD })
+      .expect(200);
+
+    await request(app)
+      .post("/auth/logout-all")
+      .set("Authorization", bearer(user))
+      .expect(204);
+
+    await request(app)
+      .post("/auth/logout")
+      .set("Authorization", `Bearer ${otherSession.body.token}`)
+      .expect(401);
+  });
+});
+
+describe("email verification", () => {
+  it("verifies the email with the token sent on registration", async () => {
+    const { app, mailer, repositories, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .post("/auth/verify-email")
+      .send({ token: tokenFromMail(mailer, user.email) })
+      .expect(200);
+
+    assert.equal(response.body.message, "Email verified successfully");
+    const stored = await repositories.users.findByEmail(user.email);
+    assert.ok(stored?.email_verified_at);
+  });
+
+  it("accepts each token only once", async () => {
+    const { app, mailer, createUser } = createTestApp();
+    const user = await createUser();
+    const token = tokenFromMail(mailer, user.email);
+
+    await request(app).post("/auth/verify-email").send({ token }).expect(200);
+    const reuse = await request(app)
+      .post("/auth/verify-email")
+      .send({ token })
+      .expect(400);
+
+    assert.equal(reuse.body.detail, "Invalid or expired token");
+  });
+
+  it("resends a link that replaces the previous one", async () => {
+    const { app, mailer, createUser } = createTestApp();
+    const user = await createUser();
+    const first = tokenFromMail(mailer, user.email);
+
+    await request(app)
+      .post("/auth/resend-verification")
+      .send({ email: user.email })
+      .expect(202);
+    const second = tokenFromMail(mailer, user.email);
+
+    assert.notEqual(second, first);
+    await request(app)
+      .post("/auth/verify-email")
+      .send({ token: first })
+      .expect(400);
+    await request(app)
+      .post("/auth/verify-email")
+      .send({ token: second })
+      .expect(200);
+  });
+
+  it("answers resends the same way without mailing unknown or verified accounts", async () => {
+    const { app, mailer, createUser } = createTestApp();
+    const user = await createUser();
+    await request(app)
+      .post("/auth/verify-email")
+      .send({ token: tokenFromMail(mailer, user.email) })
+      .expect(200);
+    const sent = mailer.outbox.length;
+
+    const verified = await request(app)
+      .post("/auth/resend-verification")
+      .send({ email: user.email })
+      .expect(202);
+    const unknown = await request(app)
+      .post("/auth/resend-verification")
+      .send({ email: "nobody@example.com" })
+      .expect(202);
+
+    assert.deepEqual(unknown.body, verified.body);
+    assert.equal(mailer.outbox.length, sent);
+  });
+
+  it("blocks unverified logins when verification is required", async (t) => {
+    const { app, mailer, createUser } = createTestApp();
+    const user = await createUser();
+    const previous = process.env.REQUIRE_EMAIL_VERIFICATION;
+    process.env.REQUIRE_EMAIL_VERIFICATION = "true";
+    t.after(() => {
+      if (previous === undefined) {
+        delete process.env.REQUIRE_EMAIL_VERIFICATION;
+      } else {
+        process.env.REQUIRE_EMAIL_VERIFICATION = previous;
+      }
+    });
+    const credentials = { email: user.email, password: PASSWORD };
+
+    const blocked = await request(app)
+      .post("/auth/login")
+      .send(credentials)
+      .expect(403);
+    assert.equal(blocked.body.detail, "Email address has not been verified");
+
+    await request(app)
+      .post("/auth/verify-email")
+      .send({ token: tokenFromMail(mailer, user.email) })
+      .expect(200);
+    await request(app).post("/auth/login").send(credentials).expect(200);
+  });
+});
+
+describe("password reset", () => {
+  it("sets a new password and ends every session", async () => {
+    const { app, mailer, createUser } = createTestApp();
+    const user = await createUser();
+    const newPassword = "N3w-Passw0rd";
+
+    await request(app)
+      .post("/auth/forgot-password")
+      .send({ email: user.email })
+      .expect(202);
+    const token = tokenFromMail(mailer, user.email);
+    await request(app)
+      .post("/auth/reset-password")
+      .send({ token, password: newPassword })
+      .expect(200);
+
+    await request(app)
+      .post("/auth/refresh")
+      .send({ refreshToken: user.refreshToken })
+      .expect(401);
+    await request(app)
+      .post("/auth/login")
+      .send({ email: user.email, password: PASSWORD })
+      .expect(401);
+    await request(app)
+      .post("/auth/login")
+      .send({ email: user.email, password: newPassword })
+      .expect(200);
+    await request(app)
+      .post("/auth/reset-password")
+      .send({ token, password: PASSWORD })
+      .expect(400);
+  });
+
+  it("answers unknown emails the same way without sending mail", async () => {
+    const { app, mailer, createUser } = createTestApp();
+    const user = await createUser();
+    const sent = mailer.outbox.length;
+
+    const unknown = await request(app)
+      .post("/auth/forgot-password")
+      .send({ email: "nobody@example.com" })
+      .expect(202);
+    const known = await request(app)
+      .post("/auth/forgot-password")
+      .send({ email: user.email })
+      .expect(202);
+
+    assert.deepEqual(unknown.body, known.body);
+    assert.equal(mailer.outbox.length, sent + 1);
+  });
+
+  it("answers the same when the email can't be sent", async (t) => {
+    const { app, mailer, logger, createUser } = createTestApp();
+    const user = await createUser();
+    t.mock.method(mailer, "send", async () => {
+      throw new Error("SMTP down");
+    });
+
+    const unknown = await request(app)
+      .post("/auth/forgot-password")
+      .send({ email: "nobody@example.com" })
+      .expect(202);
+    const known = await request(app)
+      .post("/auth/forgot-password")
+      .send({ email: user.email })
+      .expect(202);
+
+    assert.deepEqual(unknown.body, known.body);
+    assert.ok(
+      logger.entries.some((entry) => entry.msg === "Password reset email error")
+    );
+  });
+
+  it("rejects expired tokens", async (t) => {
+    const { app, mailer, createUser } = createTestApp();
+    const user = await createUser();
+    await request(app)
+      .post("/auth/forgot-password")
+      .send({ email: user.email })
+      .expect(202);
+
+    t.mock.timers.enable({ apis: ["Date"], now: Date.now() + 61 * 60 * 1000 });
+    const response = await request(app)
+      .post("/auth/reset-password")
+      .send({
+        token: tokenFromMail(mailer, user.email),
+        password: "N3w-Passw0rd",
+      })
+      .expect(400);
+
+    assert.equal(response.body.detail, "Invalid or expired token");
+  });
+
+  it("validates the new password", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app)
+      .post("/auth/reset-password")
+      .send({ password: "weak" })
+      .expect(400);
+
+    assert.deepEqual(response.body.errors, [
+      "Token is required",
+      "Password must be at least 8 characters long and include uppercase, lowercase, number, and a special character",
+    ]);
+  });
+});
+
+describe("authenticateToken", () => {
+  it("requires an Authorization header", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app).post("/articles").expect(401);
+
+    assert.equal(response.body.code, "token_required");
+    assert.equal(response.body.detail, "Access token required");
+  });
+
+  it("requires the Bearer format", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .post("/articles")
+      .set("Authorization", user.token)
+      .expect(401);
+
+    assert.equal(
+      response.body.detail,
+      "Token must be in format: Bearer <token>"
+    );
+  });
+
+  it("rejects tokens with a bad signature", async () => {
+    const { app } = createTestApp();
+    const forged = jwt.sign({ userId: 1, sid: "x" }, "not-the-secret");
+
+    const response = await request(app)
+      .post("/articles")
+      .set("Authorization", `Bearer ${forged}`)
+      .expect(401);
+
+    assert.equal(response.body.code, "token_invalid");
+    assert.equal(response.body.detail, "Invalid or expired token");
+  });
+
+  it("rejects expired access tokens with 401", async (t) => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    t.mock.timers.enable({ apis: ["Date"], now: Date.now() + 16 * 60 * 1000 });
+    const response = await request(app)
+      .post("/articles")
+      .set("Authorization", bearer(user))
+      .expect(401);
+
+    assert.equal(response.body.code, "token_invalid");
+  });
+
+  it("rejects tokens of deleted users", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    await request(app)
+      .delete(`/users/${user.id}`)
+      .set("Authorization", bearer(user))
+      .send({ currentPassword: PASSWORD })
+      .expect(200);
+
+    await request(app)
+      .post("/articles")
+      .set("Authorization", bearer(user))
+      .send({ title: "Title", body: "Body" })
+      .expect(401);
+  });
+});
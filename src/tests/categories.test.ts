@@ -0,0 +1,144 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import { bearer, createTestApp } from "./helpers.js";
+
+describe("GET /categories", () => {
+  it("lists categories by name with article counts", async () => {
+    const { app, createUser, createArticle, createCategory } = createTestApp();
+    await createCategory("Tech");
+    await createCategory("Design");
+    const user = await createUser();
+    await createArticle(user, { category: "tech" });
+    await createArticle(user, { category: "tech" });
+
+    const response = await request(app).get("/categories").expect(200);
+
+    assert.deepEqual(
+      response.body.map((category: { slug: string; article_count: number }) => [
+        category.slug,
+        category.article_count,
+      ]),
+      [
+        ["design", 0],
+        ["tech", 2],
+      ]
+    );
+  });
+
+  it("returns one category and its articles by slug", async () => {
+    const { app, createUser, createArticle, createCategory } = createTestApp();
+    await createCategory("Tech");
+    const user = await createUser();
+    await createArticle(user, { title: "In tech", category: "tech" });
+    await createArticle(user, { title: "Elsewhere" });
+
+    const category = await request(app).get("/categories/tech").expect(200);
+    const articles = await request(app)
+      .get("/categories/tech/articles")
+      .expect(200);
+
+    assert.equal(category.body.name, "Tech");
+    assert.deepEqual(
+      articles.body.data.map((article: { title: string }) => article.title),
+      ["In tech"]
+    );
+    await request(app).get("/categories/nope").expect(404);
+    await request(app).get("/categories/nope/articles").expect(404);
+  });
+});
+
+describe("POST /categories", () => {
+  it("lets editors create categories with a derived slug", async () => {
+    const { app, createUser } = createTestApp();
+    const editor = await createUser("editor");
+
+    const response = await request(app)
+      .post("/categories")
+      .set("Authorization", bearer(editor))
+      .send({ name: "Web Development", description: "All things web" })
+      .expect(201);
+
+    assert.equal(response.body.slug, "web-development");
+    assert.equal(response.body.description, "All things web");
+    assert.equal(response.body.article_count, 0);
+  });
+
+  it("returns 409 for a taken slug", async () => {
+    const { app, createUser, createCategory } = createTestApp();
+    await createCategory("Tech");
+    const editor = await createUser("editor");
+
+    const response = await request(app)
+      .post("/categories")
+      .set("Authorization", bearer(editor))
+      .send({ name: "TECH" })
+      .expect(409);
+
+    assert.equal(
+      response.body.detail,
+      "A category with this slug already exists"
+    );
+  });
+
+  it("forbids authors and rejects invalid slugs", async () => {
+    const { app, createUser } = createTestApp();
+    const author = await createUser();
+    const editor = await createUser("editor");
+
+    await request(app)
+      .post("/categories")
+      .set("Authorization", bearer(author))
+      .send({ name: "Tech" })
+      .expect(403);
+    await request(app)
+      .post("/categories")
+      .set("Authorization", bearer(editor))
+      .send({ name: "Tech", slug: "Not A Slug" })
+      .expect(400);
+  });
+});
+
+describe("PUT /categories/:slug", () => {
+  it("renames a category and keeps its articles", async () => {
+    const { app, createUser, createArticle, createCategory } = createTestApp();
+    await createCategory("Tech");
+    const editor = await createUser("editor");
+    const article = await createArticle(editor, { category: "tech" });
+
+    const response = await request(app)
+      .put("/categories/tech")
+      .set("Authorization", bearer(editor))
+      .send({ name: "Technology", slug: "technology" })
+      .expect(200);
+
+    assert.equal(response.body.slug, "technology");
+    const updated = await request(app)
+      .get(`/articles/${article.id}`)
+      .expect(200);
+    assert.equal(updated.body.category, "technology");
+  });
+});
+
+describe("DELETE /categories/:slug", () => {
+  it("leaves the articles uncategorized", async () => {
+    const { app, createUser, createArticle, createCategory } = createTestApp();
+    await createCategory("Tech");
+    const admin = await createUser("admin");
+    const article = await createArticle(admin, { category: "tech" });
+
+    await request(app)
+      .delete("/categories/tech")
+      .set("Authorization", bearer(admin))
+      .expect(204);
+
+    const orphan = await request(app)
+      .get(`/articles/${article.id}`)
+      .expect(200);
+    assert.equal(orphan.body.category, null);
+    await request(app)
+      .delete("/categories/tech")
+      .set("Authorization", bearer(admin))
+      .expect(404);
+  });
+});
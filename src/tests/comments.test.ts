@@ -0,0 +1,261 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import { bearer, createTestApp, type TestUser } from "./helpers.js";
+
+// Post a comment through the API, optionally as a reply
+async function comment(
+  app: ReturnType<typeof createTestApp>["app"],
+  user: TestUser,
+  articleId: number,
+  body: string,
+  parentId?: number
+) {
+  const response = await request(app)
+    .post(`/articles/${articleId}/comments`)
+    .set("Authorization", bearer(user))
+    .send(parentId ? { body, parent_id: parentId } : { body })
+    .expect(201);
+  return response.body as { id: number };
+}
+
+describe("POST /articles/:id/comments", () => {
+  it("lets readers comment and reply", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const reader = await createUser("reader");
+    const article = await createArticle(author);
+
+    const response = await request(app)
+      .post(`/articles/${article.id}/comments`)
+      .set("Authorization", bearer(reader))
+      .send({ body: "  Nice read  " })
+      .expect(201);
+    const reply = await comment(
+      app,
+      author,
+      article.id,
+      "Thanks",
+      response.body.id
+    );
+
+    assert.equal(response.body.body, "Nice read");
+    assert.equal(response.body.username, reader.username);
+    assert.equal(response.body.deleted, false);
+    assert.deepEqual(response.body.replies, []);
+    assert.ok(reply.id > response.body.id);
+  });
+
+  it("rejects parents of other articles and deleted parents", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const first = await createArticle(user);
+    const second = await createArticle(user);
+    const parent = await comment(app, user, first.id, "On the first");
+
+    const foreign = await request(app)
+      .post(`/articles/${second.id}/comments`)
+      .set("Authorization", bearer(user))
+      .send({ body: "Reply", parent_id: parent.id })
+      .expect(400);
+    await request(app)
+      .delete(`/articles/${first.id}/comments/${parent.id}`)
+      .set("Authorization", bearer(user))
+      .expect(204);
+    const deleted = await request(app)
+      .post(`/articles/${first.id}/comments`)
+      .set("Authorization", bearer(user))
+      .send({ body: "Reply", parent_id: parent.id })
+      .expect(400);
+
+    assert.equal(foreign.body.detail, "Parent comment does not exist");
+    assert.equal(deleted.body.detail, "Cannot reply to a deleted comment");
+  });
+
+  it("requires a login, a body and an existing article", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+
+    await request(app)
+      .post(`/articles/${article.id}/comments`)
+      .send({ body: "Hi" })
+      .expect(401);
+    const empty = await request(app)
+      .post(`/articles/${article.id}/comments`)
+      .set("Authorization", bearer(user))
+      .send({ body: "   " })
+      .expect(400);
+    await request(app)
+      .post("/articles/42/comments")
+      .set("Authorization", bearer(user))
+      .send({ body: "Hi" })
+      .expect(404);
+
+    assert.deepEqual(empty.body.errors, ["Comment body is required"]);
+  });
+});
+
+describe("GET /articles/:id/comments", () => {
+  it("nests replies and keeps deleted comments as placeholders", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+    const root = await comment(app, user, article.id, "Root");
+    const reply = await comment(app, user, article.id, "Reply", root.id);
+    await comment(app, user, article.id, "Nested", reply.id);
+    const lonely = await comment(app, user, article.id, "Lonely");
+
+    for (const id of [root.id, lonely.id]) {
+      await request(app)
+        .delete(`/articles/${article.id}/comments/${id}`)
+        .set("Authorization", bearer(user))
+        .expect(204);
+    }
+    const response = await request(app)
+      .get(`/articles/${article.id}/comments`)
+      .set("Authorization", bearer(user))
+      .expect(200);
+
+    assert.equal(response.body.meta.total, 1);
+    const [thread] = response.body.data;
+    assert.equal(response.body.data.length, 1);
+    assert.equal(thread.deleted, true);
+    assert.equal(thread.body, null);
+    assert.equal(thread.username, null);
+    assert.equal(thread.replies[0].body, "Reply");
+    assert.equal(thread.replies[0].replies[0].body, "Nested");
+  });
+
+  it("pages over top level comments with a cursor", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+    for (const body of ["a", "b", "c"]) {
+      const parent = await comment(app, user, article.id, body);
+      await comment(app, user, article.id, `${body} reply`, parent.id);
+    }
+
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const query: Record<string, string> = { limit: "2" };
+      if (cursor) {
+        query.cursor = cursor;
+      }
+      const response = await request(app)
+        .get(`/articles/${article.id}/comments`)
+        .set("Authorization", bearer(user))
+        .query(query)
+        .expect(200);
+      seen.push(
+        ...response.body.data.map(
+          (thread: { body: string; replies: unknown[] }) =>
+            `${thread.body}:${thread.replies.length}`
+        )
+      );
+      cursor = response.body.meta.nextCursor;
+    } while (cursor);
+
+    assert.deepEqual(seen, ["a:1", "b:1", "c:1"]);
+  });
+
+  it("requires a login", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+
+    await request(app).get(`/articles/${article.id}/comments`).expect(401);
+  });
+});
+
+describe("PUT /articles/:id/comments/:commentId", () => {
+  it("lets only the author edit", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const owner = await createUser();
+    const commenter = await createUser("reader");
+    const editor = await createUser("editor");
+    const article = await createArticle(owner);
+    const posted = await comment(app, commenter, article.id, "Tpyo");
+
+    for (const user of [owner, editor]) {
+      await request(app)
+        .put(`/articles/${article.id}/comments/${posted.id}`)
+        .set("Authorization", bearer(user))
+        .send({ body: "Hijacked" })
+        .expect(403);
+    }
+    const response = await request(app)
+      .put(`/articles/${article.id}/comments/${posted.id}`)
+      .set("Authorization", bearer(commenter))
+      .send({ body: "Typo" })
+      .expect(200);
+
+    assert.equal(response.body.body, "Typo");
+    assert.ok(response.body.updated_at);
+  });
+
+  it("returns 404 for deleted comments and other articles", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+    const other = await createArticle(user);
+    const posted = await comment(app, user, article.id, "Hello");
+
+    await request(app)
+      .put(`/articles/${other.id}/comments/${posted.id}`)
+      .set("Authorization", bearer(user))
+      .send({ body: "Moved" })
+      .expect(404);
+    await request(app)
+      .delete(`/articles/${article.id}/comments/${posted.id}`)
+      .set("Authorization", bearer(user))
+      .expect(204);
+    await request(app)
+      .put(`/articles/${article.id}/comments/${posted.id}`)
+      .set("Authorization", bearer(user))
+      .send({ body: "Back" })
+      .expect(404);
+  });
+});
+
+describe("DELETE /articles/:id/comments/:commentId", () => {
+  it("lets the article owner and editors moderate", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const owner = await createUser();
+    const commenter = await createUser("reader");
+    const stranger = await createUser();
+    const editor = await createUser("editor");
+    const article = await createArticle(owner);
+    const first = await comment(app, commenter, article.id, "Spam");
+    const second = await comment(app, commenter, article.id, "More spam");
+
+    await request(app)
+      .delete(`/articles/${article.id}/comments/${first.id}`)
+      .set("Authorization", bearer(stranger))
+      .expect(403);
+    await request(app)
+      .delete(`/articles/${article.id}/comments/${first.id}`)
+      .set("Authorization", bearer(owner))
+      .expect(204);
+    await request(app)
+      .delete(`/articles/${article.id}/comments/${second.id}`)
+      .set("Authorization", bearer(editor))
+      .expect(204);
+  });
+
+  it("goes away with the article", async () => {
+    const { app, repositories, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+    const posted = await comment(app, user, article.id, "Hello");
+    await comment(app, user, article.id, "Reply", posted.id);
+
+    await request(app)
+      .delete(`/articles/${article.id}`)
+      .set("Authorization", bearer(user))
+      .expect(204);
+
+    assert.equal(await repositories.comments.findById(posted.id), null);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import { bearer, createTestApp } from "./helpers.js";
+
+const HOST = "api.example.com";
+
+describe("GET /feeds/articles", () => {
+  it("lists published articles as RSS with their authors", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    await createArticle(user, { title: "Tom & Jerry", body: "**Chase**" });
+    await createArticle(user, { title: "Secret", status: "draft" });
+
+    const response = await request(app)
+      .get("/feeds/articles.rss")
+      .set("Host", HOST)
+      .expect("Content-Type", "application/rss+xml; charset=utf-8")
+      .expect(200);
+
+    assert.match(response.text, /<title>Tom &amp; Jerry<\/title>/);
+    assert.match(
+      response.text,
+      new RegExp(`<dc:creator>${user.username}</dc:creator>`)
+    );
+    assert.match(
+      response.text,
+      /<content:encoded>&lt;p&gt;&lt;strong&gt;Chase/
+    );
+    assert.match(
+      response.text,
+      /<atom:link href="http:\/\/api.example.com\/feeds\/articles.rss"/
+    );
+    assert.doesNotMatch(response.text, /Secret/);
+  });
+
+  it("defaults to RSS and also speaks Atom and JSON Feed", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    await createArticle(user, { title: "Hello" });
+
+    await request(app)
+      .get("/feeds/articles")
+      .expect("Content-Type", "application/rss+xml; charset=utf-8")
+      .expect(200);
+
+    const atom = await request(app)
+      .get("/feeds/articles.atom")
+      .expect("Content-Type", "application/atom+xml; charset=utf-8")
+      .expect(200);
+    assert.match(
+      atom.text,
+      new RegExp(`<author><name>${user.username}</name></author>`)
+    );
+
+    const json = await request(app)
+      .get("/feeds/articles.json")
+      .expect("Content-Type", "application/feed+json; charset=utf-8")
+      .expect(200);
+    const feed = JSON.parse(json.text);
+    assert.equal(feed.version, "https://jsonfeed.org/version/1.1");
+    assert.equal(feed.items[0].title, "Hello");
+    assert.deepEqual(feed.items[0].authors, [{ name: user.username }]);
+  });
+
+  it("puts articles by when they were published", async (t) => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const start = Date.now();
+    t.mock.timers.enable({ apis: ["Date"], now: start });
+    const draft = await createArticle(user, {
+      title: "Old draft",
+      status: "draft",
+    });
+    t.mock.timers.setTime(start + 60 * 1000);
+    await createArticle(user, { title: "Newer post" });
+    t.mock.timers.setTime(start + 2 * 60 * 1000);
+    await request(app)
+      .post(`/articles/${draft.id}/publish`)
+      .set("Authorization", bearer(user))
+      .expect(200);
+
+    const response = await request(app).get("/feeds/articles.json").expect(200);
+
+    const feed = JSON.parse(response.text);
+    assert.deepEqual(
+      feed.items.map((item: { title: string }) => item.title),
+      ["Old draft", "Newer post"]
+    );
+  });
+
+  it("rejects unknown formats", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app).get("/feeds/articles.xml").expect(400);
+
+    assert.deepEqual(response.body.errors, [
+      "Feed format must be one of: rss, atom, json",
+    ]);
+  });
+
+  it("answers conditional requests with 304 until an article is added", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    await createArticle(user);
+
+    const first = await request(app)
+      .get("/feeds/articles.rss")
+      .set("Host", HOST)
+      .expect(200);
+    assert.ok(first.headers.etag);
+    assert.ok(first.headers["last-modified"]);
+
+    await request(app)
+      .get("/feeds/articles.rss")
+      .set("Host", HOST)
+      .set("If-None-Match", first.headers.etag)
+      .expect(304);
+    await request(app)
+      .get("/feeds/articles.rss")
+      .set("Host", HOST)
+      .set("If-Modified-Since", first.headers["last-modified"])
+      .expect(304);
+
+    await createArticle(user, { title: "Fresh" });
+    await request(app)
+      .get("/feeds/articles.rss")
+      .set("Host", HOST)
+      .set("If-None-Match", first.headers.etag)
+      .expect(200);
+  });
+});
+
+describe("GET /users/:id/feed", () => {
+  it("only lists the user's articles", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const alice = await createUser();
+    const bob = await createUser();
+    await createArticle(alice, { title: "By Alice" });
+    await createArticle(bob, { title: "By Bob" });
+
+    const response = await request(app)
+      .get(`/users/${alice.id}/feed.json`)
+      .expect(200);
+    const feed = JSON.parse(response.text);
+
+    assert.equal(feed.title, `Articles by ${alice.username}`);
+    assert.deepEqual(
+      feed.items.map((item: { title: string }) => item.title),
+      ["By Alice"]
+    );
+    await request(app).get("/users/999/feed.json").expect(404);
+  });
+});
+
+describe("GET /categories/:slug/feed", () => {
+  it("only lists the category's articles", async () => {
+    const { app, createUser, createArticle, createCategory } = createTestApp();
+    await createCategory("Tech");
+    const user = await createUser();
+    await createArticle(user, { title: "Tech news", category: "tech" });
+    await createArticle(user, { title: "Elsewhere" });
+
+    const response = await request(app)
+      .get("/categories/tech/feed.atom")
+      .expect(200);
+
+    assert.match(response.text, /<title>Tech<\/title>/);
+    assert.match(response.text, /Tech news/);
+    assert.doesNotMatch(response.text, /Elsewhere/);
+    await request(app).get("/categories/missing/feed.atom").expect(404);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import { bearer, createTestApp } from "./helpers.js";
+
+describe("POST /users/:id/follow", () => {
+  it("follows once and counts followers on the profile", async () => {
+    const { app, createUser } = createTestApp();
+    const alice = await createUser();
+    const bob = await createUser();
+
+    for (let i = 0; i < 2; i++) {
+      const response = await request(app)
+        .post(`/users/${bob.id}/follow`)
+        .set("Authorization", bearer(alice))
+        .expect(200);
+      assert.deepEqual(response.body, { following: true, follower_count: 1 });
+    }
+
+    const profile = await request(app).get(`/users/${bob.id}`).expect(200);
+    assert.equal(profile.body.follower_count, 1);
+    assert.equal(profile.body.following_count, 0);
+
+    const me = await request(app)
+      .get("/users/me")
+      .set("Authorization", bearer(alice))
+      .expect(200);
+    assert.equal(me.body.following_count, 1);
+  });
+
+  it("refuses following yourself and unknown users", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const self = await request(app)
+      .post(`/users/${user.id}/follow`)
+      .set("Authorization", bearer(user))
+      .expect(400);
+    assert.deepEqual(self.body.errors, ["You cannot follow yourself"]);
+
+    await request(app)
+      .post("/users/999/follow")
+      .set("Authorization", bearer(user))
+      .expect(404);
+    await request(app).post(`/users/${user.id}/follow`).expect(401);
+  });
+
+  it("unfollows", async () => {
+    const { app, createUser } = createTestApp();
+    const alice = await createUser();
+    const bob = await createUser();
+    await request(app)
+      .post(`/users/${bob.id}/follow`)
+      .set("Authorization", bearer(alice))
+      .expect(200);
+
+    const response = await request(app)
+      .delete(`/users/${bob.id}/follow`)
+      .set("Authorization", bearer(alice))
+      .expect(200);
+
+    assert.deepEqual(response.body, { following: false, follower_count: 0 });
+  });
+});
+
+describe("GET /users/:id/followers and /following", () => {
+  it("lists both sides of a follow, most recent first", async () => {
+    const { app, createUser } = createTestApp();
+    const alice = await createUser();
+    const bob = await createUser();
+    const carol = await createUser();
+    await request(app)
+      .post(`/users/${carol.id}/follow`)
+      .set("Authorization", bearer(alice))
+      .expect(200);
+    await request(app)
+      .post(`/users/${carol.id}/follow`)
+      .set("Authorization", bearer(bob))
+      .expect(200);
+
+    const followers = await request(app)
+      .get(`/users/${carol.id}/followers`)
+      .expect(200);
+    assert.deepEqual(
+      followers.body.data.map((user: { id: number }) => user.id),
+      [bob.id, alice.id]
+    );
+    assert.ok(followers.body.data[0].followed_at);
+    assert.equal(followers.body.meta.total, 2);
+
+    const following = await request(app)
+      .get(`/users/${alice.id}/following`)
+      .expect(200);
+    assert.deepEqual(
+      following.body.data.map((user: { username: string }) => user.username),
+      [carol.username]
+    );
+
+    await request(app).get("/users/999/followers").expect(404);
+  });
+});
+
+describe("GET /feed", () => {
+  it("pages through published articles of followed users", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const reader = await createUser();
+    const author = await createUser();
+    const stranger = await createUser();
+    await request(app)
+      .post(`/users/${author.id}/follow`)
+      .set("Authorization", bearer(reader))
+      .expect(200);
+    await createArticle(author, { title: "First" });
+    await createArticle(author, { title: "Second" });
+    await createArticle(author, { title: "Draft", status: "draft" });
+    await createArticle(stranger, { title: "Elsewhere" });
+
+    const first = await request(app)
+      .get("/feed?limit=1")
+      .set("Authorization", bearer(reader))
+      .expect(200);
+    assert.deepEqual(
+      first.body.data.map((article: { title: string }) => article.title),
+      ["Second"]
+    );
+    assert.equal(first.body.data[0].username, author.username);
+    assert.equal(first.body.meta.total, 2);
+    assert.ok(first.body.meta.nextCursor);
+
+    const second = await request(app)
+      .get(`/feed?limit=1&cursor=${first.body.meta.nextCursor}`)
+      .set("Authorization", bearer(reader))
+      .expect(200);
+    assert.deepEqual(
+      second.body.data.map((article: { title: string }) => article.title),
+      ["First"]
+    );
+    assert.equal(second.body.meta.nextCursor, null);
+  });
+
+  it("requires authentication and valid paging", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    await request(app).get("/feed").expect(401);
+    const response = await request(app)
+      .get("/feed?cursor=nonsense")
+      .set("Authorization", bearer(user))
+      .expect(400);
+    assert.deepEqual(response.body.errors, ["Cursor is invalid"]);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import request from "supertest";
+import { createApp } from "../app.js";
+import { createMemoryLogger } from "../logging/index.js";
+import { createMemoryMailer } from "../mail/index.js";
+import type { DatabaseMonitor } from "../monitoring/index.js";
+import type { NotificationHub } from "../notifications/index.js";
+import { createMemoryRepositories } from "../repositories/index.js";
+import { createMemoryStorage } from "../storage/index.js";
+import { closeServer, markShuttingDown } from "../utils/shutdown.js";
+import { bearer, createTestApp } from "./helpers.js";
+
+function createAppWithDatabase(database: DatabaseMonitor) {
+  const logger = createMemoryLogger();
+  const app = createApp({
+    repositories: createMemoryRepositories(),
+    mailer: createMemoryMailer(),
+    storage: createMemoryStorage("/uploads"),
+    logger,
+    database,
+  });
+  return { app, logger };
+}
+
+const poolStats = () => ({ limit: 10, open: 3, idle: 1, queued: 2 });
+
+describe("GET /healthz", () => {
+  it("answers while the process is up", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app).get("/healthz").expect(200);
+
+    assert.deepEqual(response.body, { status: "ok" });
+  });
+});
+
+describe("GET /readyz", () => {
+  it("is ready when the database answers", async () => {
+    const { app } = createAppWithDatabase({
+      ping: async () => {},
+      poolStats,
+    });
+
+    const response = await request(app).get("/readyz").expect(200);
+
+    assert.deepEqual(response.body, {
+      status: "ok",
+      checks: { database: "ok" },
+    });
+  });
+
+  it("is unavailable when the database doesn't answer", async () => {
+    const { app, logger } = createAppWithDatabase({
+      ping: async () => {
+        throw new Error("connect ECONNREFUSED");
+      },
+      poolStats,
+    });
+
+    const response = await request(app).get("/readyz").expect(503);
+
+    assert.deepEqual(response.body, {
+      status: "unavailable",
+      checks: { database: "failed" },
+    });
+    assert.ok(logger.entries.some((entry) => entry.level === "warn"));
+  });
+
+  it("is unavailable once shutdown begins", async () => {
+    const { app } = createAppWithDatabase({
+      ping: async () => {},
+      poolStats,
+    });
+    await request(app).get("/readyz").expect(200);
+
+    markShuttingDown(app);
+    const response = await request(app).get("/readyz").expect(503);
+
+    assert.deepEqual(response.body, { status: "shutting_down", checks: {} });
+    await request(app).get("/healthz").expect(200);
+  });
+});
+
+describe("GET /metrics", () => {
+  it("counts requests per route pattern with their latency", async (t) => {
+    const { app, repositories, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+    await request(app).get(`/articles/${article.id}`).expect(200);
+    await request(app).get("/articles/999999").expect(404);
+    await request(app)
+      .get(`/articles/${article.id}/comments`)
+      .set("Authorization", bearer(user))
+      .expect(200);
+    await request(app).get("/nowhere/at/all").expect(404);
+    t.mock.method(repositories.users, "findAll", async () => {
+      throw new Error("connection lost");
+    });
+    await request(app).get("/users").expect(500);
+
+    const response = await request(app).get("/metrics").expect(200);
+    const lines = response.text.split("\n");
+
+    assert.match(response.headers["content-type"]!, /^text\/plain/);
+    for (const line of [
+      'http_requests_total{method="GET",route="/articles/:id",status="200"} 1',
+      'http_requests_total{method="GET",route="/articles/:id",status="404"} 1',
+      'http_requests_total{method="GET",route="/articles/:id/comments",status="200"} 1',
+      'http_requests_total{method="GET",route="unmatched",status="404"} 1',
+      'http_request_errors_total{method="GET",route="/users"} 1',
+      'http_request_duration_seconds_count{method="GET",route="/articles/:id"} 2',
+      'http_request_duration_seconds_bucket{method="GET",route="/articles/:id",le="+Inf"} 2',
+      "# TYPE http_request_duration_seconds histogram",
+    ]) {
+      assert.ok(lines.includes(line), `missing ${line}`);
+    }
+    assert.ok(!response.text.includes("/articles/999999"));
+    assert.ok(!response.text.includes("mysql_pool"));
+  });
+
+  it("reports the usage of the database pool", async () => {
+    const { app } = createAppWithDatabase({
+      ping: async () => {},
+      poolStats,
+    });
+
+    const response = await request(app).get("/metrics").expect(200);
+    const lines = response.text.split("\n");
+
+    for (const line of [
+      'mysql_pool_connections{state="active"} 2',
+      'mysql_pool_connections{state="idle"} 1',
+      "mysql_pool_connection_limit 10",
+      "mysql_pool_queued_requests 2",
+    ]) {
+      assert.ok(lines.includes(line), `missing ${line}`);
+    }
+  });
+
+  it("leaves out the pool usage when the pool doesn't reveal it", async () => {
+    const { app } = createAppWithDatabase({
+      ping: async () => {},
+      poolStats: () => null,
+    });
+
+    const response = await request(app).get("/metrics").expect(200);
+
+    assert.ok(response.text.includes("http_requests_total"));
+    assert.ok(!/^mysql_pool/m.test(response.text));
+  });
+});
+
+describe("graceful shutdown", () => {
+  it("ends notification streams and waits for the server to close", async () => {
+    const { app, logger, createUser } = createTestApp();
+    const user = await createUser();
+    const server = app.listen(0);
+    const { port } = server.address() as AddressInfo;
+
+    const stream = await new Promise<http.IncomingMessage>((resolve, reject) =>
+      http
+        .get(
+          `http://localhost:${port}/notifications/stream?access_token=${user.token}`,
+          resolve
+        )
+        .on("error", reject)
+    );
+    stream.resume();
+    const ended = new Promise((resolve) => stream.on("end", resolve));
+
+    (app.locals.notificationHub as NotificationHub).close();
+    await ended;
+    await closeServer(server, logger, 1000);
+
+    assert.equal(server.listening, false);
+  });
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import request from "supertest";
+import { createApp } from "../app.js";
+import { createMemoryMailer, type MemoryMailer } from "../mail/index.js";
+import {
+  createMemoryRepositories,
+  type Repositories,
+} from "../repositories/index.js";
+import type { UserResponse } from "../interfaces.js";
+import { createMemoryLogger } from "../logging/index.js";
+import { createMemoryStorage } from "../storage/index.js";
+import type { Role } from "../utils/permissions.js";
+import { slugify } from "../utils/slug.js";
+
+process.env.JWT_SECRET ??= "test-secret";
+
+export const PASSWORD = "Passw0rd!";
+
+export interface TestUser extends UserResponse {
+  token: string;
+  refreshToken: string;
+}
+
+// A fresh app backed by in-memory repositories, mailer, storage and logger
+export function createTestApp() {
+  const repositories: Repositories = createMemoryRepositories();
+  const mailer = createMemoryMailer();
+  const storage = createMemoryStorage("/uploads");
+  const logger = createMemoryLogger();
+  const app = createApp({ repositories, mailer, storage, logger });
+  let userCount = 0;
+
+  // Register and log in through the API, optionally with another role
+  async function createUser(role?: Role): Promise<TestUser> {
+    userCount += 1;
+    const username = `user${userCount}`;
+    const email = `${username}@example.com`;
+
+    const registered = await request(app)
+      .post("/auth/register")
+      .send({ username, email, password: PASSWORD })
+      .expect(201);
+    const user: UserResponse = registered.body.user;
+
+    if (role) {
+      await repositories.users.updateRole(user.id, role);
+    }
+
+    const login = await request(app)
+      .post("/auth/login")
+      .send({ email, password: PASSWORD })
+      .expect(200);
+
+    return {
+      ...user,
+      token: login.body.token,
+      refreshToken: login.body.refreshToken,
+    };
+  }
+
+  async function createArticle(
+    user: TestUser,
+    article: {
+      title?: string;
+      body?: string;
+      category?: string;
+      tags?: string[];
+      status?: "draft" | "published";
+      publish_at?: string;
+    } = {}
+  ) {
+    // Published unless the test asks for a draft or a schedule
+    const status = article.publish_at ? {} : { status: "published" };
+    const response = await request(app)
+      .post("/articles")
+      .set("Authorization", `Bearer ${user.token}`)
+      .send({ title: "A title", body: "Some body text", ...status, ...article })
+      .expect(201);
+    return response.body as { id: number; title: string; body: string };
+  }
+
+  // Categories are managed by editors, tests create them directly
+  async function createCategory(name: string) {
+    return repositories.categories.create({
+      name,
+      slug: slugify(name),
+      description: null,
+    });
+  }
+
+  return {
+    app,
+    repositories,
+    mailer,
+    storage,
+    logger,
+    createUser,
+    createArticle,
+    createCategory,
+  };
+}
+
+// Pull the token out of the link in the last email sent to an address
+export function tokenFromMail(mailer: MemoryMailer, to: string) {
+  const sent = mailer.outbox.filter((mail) => mail.to === to);
+  const message = sent[sent.length - 1];
+  const token = message?.text.match(/token=([^\s&]+)/)?.[1];
+  assert.ok(token, `no token mailed to ${to}`);
+  return decodeURIComponent(token);
+}
+
+export function bearer(user: { token: string }) {
+  return `Bearer ${user.token}`;
+}
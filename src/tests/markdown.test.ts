@@ -0,0 +1,149 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import { bearer, createTestApp } from "./helpers.js";
+
+const body = [
+  "# Release notes",
+  "",
+  "Now with **bold** moves and [docs](https://example.com).",
+  "",
+  "<kbd>Ctrl</kbd> <span style='color:red'>works</span>",
+].join("\n");
+
+describe("GET /articles/:id?format", () => {
+  it("returns the stored Markdown by default", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user, { body });
+
+    const response = await request(app)
+      .get(`/articles/${article.id}`)
+      .expect(200);
+
+    assert.equal(response.body.body, body);
+  });
+
+  it("renders sanitized HTML", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user, { body });
+
+    const response = await request(app)
+      .get(`/articles/${article.id}?format=html`)
+      .expect(200);
+
+    assert.equal(
+      response.body.body,
+      [
+        "<h1>Release notes</h1>",
+        '<p>Now with <strong>bold</strong> moves and <a href="https://example.com" rel="nofollow noopener">docs</a>.</p>',
+        "<p><kbd>Ctrl</kbd> <span>works</span></p>",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("renders plain text", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user, { body });
+
+    const response = await request(app)
+      .get(`/articles/${article.id}?format=text`)
+      .expect(200);
+
+    assert.equal(
+      response.body.body,
+      "Release notes\nNow with bold moves and docs.\nCtrl works"
+    );
+  });
+
+  it("rejects unknown formats", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+
+    const response = await request(app)
+      .get(`/articles/${article.id}?format=pdf`)
+      .expect(400);
+
+    assert.deepEqual(response.body.errors, [
+      "Format must be one of: markdown, html, text",
+    ]);
+  });
+});
+
+describe("article excerpts", () => {
+  it("lists a plain text excerpt and reading time", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    await createArticle(user, { body: `## Intro\n\n${"word ".repeat(450)}` });
+
+    const response = await request(app).get("/articles").expect(200);
+    const [article] = response.body.data;
+
+    assert.equal(article.reading_time, 3);
+    assert.ok(article.excerpt.startsWith("Intro word word"));
+    assert.ok(article.excerpt.endsWith("word…"));
+    assert.ok(article.excerpt.length <= 201);
+  });
+});
+
+describe("dangerous article bodies", () => {
+  it("rejects scripts, event handlers and script URLs", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .post("/articles")
+      .set("Authorization", bearer(user))
+      .send({
+        title: "Hello",
+        body: [
+          "<script>alert(1)</script>",
+          "",
+          "<img src=x onerror=alert(1)>",
+          "",
+          "[click](javascript:alert(1))",
+        ].join("\n"),
+      })
+      .expect(400);
+
+    assert.deepEqual(response.body.errors, [
+      "Embedded <script> is not allowed",
+      "Event handler attributes are not allowed",
+      "Script and data URLs are not allowed",
+    ]);
+  });
+
+  it("allows dangerous looking code inside code blocks", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    await request(app)
+      .post("/articles")
+      .set("Authorization", bearer(user))
+      .send({
+        title: "XSS 101",
+        body: "Never do this:\n\n```html\n<script>alert(1)</script>\n```",
+      })
+      .expect(201);
+  });
+
+  it("rejects dangerous updates", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+
+    const response = await request(app)
+      .put(`/articles/${article.id}`)
+      .set("Authorization", bearer(user))
+      .send({ title: "Hello", body: '<iframe src="https://evil.test">' })
+      .expect(400);
+
+    assert.deepEqual(response.body.errors, [
+      "Embedded <iframe> is not allowed",
+    ]);
+  });
+});
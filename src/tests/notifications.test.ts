@@ -0,0 +1,279 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import request from "supertest";
+import { bearer, createTestApp } from "./helpers.js";
+
+describe("GET /notifications", () => {
+  it("notifies authors of comments, replies, likes and follows", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const reader = await createUser();
+    const article = await createArticle(author, { title: "Hello" });
+
+    const comment = await request(app)
+      .post(`/articles/${article.id}/comments`)
+      .set("Authorization", bearer(reader))
+      .send({ body: "Nice" })
+      .expect(201);
+    await request(app)
+      .post(`/articles/${article.id}/comments`)
+      .set("Authorization", bearer(author))
+      .send({ body: "Thanks", parent_id: comment.body.id })
+      .expect(201);
+    await request(app)
+      .post(`/articles/${article.id}/like`)
+      .set("Authorization", bearer(reader))
+      .expect(200);
+    await request(app)
+      .post(`/users/${author.id}/follow`)
+      .set("Authorization", bearer(reader))
+      .expect(200);
+
+    const forAuthor = await request(app)
+      .get("/notifications")
+      .set("Authorization", bearer(author))
+      .expect(200);
+    assert.deepEqual(
+      forAuthor.body.data.map(
+        (notification: { type: string }) => notification.type
+      ),
+      ["follow", "like", "comment"]
+    );
+    assert.equal(forAuthor.body.data[1].actor_username, reader.username);
+    assert.equal(forAuthor.body.data[1].article_title, "Hello");
+    assert.equal(forAuthor.body.data[2].comment_id, comment.body.id);
+    assert.equal(forAuthor.body.meta.unread_count, 3);
+
+    const forReader = await request(app)
+      .get("/notifications")
+      .set("Authorization", bearer(reader))
+      .expect(200);
+    assert.deepEqual(
+      forReader.body.data.map(
+        (notification: { type: string; actor_id: number }) => [
+          notification.type,
+          notification.actor_id === author.id,
+        ]
+      ),
+      [["reply", true]]
+    );
+  });
+
+  it("does not notify users of their own actions", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const article = await createArticle(author);
+
+    await request(app)
+      .post(`/articles/${article.id}/comments`)
+      .set("Authorization", bearer(author))
+      .send({ body: "First" })
+      .expect(201);
+    await request(app)
+      .post(`/articles/${article.id}/like`)
+      .set("Authorization", bearer(author))
+      .expect(200);
+
+    const response = await request(app)
+      .get("/notifications")
+      .set("Authorization", bearer(author))
+      .expect(200);
+    assert.deepEqual(response.body.data, []);
+    await request(app).get("/notifications").expect(401);
+  });
+});
+
+describe("POST /notifications/:id/read and /read-all", () => {
+  it("marks your notifications read", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+    const first = await createUser();
+    const second = await createUser();
+    for (const follower of [first, second]) {
+      await request(app)
+        .post(`/users/${user.id}/follow`)
+        .set("Authorization", bearer(follower))
+        .expect(200);
+    }
+    const list = await request(app)
+      .get("/notifications")
+      .set("Authorization", bearer(user))
+      .expect(200);
+    const [latest] = list.body.data;
+
+    await request(app)
+      .post(`/notifications/${latest.id}/read`)
+      .set("Authorization", bearer(first))
+      .expect(404);
+    await request(app)
+      .post(`/notifications/${latest.id}/read`)
+      .set("Authorization", bearer(user))
+      .expect(204);
+
+    const unread = await request(app)
+      .get("/notifications?unread=true")
+      .set("Authorization", bearer(user))
+      .expect(200);
+    assert.equal(unread.body.data.length, 1);
+    assert.equal(unread.body.meta.unread_count, 1);
+
+    await request(app)
+      .post("/notifications/read-all")
+      .set("Authorization", bearer(user))
+      .expect(204);
+    const after = await request(app)
+      .get("/notifications")
+      .set("Authorization", bearer(user))
+      .expect(200);
+    assert.equal(after.body.meta.unread_count, 0);
+    assert.ok(after.body.data.every((n: { read_at: string }) => n.read_at));
+  });
+});
+
+describe("/notifications/preferences", () => {
+  it("stops notifications of types that are turned off", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const reader = await createUser();
+    const article = await createArticle(author);
+
+    const updated = await request(app)
+      .put("/notifications/preferences")
+      .set("Authorization", bearer(author))
+      .send({ like: false })
+      .expect(200);
+    assert.deepEqual(updated.body, {
+      comment: true,
+      reply: true,
+      like: false,
+      follow: true,
+    });
+
+    await request(app)
+      .post(`/articles/${article.id}/like`)
+      .set("Authorization", bearer(reader))
+      .expect(200);
+    const response = await request(app)
+      .get("/notifications")
+      .set("Authorization", bearer(author))
+      .expect(200);
+    assert.deepEqual(response.body.data, []);
+  });
+
+  it("requires at least one known type", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .put("/notifications/preferences")
+      .set("Authorization", bearer(user))
+      .send({ mentions: false })
+      .expect(400);
+    assert.deepEqual(response.body.errors, [
+      "Provide at least one of: comment, reply, like, follow",
+    ]);
+  });
+});
+
+describe("GET /notifications/stream", () => {
+  it("streams the unread count, then new notifications", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+    const follower = await createUser();
+    const server = app.listen(0);
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const stream = await new Promise<http.IncomingMessage>(
+        (resolve, reject) =>
+          http
+            .get(
+              `http://localhost:${port}/notifications/stream?access_token=${user.token}`,
+              resolve
+            )
+            .on("error", reject)
+      );
+      assert.equal(stream.statusCode, 200);
+      assert.equal(stream.headers["content-type"], "text/event-stream");
+
+      stream.setEncoding("utf8");
+      let received = "";
+      const nextEvent = () =>
+        new Promise<string>((resolve) => {
+          const check = () => {
+            const end = received.indexOf("\n\n");
+            if (end === -1) {
+              return stream.once("data", (chunk) => {
+                received += chunk;
+                check();
+              });
+            }
+            resolve(received.slice(0, end));
+            received = received.slice(end + 2);
+          };
+          check();
+        });
+
+      assert.equal(
+        await nextEvent(),
+        'event: unread\ndata: {"unread_count":0}'
+      );
+
+      await request(app)
+        .post(`/users/${user.id}/follow`)
+        .set("Authorization", bearer(follower))
+        .expect(200);
+      const [event, data] = (await nextEvent()).split("\n");
+      assert.equal(event, "event: notification");
+      const notification = JSON.parse(data!.slice("data: ".length));
+      assert.equal(notification.type, "follow");
+      assert.equal(notification.actor_username, follower.username);
+
+      stream.destroy();
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("ends once the session is logged out", async (t) => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+    t.mock.timers.enable({ apis: ["setInterval"] });
+    const server = app.listen(0);
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const stream = await new Promise<http.IncomingMessage>(
+        (resolve, reject) =>
+          http
+            .get(
+              `http://localhost:${port}/notifications/stream?access_token=${user.token}`,
+              resolve
+            )
+            .on("error", reject)
+      );
+      stream.resume();
+      const ended = new Promise((resolve) => stream.on("end", resolve));
+
+      await request(app)
+        .post("/auth/logout")
+        .set("Authorization", bearer(user))
+        .expect(204);
+      t.mock.timers.tick(25_000);
+
+      await ended;
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("requires a token", async () => {
+    const { app } = createTestApp();
+
+    await request(app).get("/notifications/stream").expect(401);
+  });
+});
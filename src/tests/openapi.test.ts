@@ -0,0 +1,154 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import request from "supertest";
+import {
+  createOpenApiDocument,
+  listRoutes,
+  type OpenApiDocument,
+  type Parameter,
+} from "../openapi/index.js";
+import { apiRouters } from "../routes/index.js";
+import { createTestApp } from "./helpers.js";
+
+async function fetchDocument() {
+  const { app } = createTestApp();
+  const response = await request(app).get("/openapi.json").expect(200);
+  return response.body as OpenApiDocument;
+}
+
+describe("GET /openapi.json", () => {
+  it("is versioned along with the package", async () => {
+    const { version } = JSON.parse(
+      readFileSync(new URL("../../package.json", import.meta.url), "utf8")
+    );
+
+    const document = await fetchDocument();
+
+    assert.equal(document.openapi, "3.0.0");
+    assert.equal(document.info.version, version);
+  });
+
+  it("finds the route files from any working directory", (t) => {
+    const cwd = process.cwd();
+    t.after(() => process.chdir(cwd));
+    process.chdir(tmpdir());
+
+    const document = createOpenApiDocument(apiRouters);
+
+    assert.ok(document.paths["/articles"]);
+  });
+
+  it("documents every route with its parameters and request body", async () => {
+    const document = await fetchDocument();
+    const problems: string[] = [];
+
+    for (const route of listRoutes(apiRouters)) {
+      const name = `${route.method.toUpperCase()} ${route.path}`;
+      const operation = document.paths[route.path]?.[route.method];
+      if (!operation?.responses) {
+        problems.push(`${name} has no documentation`);
+        continue;
+      }
+
+      const parameters = (operation.parameters ?? []) as Parameter[];
+      for (const [, param] of route.path.matchAll(/\{(\w+)\}/g)) {
+        const documented = parameters.find(
+          (parameter) => parameter.in === "path" && parameter.name === param
+        );
+        if (!documented?.schema) {
+          problems.push(`${name} has no schema for the ${param} parameter`);
+        }
+      }
+      if (route.schemas.body && !operation.requestBody) {
+        problems.push(`${name} has no request body schema`);
+      }
+    }
+
+    assert.deepEqual(problems, []);
+  });
+
+  it("takes request schemas from the validation schemas", async () => {
+    const document = await fetchDocument();
+
+    const create = document.paths["/articles"]!.post!.requestBody as {
+      required: boolean;
+      content: Record<string, { schema: Parameter["schema"] }>;
+    };
+    const body = create.content["application/json"]!.schema;
+    assert.equal(create.required, true);
+    assert.deepEqual(body.required, ["title", "body"]);
+    assert.deepEqual(Object.keys(body.properties!), [
+      "title",
+      "body",
+      "category",
+      "tags",
+      "status",
+      "publish_at",
+    ]);
+
+    const list = document.paths["/articles"]!.get!.parameters as Parameter[];
+    const limit = list.find((parameter) => parameter.name === "limit");
+    assert.deepEqual(limit, {
+      in: "query",
+      name: "limit",
+      required: false,
+      schema: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+    });
+    const createdAfter = list.find(
+      (parameter) => parameter.name === "created_after"
+    );
+    assert.equal(createdAfter?.schema.format, "date-time");
+  });
+
+  it("describes articles by their body", async () => {
+    const document = await fetchDocument();
+
+    const article = document.components.schemas!.Article as {
+      properties: Record<string, unknown>;
+    };
+    assert.ok(article.properties.body);
+    assert.ok(article.properties.category);
+    assert.equal(article.properties.content, undefined);
+  });
+
+  it("documents auth errors as problem details", async () => {
+    const document = await fetchDocument();
+    const problems: string[] = [];
+
+    for (const [path, operations] of Object.entries(document.paths)) {
+      if (!path.startsWith("/auth/")) {
+        continue;
+      }
+      for (const [method, operation] of Object.entries(operations)) {
+        for (const [status, response] of Object.entries(
+          operation.responses ?? {}
+        )) {
+          const { content } = response as { content?: object };
+          if (Number(status) >= 400 && content) {
+            const types = Object.keys(content);
+            if (types.join() !== "application/problem+json") {
+              problems.push(`${method} ${path} ${status}: ${types.join()}`);
+            }
+          }
+        }
+      }
+    }
+
+    assert.deepEqual(problems, []);
+    assert.equal(document.components.schemas!.ErrorResponse, undefined);
+    assert.ok(
+      document.paths["/auth/register"]!.post!.responses!["409"],
+      "register documents taken emails and usernames"
+    );
+  });
+
+  it("is shown by Swagger UI", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app).get("/api-docs/").expect(200);
+
+    assert.match(response.headers["content-type"]!, /text\/html/);
+  });
+});
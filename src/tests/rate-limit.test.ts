@@ -0,0 +1,203 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import { createApp } from "../app.js";
+import { createMemoryMailer } from "../mail/index.js";
+import {
+  createMemoryRateLimitStore,
+  type RateLimitStore,
+} from "../rate-limit/index.js";
+import { createMemoryRepositories } from "../repositories/index.js";
+import { createMemoryStorage } from "../storage/index.js";
+import { bearer, createTestApp, PASSWORD } from "./helpers.js";
+
+const MINUTE_MS = 60 * 1000;
+
+describe("rate limiting", () => {
+  it("sends RateLimit headers", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app).get("/users").expect(200);
+
+    assert.equal(response.headers["ratelimit-limit"], "300");
+    assert.equal(response.headers["ratelimit-remaining"], "299");
+    assert.equal(response.headers["ratelimit-reset"], "900");
+  });
+
+  it("reports the most restrictive of stacked limits", async () => {
+    const { app } = createTestApp();
+
+    const response = await request(app)
+      .post("/auth/forgot-password")
+      .send({ email: "someone@example.com" })
+      .expect(202);
+
+    assert.equal(response.headers["ratelimit-limit"], "3");
+    assert.equal(response.headers["ratelimit-remaining"], "2");
+  });
+
+  it("answers 429 with Retry-After once an IP used up its registrations", async () => {
+    const { app } = createTestApp();
+
+    for (let i = 1; i <= 10; i++) {
+      await request(app)
+        .post("/auth/register")
+        .send({ username: "", email: "", password: "" })
+        .expect(400);
+    }
+    const response = await request(app)
+      .post("/auth/register")
+      .send({ username: "", email: "", password: "" })
+      .expect(429);
+
+    assert.equal(
+      response.body.detail,
+      "Too many requests, please try again later"
+    );
+    assert.equal(response.headers["retry-after"], "3600");
+    assert.equal(response.headers["ratelimit-remaining"], "0");
+  });
+
+  it("limits password reset emails per account", async () => {
+    const { app, mailer, createUser } = createTestApp();
+    const user = await createUser();
+    const sent = mailer.outbox.length;
+
+    for (let i = 1; i <= 3; i++) {
+      await request(app)
+        .post("/auth/forgot-password")
+        .send({ email: user.email })
+        .expect(202);
+    }
+    await request(app)
+      .post("/auth/forgot-password")
+      .send({ email: user.email.toUpperCase() })
+      .expect(429);
+
+    assert.equal(mailer.outbox.length, sent + 3);
+  });
+
+  it("counts in the store the app is given", async () => {
+    const store = createMemoryRateLimitStore();
+    const keys: string[] = [];
+    const recording: RateLimitStore = {
+      ...store,
+      async increment(key, windowMs) {
+        keys.push(key);
+        return store.increment(key, windowMs);
+      },
+    };
+    const app = createApp({
+      repositories: createMemoryRepositories(),
+      mailer: createMemoryMailer(),
+      storage: createMemoryStorage("/uploads"),
+      rateLimitStore: recording,
+    });
+
+    await request(app).get("/articles").expect(200);
+
+    assert.equal(keys.length, 1);
+    assert.match(keys[0]!, /^api:/);
+  });
+});
+
+describe("login lockout", () => {
+  async function failLogin(app: ReturnType<typeof createApp>, email: string) {
+    return request(app)
+      .post("/auth/login")
+      .send({ email, password: "Wrong0ne!" });
+  }
+
+  it("locks the account after five failed logins", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    for (let i = 1; i <= 5; i++) {
+      assert.equal((await failLogin(app, user.email)).status, 401);
+    }
+    const locked = await request(app)
+      .post("/auth/login")
+      .send({ email: user.email, password: PASSWORD })
+      .expect(429);
+
+    assert.equal(
+      locked.body.detail,
+      "Too many failed login attempts, please try again later"
+    );
+    assert.equal(locked.headers["retry-after"], "60");
+  });
+
+  it("locks for twice as long on each further failure", async (t) => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+    const start = Date.now();
+    t.mock.timers.enable({ apis: ["Date"], now: start });
+
+    for (let i = 1; i <= 5; i++) {
+      await failLogin(app, user.email);
+    }
+    t.mock.timers.setTime(start + MINUTE_MS);
+    assert.equal((await failLogin(app, user.email)).status, 401);
+
+    const locked = await failLogin(app, user.email);
+    assert.equal(locked.status, 429);
+    assert.equal(locked.headers["retry-after"], "120");
+  });
+
+  it("lets the account in once the lock ran out and resets on success", async (t) => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+    const start = Date.now();
+    t.mock.timers.enable({ apis: ["Date"], now: start });
+
+    for (let i = 1; i <= 5; i++) {
+      await failLogin(app, user.email);
+    }
+    t.mock.timers.setTime(start + MINUTE_MS);
+    await request(app)
+      .post("/auth/login")
+      .send({ email: user.email, password: PASSWORD })
+      .expect(200);
+
+    // The failure count started over, one more failure doesn't lock
+    assert.equal((await failLogin(app, user.email)).status, 401);
+    assert.equal((await failLogin(app, user.email)).status, 401);
+  });
+
+  it("locks unknown emails the same way", async () => {
+    const { app } = createTestApp();
+
+    for (let i = 1; i <= 5; i++) {
+      await failLogin(app, "nobody@example.com");
+    }
+
+    assert.equal((await failLogin(app, "nobody@example.com")).status, 429);
+  });
+});
+
+describe("current password checks", () => {
+  it("are limited per user", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    for (let i = 1; i <= 10; i++) {
+      await request(app)
+        .delete("/users/me")
+        .set("Authorization", bearer(user))
+        .send({ currentPassword: "Wrong0ne!" })
+        .expect(403);
+    }
+    const limited = await request(app)
+      .post("/users/me/password")
+      .set("Authorization", bearer(user))
+      .send({ currentPassword: PASSWORD, newPassword: "N3w-Passw0rd" })
+      .expect(429);
+
+    assert.equal(
+      limited.body.detail,
+      "Too many password attempts, please try again later"
+    );
+    assert.ok(limited.headers["retry-after"]);
+    await request(app).get(`/users/${user.id}`).expect(200);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import { bearer, createTestApp } from "./helpers.js";
+
+describe("POST/DELETE /articles/:id/like", () => {
+  it("counts each user once", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const reader = await createUser("reader");
+    const article = await createArticle(author);
+
+    await request(app)
+      .post(`/articles/${article.id}/like`)
+      .set("Authorization", bearer(reader))
+      .expect(200);
+    const again = await request(app)
+      .post(`/articles/${article.id}/like`)
+      .set("Authorization", bearer(reader))
+      .expect(200);
+    const shown = await request(app).get(`/articles/${article.id}`).expect(200);
+    const removed = await request(app)
+      .delete(`/articles/${article.id}/like`)
+      .set("Authorization", bearer(reader))
+      .expect(200);
+
+    assert.deepEqual(again.body, { liked: true, like_count: 1 });
+    assert.equal(shown.body.like_count, 1);
+    assert.deepEqual(removed.body, { liked: false, like_count: 0 });
+  });
+
+  it("requires a login and an existing article", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    await request(app).post("/articles/1/like").expect(401);
+    await request(app)
+      .post("/articles/42/like")
+      .set("Authorization", bearer(user))
+      .expect(404);
+  });
+});
+
+describe("bookmarks", () => {
+  it("lists your bookmarks, most recent first", async (t) => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const reader = await createUser("reader");
+    const first = await createArticle(author, { title: "First" });
+    const second = await createArticle(author, { title: "Second" });
+    const third = await createArticle(author, { title: "Third" });
+
+    t.mock.timers.enable({ apis: ["Date"], now: Date.now() });
+    for (const article of [second, first, third]) {
+      t.mock.timers.tick(1000);
+      await request(app)
+        .post(`/articles/${article.id}/bookmark`)
+        .set("Authorization", bearer(reader))
+        .expect(200);
+    }
+    await request(app)
+      .delete(`/articles/${third.id}/bookmark`)
+      .set("Authorization", bearer(reader))
+      .expect(200);
+
+    const response = await request(app)
+      .get("/users/me/bookmarks")
+      .set("Authorization", bearer(reader))
+      .expect(200);
+    const others = await request(app)
+      .get("/users/me/bookmarks")
+      .set("Authorization", bearer(author))
+      .expect(200);
+
+    assert.deepEqual(
+      response.body.data.map((article: { title: string }) => article.title),
+      ["First", "Second"]
+    );
+    assert.ok(response.body.data[0].bookmarked_at);
+    assert.equal(response.body.meta.total, 2);
+    assert.deepEqual(others.body.data, []);
+  });
+
+  it("disappear with the article", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+
+    await request(app)
+      .post(`/articles/${article.id}/bookmark`)
+      .set("Authorization", bearer(user))
+      .expect(200);
+    await request(app)
+      .delete(`/articles/${article.id}`)
+      .set("Authorization", bearer(user))
+      .expect(204);
+
+    const response = await request(app)
+      .get("/users/me/bookmarks")
+      .set("Authorization", bearer(user))
+      .expect(200);
+    assert.equal(response.body.meta.total, 0);
+  });
+});
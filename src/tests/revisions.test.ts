@@ -0,0 +1,214 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import type { createApp } from "../app.js";
+import { bearer, createTestApp, type TestUser } from "./helpers.js";
+
+async function edit(
+  app: ReturnType<typeof createApp>,
+  user: TestUser,
+  articleId: number,
+  changes: { title: string; body: string; category?: string | null }
+) {
+  await request(app)
+    .put(`/articles/${articleId}`)
+    .set("Authorization", bearer(user))
+    .send(changes)
+    .expect(200);
+}
+
+describe("GET /articles/:id/revisions", () => {
+  it("keeps what every update replaced, newest first", async () => {
+    const { app, createUser, createArticle, createCategory } = createTestApp();
+    await createCategory("Tech");
+    const author = await createUser();
+    const editor = await createUser("editor");
+    const article = await createArticle(author, {
+      title: "First",
+      body: "one",
+      category: "tech",
+    });
+    await edit(app, author, article.id, {
+      title: "Second",
+      body: "two",
+      category: null,
+    });
+    await edit(app, editor, article.id, { title: "Third", body: "three" });
+
+    const list = await request(app)
+      .get(`/articles/${article.id}/revisions`)
+      .set("Authorization", bearer(author))
+      .expect(200);
+    const first = await request(app)
+      .get(`/articles/${article.id}/revisions/1`)
+      .set("Authorization", bearer(author))
+      .expect(200);
+
+    assert.deepEqual(
+      list.body.data.map(
+        (revision: { revision: number; title: string; edited_by: number }) => [
+          revision.revision,
+          revision.title,
+          revision.edited_by,
+        ]
+      ),
+      [
+        [2, "Second", editor.id],
+        [1, "First", author.id],
+      ]
+    );
+    assert.equal(list.body.data[0].body, undefined);
+    assert.equal(list.body.meta.total, 2);
+    assert.equal(first.body.body, "one");
+    assert.equal(first.body.category, "tech");
+    assert.equal(first.body.editor_username, author.username);
+  });
+
+  it("is only for users who may edit the article", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const other = await createUser();
+    const editor = await createUser("editor");
+    const article = await createArticle(author);
+
+    await request(app).get(`/articles/${article.id}/revisions`).expect(401);
+    await request(app)
+      .get(`/articles/${article.id}/revisions`)
+      .set("Authorization", bearer(other))
+      .expect(403);
+    await request(app)
+      .get(`/articles/${article.id}/revisions`)
+      .set("Authorization", bearer(editor))
+      .expect(200);
+    await request(app)
+      .get("/articles/42/revisions")
+      .set("Authorization", bearer(author))
+      .expect(404);
+  });
+
+  it("returns 404 for unknown revisions", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const article = await createArticle(author);
+
+    const response = await request(app)
+      .get(`/articles/${article.id}/revisions/1`)
+      .set("Authorization", bearer(author))
+      .expect(404);
+
+    assert.equal(response.body.detail, "Revision not found");
+  });
+});
+
+describe("GET /articles/:id/revisions/diff", () => {
+  it("compares a revision with the current article line by line", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const article = await createArticle(author, {
+      title: "Draft",
+      body: "intro\nmiddle\nend",
+    });
+    await edit(app, author, article.id, {
+      title: "Draft",
+      body: "intro\nend\nps",
+    });
+
+    const response = await request(app)
+      .get(`/articles/${article.id}/revisions/diff?from=1`)
+      .set("Authorization", bearer(author))
+      .expect(200);
+
+    assert.deepEqual(response.body, {
+      from: 1,
+      to: null,
+      title: [{ type: "unchanged", line: "Draft" }],
+      body: [
+        { type: "unchanged", line: "intro" },
+        { type: "removed", line: "middle" },
+        { type: "unchanged", line: "end" },
+        { type: "added", line: "ps" },
+      ],
+      category: { from: null, to: null },
+    });
+  });
+
+  it("compares two revisions", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const article = await createArticle(author, { title: "One", body: "a" });
+    await edit(app, author, article.id, { title: "Two", body: "a" });
+    await edit(app, author, article.id, { title: "Three", body: "a" });
+
+    const response = await request(app)
+      .get(`/articles/${article.id}/revisions/diff?from=1&to=2`)
+      .set("Authorization", bearer(author))
+      .expect(200);
+
+    assert.deepEqual(response.body.title, [
+      { type: "removed", line: "One" },
+      { type: "added", line: "Two" },
+    ]);
+  });
+
+  it("validates the revision numbers", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const article = await createArticle(author);
+
+    const invalid = await request(app)
+      .get(`/articles/${article.id}/revisions/diff?from=zero`)
+      .set("Authorization", bearer(author))
+      .expect(400);
+    await request(app)
+      .get(`/articles/${article.id}/revisions/diff?from=1`)
+      .set("Authorization", bearer(author))
+      .expect(404);
+
+    assert.deepEqual(invalid.body.errors, ["from must be a number"]);
+  });
+});
+
+describe("POST /articles/:id/revisions/:rev/restore", () => {
+  it("restores the revision and keeps the replaced version", async () => {
+    const { app, createUser, createArticle, createCategory } = createTestApp();
+    await createCategory("Tech");
+    const author = await createUser();
+    const article = await createArticle(author, {
+      title: "Original",
+      body: "good",
+      category: "tech",
+    });
+    await edit(app, author, article.id, {
+      title: "Vandalised",
+      body: "bad",
+      category: null,
+    });
+
+    const restored = await request(app)
+      .post(`/articles/${article.id}/revisions/1/restore`)
+      .set("Authorization", bearer(author))
+      .expect(200);
+    const latest = await request(app)
+      .get(`/articles/${article.id}/revisions/2`)
+      .set("Authorization", bearer(author))
+      .expect(200);
+
+    assert.equal(restored.body.title, "Original");
+    assert.equal(restored.body.body, "good");
+    assert.equal(restored.body.category, "tech");
+    assert.equal(latest.body.title, "Vandalised");
+  });
+
+  it("forbids other authors", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const other = await createUser();
+    const article = await createArticle(author);
+    await edit(app, author, article.id, { title: "New", body: "New body" });
+
+    await request(app)
+      .post(`/articles/${article.id}/revisions/1/restore`)
+      .set("Authorization", bearer(other))
+      .expect(403);
+  });
+});
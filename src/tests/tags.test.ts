@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import { bearer, createTestApp } from "./helpers.js";
+
+describe("tags", () => {
+  it("are created on the fly and listed with article counts", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    await createArticle(user, { tags: ["Node.js", "Testing"] });
+    await createArticle(user, { tags: ["testing"] });
+
+    const response = await request(app).get("/tags").expect(200);
+
+    assert.deepEqual(
+      response.body.map((tag: { slug: string; article_count: number }) => [
+        tag.slug,
+        tag.article_count,
+      ]),
+      [
+        ["node-js", 1],
+        ["testing", 2],
+      ]
+    );
+  });
+
+  it("lists the articles with a tag", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    await createArticle(user, { title: "Tagged", tags: ["node"] });
+    await createArticle(user, { title: "Untagged" });
+
+    const response = await request(app).get("/tags/node/articles").expect(200);
+
+    assert.deepEqual(
+      response.body.data.map((article: { title: string }) => article.title),
+      ["Tagged"]
+    );
+    await request(app).get("/tags/nope/articles").expect(404);
+  });
+
+  it("lets editors rename and delete tags", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const editor = await createUser("editor");
+    const article = await createArticle(editor, { tags: ["js", "node"] });
+
+    await request(app)
+      .put("/tags/js")
+      .set("Authorization", bearer(editor))
+      .send({ name: "JavaScript" })
+      .expect(200);
+    await request(app)
+      .delete("/tags/node")
+      .set("Authorization", bearer(editor))
+      .expect(204);
+
+    const tag = await request(app).get("/tags/js").expect(200);
+    assert.equal(tag.body.name, "JavaScript");
+    const updated = await request(app)
+      .get(`/articles/${article.id}`)
+      .expect(200);
+    assert.deepEqual(updated.body.tags, ["js"]);
+  });
+
+  it("forbids authors and rejects taken slugs", async () => {
+    const { app, createUser } = createTestApp();
+    const author = await createUser();
+    const editor = await createUser("editor");
+
+    await request(app)
+      .post("/tags")
+      .set("Authorization", bearer(author))
+      .send({ name: "Node" })
+      .expect(403);
+    await request(app)
+      .post("/tags")
+      .set("Authorization", bearer(editor))
+      .send({ name: "Node" })
+      .expect(201);
+    await request(app)
+      .post("/tags")
+      .set("Authorization", bearer(editor))
+      .send({ name: "node" })
+      .expect(409);
+  });
+});
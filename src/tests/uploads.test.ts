@@ -0,0 +1,270 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import sharp from "sharp";
+import { bearer, createTestApp, PASSWORD } from "./helpers.js";
+
+function png(width = 800, height = 600) {
+  return sharp({
+    create: { width, height, channels: 3, background: "#3366cc" },
+  })
+    .png()
+    .toBuffer();
+}
+
+const pdf = Buffer.from("%PDF-1.4\n%%EOF\n");
+
+describe("PUT /articles/:id/cover", () => {
+  it("stores a re-encoded cover with a thumbnail and serves it", async () => {
+    const { app, storage, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+
+    const response = await request(app)
+      .put(`/articles/${article.id}/cover`)
+      .set("Authorization", bearer(user))
+      .attach("file", await png(), "cover.png")
+      .expect(200);
+
+    assert.equal(response.body.kind, "cover");
+    assert.equal(response.body.filename, "cover.png");
+    assert.equal(response.body.content_type, "image/webp");
+    assert.equal(response.body.width, 800);
+    assert.equal(response.body.height, 600);
+    assert.equal(response.body.storage_key, undefined);
+    assert.equal(storage.files.size, 2);
+
+    const thumbnail = await sharp(
+      storage.files.get(response.body.thumbnail_url.slice("/uploads/".length))!
+        .data
+    ).metadata();
+    assert.equal(thumbnail.width, 400);
+    assert.equal(thumbnail.height, 225);
+
+    const fetched = await request(app)
+      .get(`/articles/${article.id}`)
+      .expect(200);
+    assert.equal(fetched.body.cover_url, response.body.url);
+    assert.equal(fetched.body.cover_thumbnail_url, response.body.thumbnail_url);
+
+    const served = await request(app).get(response.body.url).expect(200);
+    assert.equal(served.headers["content-type"], "image/webp");
+    assert.equal(served.headers["x-content-type-options"], "nosniff");
+  });
+
+  it("deletes the files of a replaced cover", async () => {
+    const { app, storage, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+
+    const first = await request(app)
+      .put(`/articles/${article.id}/cover`)
+      .set("Authorization", bearer(user))
+      .attach("file", await png(), "first.png")
+      .expect(200);
+    await request(app)
+      .put(`/articles/${article.id}/cover`)
+      .set("Authorization", bearer(user))
+      .attach("file", await png(), "second.png")
+      .expect(200);
+
+    assert.equal(storage.files.size, 2);
+    await request(app).get(first.body.url).expect(404);
+  });
+
+  it("rejects files that are too large", async () => {
+    const { app, storage, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+
+    const response = await request(app)
+      .put(`/articles/${article.id}/cover`)
+      .set("Authorization", bearer(user))
+      .attach("file", Buffer.alloc(5 * 1024 * 1024 + 1), "huge.png")
+      .expect(413);
+
+    assert.equal(response.body.detail, "File must not exceed 5 MB");
+    assert.equal(storage.files.size, 0);
+  });
+
+  it("goes by the content, not the claimed type", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+
+    const response = await request(app)
+      .put(`/articles/${article.id}/cover`)
+      .set("Authorization", bearer(user))
+      .attach("file", Buffer.from("<svg onload=alert(1)>"), {
+        filename: "cover.png",
+        contentType: "image/png",
+      })
+      .expect(415);
+
+    assert.equal(
+      response.body.detail,
+      "File must be one of: image/jpeg, image/png, image/gif, image/webp"
+    );
+  });
+
+  it("only lets those who may edit the article change its cover", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const author = await createUser();
+    const other = await createUser();
+    const article = await createArticle(author);
+
+    await request(app)
+      .put(`/articles/${article.id}/cover`)
+      .set("Authorization", bearer(other))
+      .attach("file", await png(), "cover.png")
+      .expect(403);
+  });
+});
+
+describe("DELETE /articles/:id/cover", () => {
+  it("removes the cover and its files", async () => {
+    const { app, storage, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+    await request(app)
+      .put(`/articles/${article.id}/cover`)
+      .set("Authorization", bearer(user))
+      .attach("file", await png(), "cover.png")
+      .expect(200);
+
+    await request(app)
+      .delete(`/articles/${article.id}/cover`)
+      .set("Authorization", bearer(user))
+      .expect(204);
+
+    const fetched = await request(app)
+      .get(`/articles/${article.id}`)
+      .expect(200);
+    assert.equal(fetched.body.cover_url, null);
+    assert.equal(storage.files.size, 0);
+
+    await request(app)
+      .delete(`/articles/${article.id}/cover`)
+      .set("Authorization", bearer(user))
+      .expect(404);
+  });
+});
+
+describe("/articles/:id/attachments", () => {
+  it("attaches images and PDFs and lists them", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+
+    await request(app)
+      .post(`/articles/${article.id}/attachments`)
+      .set("Authorization", bearer(user))
+      .attach("file", pdf, "paper.pdf")
+      .expect(201);
+    await request(app)
+      .post(`/articles/${article.id}/attachments`)
+      .set("Authorization", bearer(user))
+      .attach("file", await png(), "figure.png")
+      .expect(201);
+
+    const response = await request(app)
+      .get(`/articles/${article.id}/attachments`)
+      .expect(200);
+
+    assert.deepEqual(
+      response.body.map(
+        (upload: { filename: string; content_type: string }) => [
+          upload.filename,
+          upload.content_type,
+        ]
+      ),
+      [
+        ["paper.pdf", "application/pdf"],
+        ["figure.png", "image/webp"],
+      ]
+    );
+    assert.equal(response.body[0].thumbnail_url, null);
+  });
+
+  it("removes an attachment and its file", async () => {
+    const { app, storage, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+    const other = await createArticle(user);
+    const attached = await request(app)
+      .post(`/articles/${article.id}/attachments`)
+      .set("Authorization", bearer(user))
+      .attach("file", pdf, "paper.pdf")
+      .expect(201);
+
+    await request(app)
+      .delete(`/articles/${other.id}/attachments/${attached.body.id}`)
+      .set("Authorization", bearer(user))
+      .expect(404);
+    await request(app)
+      .delete(`/articles/${article.id}/attachments/${attached.body.id}`)
+      .set("Authorization", bearer(user))
+      .expect(204);
+
+    assert.equal(storage.files.size, 0);
+  });
+
+  it("removes the files along with the article", async () => {
+    const { app, storage, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const article = await createArticle(user);
+    await request(app)
+      .post(`/articles/${article.id}/attachments`)
+      .set("Authorization", bearer(user))
+      .attach("file", pdf, "paper.pdf")
+      .expect(201);
+
+    await request(app)
+      .delete(`/articles/${article.id}`)
+      .set("Authorization", bearer(user))
+      .expect(204);
+
+    assert.equal(storage.files.size, 0);
+  });
+});
+
+describe("/users/me/avatar", () => {
+  it("stores a square avatar and shows it on the user", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .put("/users/me/avatar")
+      .set("Authorization", bearer(user))
+      .attach("file", await png(), "me.png")
+      .expect(200);
+
+    assert.equal(response.body.width, 512);
+    assert.equal(response.body.height, 512);
+
+    const fetched = await request(app).get(`/users/${user.id}`).expect(200);
+    assert.equal(fetched.body.avatar_url, response.body.url);
+    assert.equal(
+      fetched.body.avatar_thumbnail_url,
+      response.body.thumbnail_url
+    );
+  });
+
+  it("removes the files along with the user", async () => {
+    const { app, storage, createUser } = createTestApp();
+    const user = await createUser();
+    await request(app)
+      .put("/users/me/avatar")
+      .set("Authorization", bearer(user))
+      .attach("file", await png(), "me.png")
+      .expect(200);
+
+    await request(app)
+      .delete("/users/me")
+      .set("Authorization", bearer(user))
+      .send({ currentPassword: PASSWORD })
+      .expect(200);
+
+    assert.equal(storage.files.size, 0);
+  });
+});
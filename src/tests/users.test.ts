@@ -0,0 +1,518 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import request from "supertest";
+import { bearer, createTestApp, PASSWORD, tokenFromMail } from "./helpers.js";
+
+describe("GET /users", () => {
+  it("lists users without passwords", async () => {
+    const { app, createUser } = createTestApp();
+    const alice = await createUser();
+    const bob = await createUser();
+
+    const response = await request(app).get("/users").expect(200);
+
+    assert.deepEqual(response.body, [
+      {
+        id: alice.id,
+        username: alice.username,
+        email: alice.email,
+        avatar_url: null,
+        avatar_thumbnail_url: null,
+      },
+      {
+        id: bob.id,
+        username: bob.username,
+        email: bob.email,
+        avatar_url: null,
+        avatar_thumbnail_url: null,
+      },
+    ]);
+  });
+});
+
+describe("GET /users/:id", () => {
+  it("returns the user", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app).get(`/users/${user.id}`).expect(200);
+
+    assert.deepEqual(response.body, {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      avatar_url: null,
+      avatar_thumbnail_url: null,
+      follower_count: 0,
+      following_count: 0,
+    });
+  });
+
+  it("returns 404 for unknown ids and 400 for malformed ones", async () => {
+    const { app } = createTestApp();
+
+    const missing = await request(app).get("/users/99").expect(404);
+    const malformed = await request(app).get("/users/abc").expect(400);
+
+    assert.equal(missing.body.detail, "User not found");
+    assert.deepEqual(malformed.body.errors, ["ID must be a positive number"]);
+  });
+});
+
+describe("PUT /users/:id", () => {
+  it("lets users replace their own profile", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .put(`/users/${user.id}`)
+      .set("Authorization", bearer(user))
+      .send({
+        username: "renamed",
+        email: "renamed@example.com",
+        currentPassword: PASSWORD,
+      })
+      .expect(200);
+
+    assert.deepEqual(response.body, {
+      id: user.id,
+      username: "renamed",
+      email: "renamed@example.com",
+    });
+  });
+
+  it("requires both fields", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .put(`/users/${user.id}`)
+      .set("Authorization", bearer(user))
+      .send({ username: "renamed" })
+      .expect(400);
+
+    assert.deepEqual(response.body.errors, ["Email must be a valid email"]);
+  });
+
+  it("forbids changing other users unless admin", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+    const other = await createUser();
+    const admin = await createUser("admin");
+    const changes = { username: "changed", email: "changed@example.com" };
+
+    await request(app)
+      .put(`/users/${other.id}`)
+      .set("Authorization", bearer(user))
+      .send(changes)
+      .expect(403);
+    await request(app)
+      .put(`/users/${other.id}`)
+      .set("Authorization", bearer(admin))
+      .send(changes)
+      .expect(200);
+  });
+
+  it("rejects a username or email that is already taken", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+    const other = await createUser();
+
+    const response = await request(app)
+      .put(`/users/${user.id}`)
+      .set("Authorization", bearer(user))
+      .send({ username: other.username, email: user.email })
+      .expect(409);
+
+    assert.equal(response.body.code, "user_exists");
+    assert.equal(
+      response.body.detail,
+      "User with this email or username already exists"
+    );
+  });
+
+  it("requires authentication", async () => {
+    const { app } = createTestApp();
+
+    await request(app)
+      .put("/users/1")
+      .send({ username: "changed", email: "changed@example.com" })
+      .expect(401);
+  });
+});
+
+describe("PATCH /users/:id", () => {
+  it("updates only the given fields", async () => {
+    const { app, repositories, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .patch(`/users/${user.id}`)
+      .set("Authorization", bearer(user))
+      .send({ username: "patched" })
+      .expect(200);
+
+    assert.deepEqual(response.body, { id: user.id, username: "patched" });
+    assert.deepEqual(await repositories.users.findById(user.id), {
+      id: user.id,
+      username: "patched",
+      email: user.email,
+      avatar_url: null,
+      avatar_thumbnail_url: null,
+    });
+  });
+
+  it("rejects an empty update and invalid fields", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const empty = await request(app)
+      .patch(`/users/${user.id}`)
+      .set("Authorization", bearer(user))
+      .send({})
+      .expect(400);
+    const invalid = await request(app)
+      .patch(`/users/${user.id}`)
+      .set("Authorization", bearer(user))
+      .send({ email: "nope" })
+      .expect(400);
+
+    assert.deepEqual(empty.body.errors, ["No valid fields to update"]);
+    assert.deepEqual(invalid.body.errors, ["Email must be a valid email"]);
+  });
+
+  it("applies the registration rules to usernames", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .patch(`/users/${user.id}`)
+      .set("Authorization", bearer(user))
+      .send({ username: "ab" })
+      .expect(400);
+
+    assert.deepEqual(response.body.errors, [
+      "Username must be at least 3 characters",
+    ]);
+  });
+
+  it("asks for the current password before changing your own email", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+    const email = "new@example.com";
+
+    const missing = await request(app)
+      .patch(`/users/${user.id}`)
+      .set("Authorization", bearer(user))
+      .send({ email })
+      .expect(400);
+    const wrong = await request(app)
+      .patch(`/users/${user.id}`)
+      .set("Authorization", bearer(user))
+      .send({ email, currentPassword: "Wrong0ne!" })
+      .expect(403);
+
+    assert.equal(
+      missing.body.detail,
+      "Current password is required for this change"
+    );
+    assert.equal(wrong.body.detail, "Current password is incorrect");
+  });
+
+  it("lets admins change other users' emails without their password", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+    const admin = await createUser("admin");
+
+    await request(app)
+      .patch(`/users/${user.id}`)
+      .set("Authorization", bearer(admin))
+      .send({ email: "moved@example.com" })
+      .expect(200);
+  });
+
+  it("forbids patching other users", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+    const other = await createUser();
+
+    const response = await request(app)
+      .patch(`/users/${other.id}`)
+      .set("Authorization", bearer(user))
+      .send({ username: "hijacked" })
+      .expect(403);
+
+    assert.equal(response.body.detail, "Forbidden: insufficient permissions");
+  });
+});
+
+describe("DELETE /users/:id", () => {
+  it("lets users delete their own account", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .delete(`/users/${user.id}`)
+      .set("Authorization", bearer(user))
+      .send({ currentPassword: PASSWORD })
+      .expect(200);
+
+    assert.equal(response.body.message, "User deleted successfully");
+    await request(app).get(`/users/${user.id}`).expect(404);
+  });
+
+  it("requires the current password to delete your own account", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const missing = await request(app)
+      .delete(`/users/${user.id}`)
+      .set("Authorization", bearer(user))
+      .expect(400);
+    const wrong = await request(app)
+      .delete("/users/me")
+      .set("Authorization", bearer(user))
+      .send({ currentPassword: "Wrong0ne!" })
+      .expect(403);
+
+    assert.equal(missing.body.code, "current_password_required");
+    assert.equal(wrong.body.code, "current_password_incorrect");
+    await request(app).get(`/users/${user.id}`).expect(200);
+  });
+
+  it("forbids deleting other users unless admin", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+    const other = await createUser();
+    const admin = await createUser("admin");
+
+    await request(app)
+      .delete(`/users/${other.id}`)
+      .set("Authorization", bearer(user))
+      .expect(403);
+    await request(app)
+      .delete(`/users/${other.id}`)
+      .set("Authorization", bearer(admin))
+      .expect(200);
+    await request(app)
+      .delete(`/users/${other.id}`)
+      .set("Authorization", bearer(admin))
+      .expect(404);
+  });
+});
+
+describe("/users/me", () => {
+  it("returns the current user", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .get("/users/me")
+      .set("Authorization", bearer(user))
+      .expect(200);
+
+    assert.deepEqual(response.body, {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      avatar_url: null,
+      avatar_thumbnail_url: null,
+      follower_count: 0,
+      following_count: 0,
+    });
+    await request(app).get("/users/me").expect(401);
+  });
+
+  it("updates the current user", async () => {
+    const { app, repositories, createUser } = createTestApp();
+    const user = await createUser();
+
+    await request(app)
+      .patch("/users/me")
+      .set("Authorization", bearer(user))
+      .send({ username: "patched" })
+      .expect(200);
+
+    assert.equal(
+      (await repositories.users.findById(user.id))?.username,
+      "patched"
+    );
+  });
+
+  it("marks a changed email unverified and sends a new link", async () => {
+    const { app, mailer, repositories, createUser } = createTestApp();
+    const user = await createUser();
+    await request(app)
+      .post("/auth/verify-email")
+      .send({ token: tokenFromMail(mailer, user.email) })
+      .expect(200);
+    const email = "new@example.com";
+
+    const response = await request(app)
+      .patch("/users/me")
+      .set("Authorization", bearer(user))
+      .send({ email, currentPassword: PASSWORD })
+      .expect(200);
+
+    assert.deepEqual(response.body, { id: user.id, email });
+    const stored = await repositories.users.findByEmail(email);
+    assert.equal(stored?.email_verified_at, null);
+    await request(app)
+      .post("/auth/verify-email")
+      .send({ token: tokenFromMail(mailer, email) })
+      .expect(200);
+  });
+
+  it("deletes the current user", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    await request(app)
+      .delete("/users/me")
+      .set("Authorization", bearer(user))
+      .send({ currentPassword: PASSWORD })
+      .expect(200);
+
+    await request(app).get(`/users/${user.id}`).expect(404);
+  });
+});
+
+describe("POST /users/me/password", () => {
+  const newPassword = "N3w-Passw0rd";
+
+  it("changes the password and replaces every session", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .post("/users/me/password")
+      .set("Authorization", bearer(user))
+      .send({ currentPassword: PASSWORD, newPassword })
+      .expect(200);
+
+    await request(app)
+      .get("/users/me")
+      .set("Authorization", bearer(user))
+      .expect(401);
+    await request(app)
+      .post("/auth/refresh")
+      .send({ refreshToken: user.refreshToken })
+      .expect(401);
+    await request(app)
+      .get("/users/me")
+      .set("Authorization", `Bearer ${response.body.token}`)
+      .expect(200);
+    await request(app)
+      .post("/auth/login")
+      .send({ email: user.email, password: newPassword })
+      .expect(200);
+  });
+
+  it("invalidates pending password reset links", async () => {
+    const { app, mailer, createUser } = createTestApp();
+    const user = await createUser();
+    await request(app)
+      .post("/auth/forgot-password")
+      .send({ email: user.email })
+      .expect(202);
+
+    await request(app)
+      .post("/users/me/password")
+      .set("Authorization", bearer(user))
+      .send({ currentPassword: PASSWORD, newPassword })
+      .expect(200);
+
+    await request(app)
+      .post("/auth/reset-password")
+      .send({ token: tokenFromMail(mailer, user.email), password: PASSWORD })
+      .expect(400);
+  });
+
+  it("requires the correct current password", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .post("/users/me/password")
+      .set("Authorization", bearer(user))
+      .send({ currentPassword: "Wrong0ne!", newPassword })
+      .expect(403);
+
+    assert.equal(response.body.detail, "Current password is incorrect");
+  });
+
+  it("validates the new password", async () => {
+    const { app, createUser } = createTestApp();
+    const user = await createUser();
+
+    const response = await request(app)
+      .post("/users/me/password")
+      .set("Authorization", bearer(user))
+      .send({ currentPassword: PASSWORD, newPassword: PASSWORD })
+      .expect(400);
+
+    assert.deepEqual(response.body.errors, [
+      "New password must be different from the current password",
+    ]);
+  });
+});
+
+describe("PUT /users/:id/role", () => {
+  it("lets admins change roles", async () => {
+    const { app, repositories, createUser } = createTestApp();
+    const user = await createUser();
+    const admin = await createUser("admin");
+
+    const response = await request(app)
+      .put(`/users/${user.id}/role`)
+      .set("Authorization", bearer(admin))
+      .send({ role: "editor" })
+      .expect(200);
+
+    assert.deepEqual(response.body, { id: user.id, role: "editor" });
+    assert.equal(await repositories.users.findRole(user.id), "editor");
+  });
+
+  it("forbids everyone else and validates the role", async () => {
+    const { app, createUser } = createTestApp();
+    const editor = await createUser("editor");
+    const admin = await createUser("admin");
+
+    await request(app)
+      .put(`/users/${editor.id}/role`)
+      .set("Authorization", bearer(editor))
+      .send({ role: "admin" })
+      .expect(403);
+    const invalid = await request(app)
+      .put(`/users/${editor.id}/role`)
+      .set("Authorization", bearer(admin))
+      .send({ role: "superuser" })
+      .expect(400);
+
+    assert.deepEqual(invalid.body.errors, [
+      "Role must be one of: reader, author, editor, admin",
+    ]);
+  });
+});
+
+describe("GET /users/:id/articles", () => {
+  it("returns a page of the user's articles only", async () => {
+    const { app, createUser, createArticle } = createTestApp();
+    const user = await createUser();
+    const other = await createUser();
+    await createArticle(user, { title: "First" });
+    await createArticle(user, { title: "Second" });
+    await createArticle(other, { title: "Not mine" });
+
+    const response = await request(app)
+      .get(`/users/${user.id}/articles?limit=1&sort=title`)
+      .expect(200);
+
+    assert.deepEqual(
+      response.body.data.map((article: { title: string }) => article.title),
+      ["First"]
+    );
+    assert.equal(response.body.meta.total, 2);
+    assert.equal(typeof response.body.meta.nextCursor, "string");
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import request from "supertest";
+import { z } from "zod";
+import { problemHandler } from "../middleware/error-handler.js";
+import { idParamsSchema, validate } from "../middleware/validate.js";
+
+function createEchoApp() {
+  const app = express();
+  app.use(express.json());
+  app.post(
+    "/things/:id",
+    validate({
+      params: idParamsSchema,
+      query: z.object({ verbose: z.stringbool().default(false) }),
+      body: z.object({ name: z.string("Name is required") }),
+    }),
+    (req, res) => {
+      res.json({ valid: res.locals.valid, body: req.body });
+    }
+  );
+  app.use(problemHandler);
+  return app;
+}
+
+describe("validate", () => {
+  it("hands the parsed params, query and body to the handler", async () => {
+    const response = await request(createEchoApp())
+      .post("/things/7?verbose=true")
+      .send({ name: "Widget" })
+      .expect(200);
+
+    assert.deepEqual(response.body.valid, {
+      params: { id: 7 },
+      query: { verbose: true },
+      body: { name: "Widget" },
+    });
+  });
+
+  it("strips unknown fields from the body", async () => {
+    const response = await request(createEchoApp())
+      .post("/things/7")
+      .send({ name: "Widget", role: "admin" })
+      .expect(200);
+
+    assert.deepEqual(response.body.body, { name: "Widget" });
+    assert.deepEqual(response.body.valid.body, { name: "Widget" });
+  });
+
+  it("reports the problems of every part at once", async () => {
+    const response = await request(createEchoApp())
+      .post("/things/abc")
+      .send({})
+      .expect(400);
+
+    assert.equal(response.body.code, "validation_failed");
+    assert.deepEqual(response.body.errors, [
+      "ID must be a positive number",
+      "Name is required",
+    ]);
+  });
+
+  it("rejects ids that aren't positive", async () => {
+    for (const id of ["0", "007"]) {
+      const response = await request(createEchoApp())
+        .post(`/things/${id}`)
+        .send({ name: "Widget" })
+        .expect(400);
+
+      assert.deepEqual(response.body.errors, ["ID must be a positive number"]);
+    }
+  });
+});
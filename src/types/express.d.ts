@@ -1,11 +1,26 @@
+import type { Role } from "../utils/permissions.js";
+import type { ReceivedUpload } from "../utils/uploads.js";
+
 declare global {
   namespace Express {
     interface Request {
+      // Set for every request, see the requestId middleware
+      requestId: string;
       user?: {
         id: number;
+        role: Role;
+        sessionId: string;
+        // When the access token stops working
+        tokenExpiresAt: Date;
       };
     }
+    interface Locals {
+      resourceOwnerId?: number;
+      // Mount path of the router handling the request, see routePrefix
+      routePrefix?: string;
+      upload?: ReceivedUpload;
+    }
   }
 }
 
-export {};
\ No newline at end of file
+export {};
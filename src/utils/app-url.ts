@@ -0,0 +1,4 @@
+// Base URL used in links, points at the frontend when it lives elsewhere
+export function appUrl() {
+  return process.env.APP_URL || `http://localhost:${process.env.PORT || 3000}`;
+}
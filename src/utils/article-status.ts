@@ -0,0 +1,16 @@
+export const ARTICLE_STATUSES = [
+  "draft",
+  "scheduled",
+  "published",
+  "archived",
+] as const;
+
+export type ArticleStatus = (typeof ARTICLE_STATUSES)[number];
+
+// Only published articles are public, the others only show to their author
+export function canView(
+  article: { status: ArticleStatus; submitted_by: number },
+  viewerId: number | null
+) {
+  return article.status === "published" || article.submitted_by === viewerId;
+}
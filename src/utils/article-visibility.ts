@@ -0,0 +1,9 @@
+import type { Request } from "express";
+import { getRepositories } from "../repositories/index.js";
+import { canView } from "./article-status.js";
+
+// The article, if it exists and the current user may see it
+export async function findVisibleArticle(req: Request, id: number) {
+  const article = await getRepositories(req).articles.findById(id);
+  return article && canView(article, req.user?.id ?? null) ? article : null;
+}
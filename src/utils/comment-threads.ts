@@ -0,0 +1,44 @@
+import type { CommentThread, CommentWithAuthor } from "../interfaces.js";
+
+// Hide the author and body of deleted comments
+export function toCommentThread(
+  comment: CommentWithAuthor,
+  replies: CommentThread[] = []
+): CommentThread {
+  const deleted = comment.deleted_at !== null;
+  return {
+    id: comment.id,
+    parent_id: comment.parent_id,
+    user_id: deleted ? null : comment.user_id,
+    username: deleted ? null : comment.username,
+    body: deleted ? null : comment.body,
+    created_at: comment.created_at,
+    updated_at: comment.updated_at,
+    deleted,
+    replies,
+  };
+}
+
+// Nest the replies under their parents. Deleted comments stay as
+// placeholders while something below them is left, otherwise they go.
+export function buildThreads(
+  roots: CommentWithAuthor[],
+  replies: CommentWithAuthor[]
+): CommentThread[] {
+  const children = new Map<number, CommentWithAuthor[]>();
+  for (const reply of replies) {
+    const siblings = children.get(reply.parent_id!) ?? [];
+    siblings.push(reply);
+    children.set(reply.parent_id!, siblings);
+  }
+
+  function nest(comment: CommentWithAuthor): CommentThread[] {
+    const nested = (children.get(comment.id) ?? []).flatMap(nest);
+    if (comment.deleted_at !== null && nested.length === 0) {
+      return [];
+    }
+    return [toCommentThread(comment, nested)];
+  }
+
+  return roots.flatMap(nest);
+}
@@ -0,0 +1,198 @@
+import type { Request, Response } from "express";
+import type { ArticleWithAuthor } from "../interfaces.js";
+import { appUrl } from "./app-url.js";
+import { renderHtml } from "./markdown.js";
+
+export const FEED_FORMATS = ["rss", "atom", "json"] as const;
+
+export type FeedFormat = (typeof FEED_FORMATS)[number];
+
+// Newest articles per feed
+export const FEED_SIZE = 20;
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+export interface FeedInfo {
+  title: string;
+  description: string;
+  // Page of the site the feed belongs to, relative to APP_URL
+  homePath: string;
+  // Absolute URL the feed was requested from, see feedUrl
+  feedUrl: string;
+}
+
+// Where the feed is served, as seen by the client
+export function feedUrl(req: Request) {
+  return `${req.protocol}://${req.get("host")}${req.originalUrl.split("?")[0]}`;
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function articleUrl(article: ArticleWithAuthor) {
+  return `${appUrl()}/articles/${article.id}`;
+}
+
+// Category and tag slugs
+function articleTerms(article: ArticleWithAuthor) {
+  return [
+    ...(article.category ? [article.category] : []),
+    ...(article.tags ?? []),
+  ];
+}
+
+// Scheduled articles show up when they get published, not when written
+function articleDate(article: ArticleWithAuthor) {
+  return new Date(article.published_at ?? article.created_at);
+}
+
+// Newest article date, so the feed only changes when its articles do
+function lastUpdated(articles: ArticleWithAuthor[]) {
+  return new Date(
+    Math.max(0, ...articles.map((article) => articleDate(article).getTime()))
+  );
+}
+
+function renderRss(
+  info: FeedInfo,
+  articles: ArticleWithAuthor[],
+  updated: Date
+) {
+  const items = articles.map((article) =>
+    [
+      "<item>",
+      `<title>${escapeXml(article.title)}</title>`,
+      `<link>${escapeXml(articleUrl(article))}</link>`,
+      `<guid isPermaLink="true">${escapeXml(articleUrl(article))}</guid>`,
+      `<pubDate>${articleDate(article).toUTCString()}</pubDate>`,
+      `<dc:creator>${escapeXml(article.username)}</dc:creator>`,
+      ...articleTerms(article).map(
+        (term) => `<category>${escapeXml(term)}</category>`
+      ),
+      `<description>${escapeXml(article.excerpt)}</description>`,
+      `<content:encoded>${escapeXml(
+        renderHtml(article.body)
+      )}</content:encoded>`,
+      "</item>",
+    ].join("")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "<channel>",
+    `<title>${escapeXml(info.title)}</title>`,
+    `<link>${escapeXml(appUrl() + info.homePath)}</link>`,
+    `<description>${escapeXml(info.description)}</description>`,
+    `<atom:link href="${escapeXml(
+      info.feedUrl
+    )}" rel="self" type="application/rss+xml"/>`,
+    `<lastBuildDate>${updated.toUTCString()}</lastBuildDate>`,
+    ...items,
+    "</channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+function renderAtom(
+  info: FeedInfo,
+  articles: ArticleWithAuthor[],
+  updated: Date
+) {
+  const entries = articles.map((article) =>
+    [
+      "<entry>",
+      `<id>${escapeXml(articleUrl(article))}</id>`,
+      `<title>${escapeXml(article.title)}</title>`,
+      `<link rel="alternate" href="${escapeXml(articleUrl(article))}"/>`,
+      `<published>${articleDate(article).toISOString()}</published>`,
+      `<updated>${articleDate(article).toISOString()}</updated>`,
+      `<author><name>${escapeXml(article.username)}</name></author>`,
+      ...articleTerms(article).map(
+        (term) => `<category term="${escapeXml(term)}"/>`
+      ),
+      `<summary>${escapeXml(article.excerpt)}</summary>`,
+      `<content type="html">${escapeXml(renderHtml(article.body))}</content>`,
+      "</entry>",
+    ].join("")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `<id>${escapeXml(info.feedUrl)}</id>`,
+    `<title>${escapeXml(info.title)}</title>`,
+    `<subtitle>${escapeXml(info.description)}</subtitle>`,
+    `<link rel="self" href="${escapeXml(info.feedUrl)}"/>`,
+    `<link rel="alternate" href="${escapeXml(appUrl() + info.homePath)}"/>`,
+    `<updated>${updated.toISOString()}</updated>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+// JSON Feed 1.1, see https://jsonfeed.org/version/1.1
+function renderJson(info: FeedInfo, articles: ArticleWithAuthor[]) {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: info.title,
+    description: info.description,
+    home_page_url: appUrl() + info.homePath,
+    feed_url: info.feedUrl,
+    items: articles.map((article) => ({
+      id: articleUrl(article),
+      url: articleUrl(article),
+      title: article.title,
+      content_html: renderHtml(article.body),
+      summary: article.excerpt,
+      date_published: articleDate(article).toISOString(),
+      authors: [{ name: article.username }],
+      tags: articleTerms(article),
+      // Stored files may be served relative to the API
+      ...(article.cover_url
+        ? { image: new URL(article.cover_url, info.feedUrl).href }
+        : {}),
+    })),
+  });
+}
+
+function renderFeed(
+  format: FeedFormat,
+  info: FeedInfo,
+  articles: ArticleWithAuthor[]
+) {
+  const updated = lastUpdated(articles);
+  if (format === "json") {
+    return renderJson(info, articles);
+  }
+  return format === "atom"
+    ? renderAtom(info, articles, updated)
+    : renderRss(info, articles, updated);
+}
+
+// Express adds an ETag and answers If-None-Match and If-Modified-Since with
+// 304 Not Modified when the feed hasn't changed
+export function sendFeed(
+  res: Response,
+  format: FeedFormat,
+  info: FeedInfo,
+  articles: ArticleWithAuthor[]
+) {
+  res.set("Content-Type", CONTENT_TYPES[format]);
+  if (articles.length > 0) {
+    res.set("Last-Modified", lastUpdated(articles).toUTCString());
+  }
+  res.send(renderFeed(format, info, articles));
+}
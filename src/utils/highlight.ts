@@ -0,0 +1,57 @@
+const SNIPPET_LENGTH = 160;
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Split a search query into the words worth highlighting
+export function searchTerms(query: string) {
+  return [
+    ...new Set(
+      query
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((term) => term.length > 1)
+    ),
+  ];
+}
+
+// Escape text and wrap every search term in <mark> tags
+export function highlight(text: string, terms: string[]) {
+  if (terms.length === 0) {
+    return escapeHtml(text);
+  }
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "giu");
+  // split with a capture group puts the matched terms at odd indexes
+  return text
+    .split(pattern)
+    .map((part, index) =>
+      index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)
+    )
+    .join("");
+}
+
+// Cut a window of text around the first matched term and highlight it
+export function snippet(text: string, terms: string[]) {
+  const lower = text.toLowerCase();
+  const firstMatch = terms
+    .map((term) => lower.indexOf(term))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0];
+
+  const start = Math.max(0, (firstMatch ?? 0) - SNIPPET_LENGTH / 4);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+
+  return `${prefix}${highlight(text.slice(start, end), terms)}${suffix}`;
+}
@@ -0,0 +1,58 @@
+import sharp from "sharp";
+import type { UploadKind } from "../interfaces.js";
+
+// Refuse decompression bombs long before they reach memory
+const MAX_INPUT_PIXELS = 40_000_000;
+
+interface ImageSize {
+  width: number;
+  height: number;
+  // cover crops to exactly this size, inside only scales down
+  fit: "cover" | "inside";
+}
+
+// Largest stored image and thumbnail per kind of upload
+const IMAGE_SIZES: Record<
+  UploadKind,
+  { image: ImageSize; thumbnail: ImageSize }
+> = {
+  cover: {
+    image: { width: 1600, height: 1600, fit: "inside" },
+    thumbnail: { width: 400, height: 225, fit: "cover" },
+  },
+  attachment: {
+    image: { width: 1600, height: 1600, fit: "inside" },
+    thumbnail: { width: 320, height: 320, fit: "inside" },
+  },
+  avatar: {
+    image: { width: 512, height: 512, fit: "cover" },
+    thumbnail: { width: 96, height: 96, fit: "cover" },
+  },
+};
+
+export interface ProcessedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+async function resize(input: Buffer, size: ImageSize): Promise<ProcessedImage> {
+  const { data, info } = await sharp(input, {
+    limitInputPixels: MAX_INPUT_PIXELS,
+  })
+    // Apply the EXIF orientation before the metadata is dropped
+    .rotate()
+    .resize({ ...size, withoutEnlargement: true })
+    .webp({ quality: 82 })
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+// Re-encode the image as WebP, which also strips metadata such as the GPS
+// position, and make a thumbnail. Rejects when it isn't a readable image.
+export async function processImage(input: Buffer, kind: UploadKind) {
+  const sizes = IMAGE_SIZES[kind];
+  const image = await resize(input, sizes.image);
+  const thumbnail = await resize(image.data, sizes.thumbnail);
+  return { image, thumbnail };
+}
@@ -1,15 +1,30 @@
 import jwt from "jsonwebtoken";
 
-const JWT_SECRET = process.env.JWT_SECRET!;
+// Read on use, so the secret can be set after this module loads
+const jwtSecret = () => process.env.JWT_SECRET!;
 
-export function generateToken(userId: number) {
-  return jwt.sign({ userId }, JWT_SECRET, { expiresIn: "24h" });
+// Access tokens are short lived, clients renew them with a refresh token
+export const ACCESS_TOKEN_TTL = "15m";
+
+export interface AccessTokenPayload {
+  userId: number;
+  sid: string;
+  // Expiry in seconds since the epoch, set by jwt.sign
+  exp: number;
+}
+
+export function generateToken(userId: number, sessionId: string) {
+  return jwt.sign({ userId, sid: sessionId }, jwtSecret(), {
+    expiresIn: ACCESS_TOKEN_TTL,
+  });
 };
 
 export function verifyToken(token: string) {
   try {
-    return jwt.verify(token, JWT_SECRET) as { userId: number };
+    const payload = jwt.verify(token, jwtSecret()) as AccessTokenPayload;
+    // Tokens issued before sessions existed carry no session id
+    return payload.sid ? payload : null;
   } catch (error) {
     return null;
   }
-};
\ No newline at end of file
+};
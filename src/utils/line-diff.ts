@@ -0,0 +1,92 @@
+export interface DiffLine {
+  type: "unchanged" | "added" | "removed";
+  line: string;
+}
+
+// Myers' algorithm keeps one trace row per edit, so rewrites beyond this
+// many changed lines are shown as a plain replacement instead
+const MAX_EDIT_DISTANCE = 1000;
+
+function splitLines(text: string) {
+  return text === "" ? [] : text.replace(/\r\n/g, "\n").split("\n");
+}
+
+// Shortest edit script between two line lists, or null when it is longer
+// than MAX_EDIT_DISTANCE
+function shortestEdit(before: string[], after: string[]) {
+  const n = before.length;
+  const m = after.length;
+  const offset = MAX_EDIT_DISTANCE + 1;
+  // v[k + offset] is the furthest x reached on diagonal k = x - y
+  const v = new Int32Array(2 * offset + 1);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(n + m, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[k - 1 + offset]! < v[k + 1 + offset]!)
+          ? v[k + 1 + offset]!
+          : v[k - 1 + offset]! + 1;
+      let y = x - k;
+      while (x < n && y < m && before[x] === after[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= n && y >= m) {
+        return backtrack(before, after, trace, d);
+      }
+    }
+  }
+  return null;
+}
+
+// Walk the trace back from the end, collecting lines in reverse
+function backtrack(
+  before: string[],
+  after: string[],
+  trace: Int32Array[],
+  distance: number
+) {
+  const lines: DiffLine[] = [];
+  let x = before.length;
+  let y = after.length;
+
+  for (let d = distance; d > 0; d--) {
+    // Row d holds the state before step d, indexed from diagonal -d
+    const row = trace[d]!;
+    const at = (k: number) => row[k + d]!;
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      lines.push({ type: "unchanged", line: before[--x]! });
+      y--;
+    }
+    if (x === prevX) {
+      lines.push({ type: "added", line: after[--y]! });
+    } else {
+      lines.push({ type: "removed", line: before[--x]! });
+    }
+  }
+  while (x > 0) {
+    lines.push({ type: "unchanged", line: before[--x]! });
+  }
+  return lines.reverse();
+}
+
+// Line by line differences turning before into after
+export function diffLines(before: string, after: string): DiffLine[] {
+  const beforeLines = splitLines(before);
+  const afterLines = splitLines(after);
+  return (
+    shortestEdit(beforeLines, afterLines) ?? [
+      ...beforeLines.map((line) => ({ type: "removed" as const, line })),
+      ...afterLines.map((line) => ({ type: "added" as const, line })),
+    ]
+  );
+}
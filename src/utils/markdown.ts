@@ -0,0 +1,125 @@
+import MarkdownIt from "markdown-it";
+import type Token from "markdown-it/lib/token.mjs";
+import sanitizeHtml from "sanitize-html";
+
+export const BODY_FORMATS = ["markdown", "html", "text"] as const;
+
+export type BodyFormat = (typeof BODY_FORMATS)[number];
+
+const EXCERPT_LENGTH = 200;
+const WORDS_PER_MINUTE = 200;
+
+const markdown = new MarkdownIt({ html: true, linkify: true });
+
+// Links are checked by findDangerousContent instead, so every destination
+// shows up in the tokens
+const inspector = new MarkdownIt({ html: true, linkify: true });
+inspector.validateLink = () => true;
+
+// What rendered HTML may contain, everything else is stripped
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [...sanitizeHtml.defaults.allowedTags, "img", "del", "s"],
+  allowedAttributes: {
+    a: ["href", "title", "rel"],
+    img: ["src", "alt", "title"],
+    code: ["class"],
+  },
+  allowedSchemes: ["http", "https", "mailto"],
+  allowedSchemesByTag: { img: ["http", "https"] },
+  transformTags: {
+    a: sanitizeHtml.simpleTransform("a", { rel: "nofollow noopener" }),
+  },
+  allowedClasses: { code: [/^language-[\w-]+$/] },
+};
+
+const DANGEROUS_TAG =
+  /<\s*\/?\s*(script|iframe|frame|frameset|object|embed|applet|style|link|meta|base|form)\b/i;
+const EVENT_HANDLER = /<[^>]*\son[a-z]+\s*=/i;
+const SCRIPT_URL = /^\s*(javascript|vbscript|data):/i;
+const SCRIPT_URL_ATTRIBUTE =
+  /\s(href|src|action|formaction)\s*=\s*["']?\s*(javascript|vbscript|data):/i;
+
+function flatten(tokens: Token[]): Token[] {
+  return tokens.flatMap((token) => [token, ...flatten(token.children ?? [])]);
+}
+
+// Reasons to reject a body. Code blocks and inline code are only text, so
+// articles can still show off a <script> tag there.
+export function findDangerousContent(body: string) {
+  const problems = new Set<string>();
+  for (const token of flatten(inspector.parse(body, {}))) {
+    if (token.type === "html_block" || token.type === "html_inline") {
+      const tag = token.content.match(DANGEROUS_TAG)?.[1];
+      if (tag) {
+        problems.add(`Embedded <${tag.toLowerCase()}> is not allowed`);
+      }
+      if (EVENT_HANDLER.test(token.content)) {
+        problems.add("Event handler attributes are not allowed");
+      }
+      if (SCRIPT_URL_ATTRIBUTE.test(token.content)) {
+        problems.add("Script and data URLs are not allowed");
+      }
+    }
+    const url = token.attrGet("href") ?? token.attrGet("src");
+    if (url !== null && SCRIPT_URL.test(url)) {
+      problems.add("Script and data URLs are not allowed");
+    }
+  }
+  return [...problems];
+}
+
+export function renderHtml(body: string) {
+  return sanitizeHtml(markdown.render(body), SANITIZE_OPTIONS);
+}
+
+// The words a reader sees, one paragraph per line
+export function renderText(body: string) {
+  const lines: string[] = [];
+  let line = "";
+  const endLine = () => {
+    if (line.trim()) {
+      lines.push(line.trim());
+    }
+    line = "";
+  };
+
+  for (const token of flatten(markdown.parse(body, {}))) {
+    if (token.type === "text" || token.type === "code_inline") {
+      line += token.content;
+    } else if (token.type === "softbreak" || token.type === "hardbreak") {
+      line += " ";
+    } else if (token.type === "fence" || token.type === "code_block") {
+      endLine();
+      line = token.content;
+      endLine();
+    } else if (token.block && token.nesting === -1) {
+      endLine();
+    }
+  }
+  endLine();
+  return lines.join("\n");
+}
+
+export function renderBody(body: string, format: BodyFormat) {
+  if (format === "html") {
+    return renderHtml(body);
+  }
+  return format === "text" ? renderText(body) : body;
+}
+
+// Plain text start of the body, cut at a word boundary
+export function excerpt(body: string, length = EXCERPT_LENGTH) {
+  const text = renderText(body).replace(/\s+/g, " ");
+  if (text.length <= length) {
+    return text;
+  }
+  const cut = text.slice(0, length);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+// Whole minutes at an average reading pace, at least one
+export function readingTime(body: string) {
+  const words = renderText(body).split(/\s+/).filter(Boolean).length;
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+}
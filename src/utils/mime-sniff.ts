@@ -0,0 +1,40 @@
+// Bytes at fixed offsets that identify the file types we accept. The
+// client's Content-Type and file name are never trusted.
+const SIGNATURES: { type: string; parts: [number, string | number[]][] }[] = [
+  { type: "image/jpeg", parts: [[0, [0xff, 0xd8, 0xff]]] },
+  {
+    type: "image/png",
+    parts: [[0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]]],
+  },
+  { type: "image/gif", parts: [[0, "GIF87a"]] },
+  { type: "image/gif", parts: [[0, "GIF89a"]] },
+  // RIFF container with a WEBP form type
+  {
+    type: "image/webp",
+    parts: [
+      [0, "RIFF"],
+      [8, "WEBP"],
+    ],
+  },
+  { type: "application/pdf", parts: [[0, "%PDF-"]] },
+];
+
+export const IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+];
+
+function matches(data: Buffer, offset: number, expected: string | number[]) {
+  const bytes = typeof expected === "string" ? Buffer.from(expected) : expected;
+  return [...bytes].every((byte, index) => data[offset + index] === byte);
+}
+
+// The type the file content says it is, null when unknown
+export function sniffMimeType(data: Buffer) {
+  const signature = SIGNATURES.find(({ parts }) =>
+    parts.every(([offset, bytes]) => matches(data, offset, bytes))
+  );
+  return signature?.type ?? null;
+}
@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Shared query params for every paginated list endpoint
+export const paginationSchema = z.object({
+  limit: z.coerce
+    .number("Limit must be a number")
+    .int("Limit must be a whole number")
+    .min(1, "Limit must be at least 1")
+    .max(MAX_PAGE_SIZE, `Limit must not exceed ${MAX_PAGE_SIZE}`)
+    .default(DEFAULT_PAGE_SIZE),
+  page: z.coerce
+    .number("Page must be a number")
+    .int("Page must be a whole number")
+    .min(1, "Page must be at least 1")
+    .optional()
+    .describe(
+      "Page number for offset pagination, cannot be combined with cursor"
+    ),
+  cursor: z
+    .string()
+    .min(1, "Cursor must not be empty")
+    .optional()
+    .describe("The nextCursor value from a previous page"),
+});
+
+export interface PageMeta {
+  total: number;
+  limit: number;
+  page: number | null;
+  nextCursor: string | null;
+}
+
+export interface Page<T> {
+  data: T[];
+  meta: PageMeta;
+}
+
+// Cursors are opaque to clients: base64url encoded JSON
+export function encodeCursor(payload: object): string {
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch (error) {
+    return null;
+  }
+}
+
+// Offset for page based pagination, cursor requests always start at 0
+export function pageOffset(page: number | undefined, limit: number) {
+  return page ? (page - 1) * limit : 0;
+}
@@ -0,0 +1,72 @@
+export const ROLES = ["reader", "author", "editor", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Role given to newly registered users
+export const DEFAULT_ROLE: Role = "author";
+
+// Actions that are granted either on your own resources or on any resource
+type OwnableAction =
+  | "articles:update"
+  | "articles:delete"
+  | "comments:update"
+  | "comments:delete"
+  | "users:update"
+  | "users:delete";
+
+export type Action =
+  | OwnableAction
+  | "articles:create"
+  | "audit:read"
+  | "categories:manage"
+  | "comments:create"
+  | "tags:manage"
+  | "users:manage-roles";
+
+export type Permission =
+  | Exclude<Action, OwnableAction>
+  | `${OwnableAction}:own`
+  | `${OwnableAction}:any`;
+
+const readerPermissions: Permission[] = [
+  "comments:create",
+  "comments:update:own",
+  "comments:delete:own",
+  "users:update:own",
+  "users:delete:own",
+];
+
+const authorPermissions: Permission[] = [
+  ...readerPermissions,
+  "articles:create",
+  "articles:update:own",
+  "articles:delete:own",
+];
+
+const editorPermissions: Permission[] = [
+  ...authorPermissions,
+  "articles:update:any",
+  "articles:delete:any",
+  "comments:delete:any",
+  "categories:manage",
+  "tags:manage",
+];
+
+const adminPermissions: Permission[] = [
+  ...editorPermissions,
+  "users:update:any",
+  "users:delete:any",
+  "users:manage-roles",
+  "audit:read",
+];
+
+const ROLE_PERMISSIONS: Record<Role, ReadonlySet<Permission>> = {
+  reader: new Set(readerPermissions),
+  author: new Set(authorPermissions),
+  editor: new Set(editorPermissions),
+  admin: new Set(adminPermissions),
+};
+
+export function hasPermission(role: Role, permission: Permission) {
+  return ROLE_PERMISSIONS[role].has(permission);
+}
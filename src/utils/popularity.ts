@@ -0,0 +1,32 @@
+// How much each kind of engagement counts towards the popular sort
+export const POPULARITY_WEIGHTS = {
+  likes: 1,
+  bookmarks: 2,
+  comments: 1,
+} as const;
+
+// How fast the score of an article decays with its age
+export const POPULARITY_GRAVITY = 1.5;
+
+export interface Engagement {
+  likes: number;
+  bookmarks: number;
+  comments: number;
+}
+
+// Weighted engagement plus one, divided by (age in hours + 2) ^ gravity.
+// The extra point ranks new articles without engagement by recency.
+export function popularityScore(
+  engagement: Engagement,
+  createdAt: Date,
+  now: Date = new Date()
+) {
+  const points =
+    POPULARITY_WEIGHTS.likes * engagement.likes +
+    POPULARITY_WEIGHTS.bookmarks * engagement.bookmarks +
+    POPULARITY_WEIGHTS.comments * engagement.comments +
+    1;
+  const ageHours =
+    Math.max(0, now.getTime() - new Date(createdAt).getTime()) / 3600000;
+  return points / Math.pow(ageHours + 2, POPULARITY_GRAVITY);
+}
@@ -0,0 +1,68 @@
+import crypto from "node:crypto";
+import type { RefreshTokenRepository } from "../repositories/index.js";
+import { hashToken, randomToken } from "./secure-token.js";
+
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface IssuedRefreshToken {
+  token: string;
+  familyId: string;
+  userId: number;
+}
+
+export type RotateResult =
+  | ({ status: "rotated" } & IssuedRefreshToken)
+  | { status: "invalid" }
+  | { status: "reused" };
+
+// Issue a refresh token, starting a new family unless one is given
+export async function issueRefreshToken(
+  tokens: RefreshTokenRepository,
+  userId: number,
+  familyId: string = crypto.randomUUID()
+): Promise<IssuedRefreshToken> {
+  const token = randomToken();
+
+  await tokens.create({
+    user_id: userId,
+    family_id: familyId,
+    token_hash: hashToken(token),
+    expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+
+  return { token, familyId, userId };
+}
+
+// Exchange a refresh token for a new one in the same family.
+// Presenting a token that was already rotated means it leaked,
+// so the whole family is revoked.
+export async function rotateRefreshToken(
+  tokens: RefreshTokenRepository,
+  token: string
+): Promise<RotateResult> {
+  const stored = await tokens.findByHash(hashToken(token));
+
+  if (!stored || stored.revoked_at) {
+    return { status: "invalid" };
+  }
+  if (stored.used_at) {
+    await tokens.revokeFamily(stored.family_id);
+    return { status: "reused" };
+  }
+  if (new Date(stored.expires_at) <= new Date()) {
+    return { status: "invalid" };
+  }
+
+  // Guard against two concurrent refreshes with the same token
+  if (!(await tokens.markUsed(stored.id))) {
+    await tokens.revokeFamily(stored.family_id);
+    return { status: "reused" };
+  }
+
+  const issued = await issueRefreshToken(
+    tokens,
+    stored.user_id,
+    stored.family_id
+  );
+  return { status: "rotated", ...issued };
+}
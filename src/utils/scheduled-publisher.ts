@@ -0,0 +1,33 @@
+import type { Logger } from "../logging/index.js";
+import type { ArticleRepository } from "../repositories/index.js";
+
+const PUBLISH_INTERVAL_MS = 60 * 1000;
+
+// Publish scheduled articles whose publish_at has passed
+export async function publishScheduledArticles(
+  articles: ArticleRepository,
+  logger: Logger
+) {
+  const published = await articles.publishDue();
+  if (published > 0) {
+    logger.info("Published scheduled articles", { count: published });
+  }
+  return published;
+}
+
+// Run the publisher on an interval, returns a function that stops it
+export function startScheduledPublisher(
+  articles: ArticleRepository,
+  logger: Logger,
+  intervalMs = PUBLISH_INTERVAL_MS
+) {
+  const timer = setInterval(() => {
+    publishScheduledArticles(articles, logger).catch((error) => {
+      logger.error("Error publishing scheduled articles", { error });
+    });
+  }, intervalMs);
+  // Never keep the process alive just for the publisher
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,11 @@
+import crypto from "node:crypto";
+
+// Opaque random token handed to the client
+export function randomToken() {
+  return crypto.randomBytes(48).toString("base64url");
+}
+
+// Only hashes are stored, a leaked table can't be replayed
+export function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
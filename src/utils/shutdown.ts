@@ -0,0 +1,45 @@
+import type { Server } from "node:http";
+import type { Express, Request } from "express";
+import type { Logger } from "../logging/index.js";
+
+// How long open requests get to finish once shutdown begins
+export const SHUTDOWN_TIMEOUT_MS = 10_000;
+
+// From here on GET /readyz answers 503, so load balancers stop sending
+// traffic while the requests in flight finish
+export function markShuttingDown(app: Express) {
+  app.locals.shuttingDown = true;
+}
+
+export function isShuttingDown(req: Request) {
+  return req.app.locals.shuttingDown === true;
+}
+
+// Stop accepting connections and wait for the open ones to finish their
+// requests, then cut off whatever is still open after timeoutMs. Idle
+// keep-alive connections are closed right away.
+export function closeServer(
+  server: Server,
+  logger: Logger,
+  timeoutMs = SHUTDOWN_TIMEOUT_MS
+) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      logger.warn("Closing connections still open after the timeout", {
+        timeout_ms: timeoutMs,
+      });
+      server.closeAllConnections();
+    }, timeoutMs);
+    timer.unref();
+
+    server.close((error) => {
+      clearTimeout(timer);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    });
+    server.closeIdleConnections();
+  });
+}
@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+// URL friendly version of a name: "Node.js & Express" -> "node-js-express"
+export function slugify(text: string, maxLength = 100) {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, maxLength)
+    .replace(/^-+|-+$/g, "");
+}
+
+export const slugSchema = z
+  .string("Slug must be a string")
+  .max(100, "Slug must not exceed 100 characters")
+  .regex(
+    /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    "Slug may only contain lowercase letters, numbers and single dashes"
+  );
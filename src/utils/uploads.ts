@@ -0,0 +1,110 @@
+import crypto from "node:crypto";
+import type {
+  NewUpload,
+  Upload,
+  UploadKind,
+  UploadResponse,
+} from "../interfaces.js";
+import type { Logger } from "../logging/index.js";
+import type { UploadRepository } from "../repositories/index.js";
+import type { Storage } from "../storage/index.js";
+
+// A checked upload, ready to be stored. Images are already re-encoded.
+export interface ReceivedUpload {
+  filename: string;
+  content_type: string;
+  data: Buffer;
+  width: number | null;
+  height: number | null;
+  // Only for images
+  thumbnail: Buffer | null;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+};
+
+// Put the file and its thumbnail into storage under fresh random keys
+async function storeUpload(
+  storage: Storage,
+  upload: ReceivedUpload,
+  kind: UploadKind
+): Promise<Omit<NewUpload, "user_id" | "article_id">> {
+  const name = `${kind}s/${crypto.randomUUID()}`;
+  const extension = EXTENSIONS[upload.content_type] ?? "bin";
+  const storageKey = `${name}.${extension}`;
+  const url = await storage.put(storageKey, upload.data, upload.content_type);
+
+  let thumbnailKey: string | null = null;
+  let thumbnailUrl: string | null = null;
+  if (upload.thumbnail) {
+    thumbnailKey = `${name}-thumb.${extension}`;
+    thumbnailUrl = await storage.put(
+      thumbnailKey,
+      upload.thumbnail,
+      upload.content_type
+    );
+  }
+
+  return {
+    kind,
+    filename: upload.filename,
+    content_type: upload.content_type,
+    size: upload.data.length,
+    width: upload.width,
+    height: upload.height,
+    storage_key: storageKey,
+    url,
+    thumbnail_key: thumbnailKey,
+    thumbnail_url: thumbnailUrl,
+  };
+}
+
+// Delete the stored files of uploads whose rows are gone. Failures are only
+// logged, a leftover file is no reason to fail the request.
+export async function removeUploadFiles(
+  storage: Storage,
+  uploads: Pick<Upload, "storage_key" | "thumbnail_key">[],
+  logger: Logger
+) {
+  const keys = uploads.flatMap((upload) =>
+    upload.thumbnail_key
+      ? [upload.storage_key, upload.thumbnail_key]
+      : [upload.storage_key]
+  );
+  for (const key of keys) {
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      logger.error("Error removing stored file", { key, error });
+    }
+  }
+}
+
+// Store the files and record the upload. The files of a replaced cover or
+// avatar are removed, and so are the new ones when recording fails.
+export async function saveUpload(
+  storage: Storage,
+  uploads: UploadRepository,
+  received: ReceivedUpload,
+  owner: Pick<NewUpload, "kind" | "user_id" | "article_id">,
+  logger: Logger
+) {
+  const stored = await storeUpload(storage, received, owner.kind);
+  try {
+    const { upload, replaced } = await uploads.create({ ...stored, ...owner });
+    if (replaced) {
+      await removeUploadFiles(storage, [replaced], logger);
+    }
+    return upload;
+  } catch (error) {
+    await removeUploadFiles(storage, [stored], logger);
+    throw error;
+  }
+}
+
+export function toUploadResponse(upload: Upload): UploadResponse {
+  const { storage_key, thumbnail_key, ...response } = upload;
+  return response;
+}
@@ -0,0 +1,61 @@
+import type { UserResponse, UserTokenPurpose } from "../interfaces.js";
+import { verificationEmail, type Mailer } from "../mail/index.js";
+import type { UserTokenRepository } from "../repositories/index.js";
+import { hashToken, randomToken } from "./secure-token.js";
+
+const USER_TOKEN_TTL_MS: Record<UserTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000,
+  email_verification: 24 * 60 * 60 * 1000,
+};
+
+// Issue a single-use token, older unused tokens of the same purpose stop working
+export async function issueUserToken(
+  tokens: UserTokenRepository,
+  userId: number,
+  purpose: UserTokenPurpose
+): Promise<string> {
+  const token = randomToken();
+
+  await tokens.invalidateForUser(userId, purpose);
+  await tokens.create({
+    user_id: userId,
+    purpose,
+    token_hash: hashToken(token),
+    expires_at: new Date(Date.now() + USER_TOKEN_TTL_MS[purpose]),
+  });
+
+  return token;
+}
+
+// Use up a token, resolves to its user id or null when it can't be used
+export async function consumeUserToken(
+  tokens: UserTokenRepository,
+  token: string,
+  purpose: UserTokenPurpose
+): Promise<number | null> {
+  const stored = await tokens.findByHash(hashToken(token), purpose);
+
+  if (!stored || stored.used_at) {
+    return null;
+  }
+  if (new Date(stored.expires_at) <= new Date()) {
+    return null;
+  }
+
+  // Guard against the same link being submitted twice at once
+  if (!(await tokens.markUsed(stored.id))) {
+    return null;
+  }
+
+  return stored.user_id;
+}
+
+// Email a fresh verification link, replacing any earlier one
+export async function sendVerificationEmail(
+  tokens: UserTokenRepository,
+  mailer: Mailer,
+  user: Pick<UserResponse, "id" | "email">
+) {
+  const token = await issueUserToken(tokens, user.id, "email_verification");
+  await mailer.send(verificationEmail(user.email, token));
+}